@@ -27,22 +27,15 @@ async function main() {
       prompt: 'Write exactly 5 words.',
       // These parameters are part of the AI SDK spec but are ignored by Claude Code SDK
       temperature: 0.1, // ❌ Ignored - CLI doesn't support temperature control
-      maxOutputTokens: 10, // ❌ Ignored - CLI doesn't support output length limits
       topP: 0.9, // ❌ Ignored - CLI doesn't support nucleus sampling
       topK: 50, // ❌ Ignored - CLI doesn't support top-k sampling
       presencePenalty: 0.5, // ❌ Ignored - CLI doesn't support repetition penalties
       frequencyPenalty: 0.5, // ❌ Ignored - CLI doesn't support repetition penalties
-      stopSequences: ['END'], // ❌ Ignored - CLI doesn't support custom stop sequences
       seed: 12345, // ❌ Ignored - CLI doesn't support deterministic output
     });
 
     console.log('   Result:', text);
     console.log('   Tokens used:', usage.totalTokens);
-    console.log(
-      '\n   ⚠️  Note: Despite setting maxTokens:10, the response used',
-      usage.totalTokens,
-      'tokens'
-    );
     console.log('   ⚠️  All the above parameters were silently ignored by the CLI\n');
   } catch (error) {
     console.error('   Error:', error);
@@ -88,7 +81,6 @@ async function main() {
       model: claudeCode('opus'),
       prompt: 'Count to 3',
       temperature: 0, // ❌ Still ignored in streaming mode
-      maxOutputTokens: 5, // ❌ Still ignored in streaming mode
     });
 
     console.log('   Streaming: ');
@@ -107,6 +99,7 @@ async function main() {
   console.log('   - Use phrases like "be creative" or "be precise"\n');
 
   console.log('2. For output length control:');
+  console.log('   - maxOutputTokens is emulated: the stream stops near the limit (approximate)');
   console.log('   - Specify length in your prompt: "Write exactly 50 words"');
   console.log('   - Use explicit instructions: "Keep your response brief"\n');
 
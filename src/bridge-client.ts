@@ -0,0 +1,302 @@
+import {
+  AbortError,
+  type HookCallback,
+  type Options,
+  type SDKMessage,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import { generateId } from '@ai-sdk/provider-utils';
+import {
+  NDJSON_CONTENT_TYPE,
+  deserializeError,
+  readBodyChunks,
+  readNdjson,
+  serializeError,
+  type BridgeClientEvent,
+  type BridgeMcpTransport,
+  type BridgeOptions,
+  type BridgeQueryRequest,
+  type BridgeRpc,
+  type BridgeServerEvent,
+} from './bridge-protocol.js';
+import type { ClaudeCodeQueryFunction } from './types.js';
+
+export interface ClaudeCodeBridgeClientOptions {
+  /**
+   * Base URL of the bridge server, as returned by `listen()`.
+   */
+  url: string;
+
+  /**
+   * Shared secret configured on the server with `token`.
+   */
+  token?: string;
+
+  /**
+   * Custom fetch implementation (defaults to the global `fetch`).
+   */
+  fetch?: typeof globalThis.fetch;
+}
+
+interface SdkMcpInstance {
+  connect(transport: BridgeMcpTransport): Promise<void>;
+}
+
+/**
+ * Converts options to their serializable form, keeping the callbacks and in-process MCP
+ * servers so they can be served locally.
+ */
+function serializeOptions(options: Options = {}): {
+  options: BridgeOptions;
+  hooks: Map<string, HookCallback>;
+  mcpServers: Map<string, SdkMcpInstance>;
+} {
+  const {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars -- never sent
+    abortController: _abortController,
+    canUseTool,
+    hooks,
+    mcpServers,
+    stderr,
+    env,
+    ...rest
+  } = options;
+  const hookCallbacks = new Map<string, HookCallback>();
+  const mcpInstances = new Map<string, SdkMcpInstance>();
+  const serialized: BridgeOptions = { ...rest };
+
+  if (canUseTool) serialized.canUseTool = true;
+  if (stderr) serialized.stderr = true;
+
+  // The provider merges `env` into the local environment; only the overrides are sent
+  if (env) {
+    const localEnv = typeof process !== 'undefined' ? process.env : {};
+    const overrides = Object.entries(env).filter(([key, value]) => localEnv[key] !== value);
+    if (overrides.length > 0) {
+      serialized.env = Object.fromEntries(overrides);
+    }
+  }
+
+  if (hooks) {
+    serialized.hooks = Object.fromEntries(
+      Object.entries(hooks).map(([event, matchers]) => [
+        event,
+        (matchers ?? []).map(({ hooks: callbacks, ...matcher }, i) => ({
+          ...matcher,
+          hooks: callbacks.map((callback, j) => {
+            const hookId = `${event}:${i}:${j}`;
+            hookCallbacks.set(hookId, callback);
+            return hookId;
+          }),
+        })),
+      ])
+    );
+  }
+
+  if (mcpServers) {
+    serialized.mcpServers = Object.fromEntries(
+      Object.entries(mcpServers).map(([name, config]) => {
+        if (config.type !== 'sdk') return [name, config];
+        mcpInstances.set(name, (config as unknown as { instance: SdkMcpInstance }).instance);
+        return [name, { type: 'sdk', name }];
+      })
+    );
+  }
+
+  return { options: serialized, hooks: hookCallbacks, mcpServers: mcpInstances };
+}
+
+/**
+ * Creates a query function that runs queries on a bridge server created with
+ * `createClaudeCodeBridgeServer`, so the Claude CLI runs on a remote worker. Pass it as
+ * the provider's or a model's `queryFunction`.
+ *
+ * Options are sent to the server, except callbacks: `canUseTool`, hooks, `stderr` and
+ * in-process MCP servers run locally and are called by the server through RPC round
+ * trips. Aborting the query aborts it on the server.
+ *
+ * @param options - Bridge server URL and credentials
+ * @returns A query function that runs queries remotely
+ *
+ * @example
+ * ```typescript
+ * const claudeCode = createClaudeCode({
+ *   queryFunction: createClaudeCodeBridgeQuery({
+ *     url: 'http://worker.internal:8787',
+ *     token: process.env.BRIDGE_TOKEN,
+ *   }),
+ * });
+ * ```
+ */
+export function createClaudeCodeBridgeQuery(
+  options: ClaudeCodeBridgeClientOptions
+): ClaudeCodeQueryFunction {
+  const baseUrl = options.url.replace(/\/+$/, '');
+  const headers = {
+    'content-type': 'application/json',
+    ...(options.token !== undefined && { authorization: `Bearer ${options.token}` }),
+  };
+
+  return ({ prompt, options: queryOptions }) => {
+    const fetchFn = options.fetch ?? globalThis.fetch;
+    const id = generateId();
+    const signal = queryOptions?.abortController?.signal;
+    const serialized = serializeOptions(queryOptions);
+
+    return (async function* (): AsyncGenerator<SDKMessage> {
+      if (signal?.aborted) {
+        throw new AbortError('Claude Code process aborted by user');
+      }
+
+      const controller = new AbortController();
+      const rpcControllers = new Map<number, AbortController>();
+      const mcpTransports = new Map<string, BridgeMcpTransport>();
+      let ended = false;
+
+      // Events are posted one at a time so the server receives them in order
+      let posting = Promise.resolve();
+      const post = (event: BridgeClientEvent): Promise<void> => {
+        if (ended) return posting;
+        posting = posting.then(async () => {
+          const response = await fetchFn(`${baseUrl}/query/${encodeURIComponent(id)}/events`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(event),
+          }).catch(() => undefined);
+          await response?.body?.cancel();
+        });
+        return posting;
+      };
+
+      const onAbort = () => {
+        void post({ type: 'abort' });
+        controller.abort();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const handleRpc = async (event: { id: number } & BridgeRpc) => {
+        const rpcController = new AbortController();
+        rpcControllers.set(event.id, rpcController);
+        try {
+          let result: unknown;
+          if (event.method === 'canUseTool') {
+            const { toolName, input, context } = event.params;
+            if (!queryOptions?.canUseTool) throw new Error('canUseTool is not configured');
+            result = await queryOptions.canUseTool(toolName, input, {
+              ...(context as Parameters<NonNullable<Options['canUseTool']>>[2]),
+              signal: rpcController.signal,
+            });
+          } else {
+            const hook = serialized.hooks.get(event.params.hookId);
+            if (!hook) throw new Error(`Unknown hook ${event.params.hookId}`);
+            result = await hook(
+              event.params.input as Parameters<HookCallback>[0],
+              event.params.toolUseID,
+              { signal: rpcController.signal }
+            );
+          }
+          await post({ type: 'rpc-result', id: event.id, result });
+        } catch (error) {
+          await post({ type: 'rpc-error', id: event.id, error: serializeError(error) });
+        } finally {
+          rpcControllers.delete(event.id);
+        }
+      };
+
+      const pumpInput = async (messages: AsyncIterable<SDKUserMessage>) => {
+        for await (const message of messages) {
+          if (ended) return;
+          await post({ type: 'input', message });
+        }
+        await post({ type: 'input-end' });
+      };
+
+      try {
+        const request: BridgeQueryRequest = {
+          id,
+          prompt: typeof prompt === 'string' ? prompt : null,
+          options: serialized.options,
+        };
+        const response = await fetchFn(`${baseUrl}/query`, {
+          method: 'POST',
+          headers: { ...headers, accept: NDJSON_CONTENT_TYPE },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          const detail = await response.text().catch(() => '');
+          throw new Error(
+            `Bridge server responded with HTTP ${response.status}${detail ? `: ${detail}` : ''}`
+          );
+        }
+
+        for (const [name, instance] of serialized.mcpServers) {
+          const transport: BridgeMcpTransport = {
+            start: async () => {},
+            send: (message) => post({ type: 'mcp', server: name, message }),
+            close: async () => {
+              if (mcpTransports.delete(name)) transport.onclose?.();
+            },
+          };
+          mcpTransports.set(name, transport);
+          await instance.connect(transport);
+        }
+
+        if (typeof prompt !== 'string') {
+          pumpInput(prompt).catch((error) => {
+            queryOptions?.stderr?.(`Bridge input failed: ${String(error)}\n`);
+            void post({ type: 'abort' });
+          });
+        }
+
+        for await (const value of readNdjson(readBodyChunks(response.body))) {
+          const event = value as BridgeServerEvent;
+          switch (event.type) {
+            case 'message':
+              yield event.message;
+              break;
+            case 'rpc':
+              void handleRpc(event);
+              break;
+            case 'mcp':
+              mcpTransports.get(event.server)?.onmessage?.(event.message);
+              break;
+            case 'stderr':
+              queryOptions?.stderr?.(event.data);
+              break;
+            case 'error':
+              ended = true;
+              if (signal?.aborted) throw new AbortError('Claude Code process aborted by user');
+              throw deserializeError(event.error);
+            case 'end':
+              ended = true;
+              return;
+          }
+        }
+        if (signal?.aborted) {
+          throw new AbortError('Claude Code process aborted by user');
+        }
+        throw new Error('Bridge server closed the stream before the query ended');
+      } catch (error) {
+        if (signal?.aborted && !(error instanceof AbortError)) {
+          throw new AbortError('Claude Code process aborted by user');
+        }
+        throw error;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (!ended && !signal?.aborted) {
+          // The consumer stopped early; stop the remote query as well
+          void post({ type: 'abort' });
+        }
+        ended = true;
+        controller.abort();
+        for (const rpcController of rpcControllers.values()) {
+          rpcController.abort();
+        }
+        for (const transport of [...mcpTransports.values()]) {
+          await transport.close();
+        }
+      }
+    })();
+  };
+}
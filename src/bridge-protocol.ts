@@ -0,0 +1,159 @@
+import type {
+  HookEvent,
+  McpServerConfig,
+  Options,
+  SDKMessage,
+  SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+
+/**
+ * Wire protocol between the bridge client (`createClaudeCodeBridgeQuery`) and the bridge
+ * server (`createClaudeCodeBridgeServer`).
+ *
+ * - `POST <url>/query` starts a query with a {@link BridgeQueryRequest} and responds with
+ *   an NDJSON stream of {@link BridgeServerEvent}s.
+ * - `POST <url>/query/<id>/events` sends a {@link BridgeClientEvent} to a running query:
+ *   streaming input, RPC results, MCP messages and aborts.
+ */
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Query options in serializable form. Callbacks are replaced by markers and proxied as
+ * RPC round trips; in-process MCP servers are proxied as MCP messages.
+ */
+export type BridgeOptions = Omit<
+  Options,
+  'abortController' | 'canUseTool' | 'hooks' | 'mcpServers' | 'stderr'
+> & {
+  /** Whether the client has a `canUseTool` callback. */
+  canUseTool?: boolean;
+  /** Hook matchers with callback ids instead of callbacks. */
+  hooks?: Partial<Record<HookEvent, { matcher?: string; timeout?: number; hooks: string[] }[]>>;
+  /** MCP servers; in-process servers are sent as `{ type: 'sdk', name }`. */
+  mcpServers?: Record<string, Exclude<McpServerConfig, { type: 'sdk' }> | BridgeSdkServer>;
+  /** Whether the client wants stderr output. */
+  stderr?: boolean;
+};
+
+export type BridgeSdkServer = { type: 'sdk'; name: string };
+
+export interface BridgeQueryRequest {
+  /** Query id chosen by the client, used to address events to the query. */
+  id: string;
+  /** The prompt, or null when the prompt is streamed as `input` events. */
+  prompt: string | null;
+  options: BridgeOptions;
+}
+
+export interface BridgeError {
+  name: string;
+  message: string;
+  code?: string;
+  exitCode?: number;
+  stderr?: string;
+}
+
+export type BridgeRpc =
+  | {
+      method: 'canUseTool';
+      params: { toolName: string; input: Record<string, unknown>; context: object };
+    }
+  | { method: 'hook'; params: { hookId: string; input: unknown; toolUseID: string | undefined } };
+
+export type BridgeServerEvent =
+  | { type: 'message'; message: SDKMessage }
+  | ({ type: 'rpc'; id: number } & BridgeRpc)
+  | { type: 'mcp'; server: string; message: unknown }
+  | { type: 'stderr'; data: string }
+  | { type: 'error'; error: BridgeError }
+  | { type: 'end' };
+
+export type BridgeClientEvent =
+  | { type: 'input'; message: SDKUserMessage }
+  | { type: 'input-end' }
+  | { type: 'rpc-result'; id: number; result: unknown }
+  | { type: 'rpc-error'; id: number; error: BridgeError }
+  | { type: 'mcp'; server: string; message: unknown }
+  | { type: 'abort' };
+
+/**
+ * Minimal MCP transport, as used by the SDK to connect in-process MCP servers.
+ */
+export interface BridgeMcpTransport {
+  start(): Promise<void>;
+  send(message: unknown): Promise<void>;
+  close(): Promise<void>;
+  onmessage?: (message: unknown) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+}
+
+/**
+ * Converts an error into its serializable form, keeping the CLI error metadata the
+ * provider uses to classify errors.
+ */
+export function serializeError(error: unknown): BridgeError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+  const { code, exitCode, stderr } = error as {
+    code?: unknown;
+    exitCode?: unknown;
+    stderr?: unknown;
+  };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(typeof code === 'string' && { code }),
+    ...(typeof exitCode === 'number' && { exitCode }),
+    ...(typeof stderr === 'string' && { stderr }),
+  };
+}
+
+/**
+ * Recreates an error from its serialized form.
+ */
+export function deserializeError({ name, message, ...metadata }: BridgeError): Error {
+  const error = Object.assign(new Error(message), metadata);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Parses an NDJSON byte stream into its JSON values.
+ */
+export async function* readNdjson(
+  chunks: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for await (const chunk of chunks) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) yield JSON.parse(line);
+    }
+  }
+  if (buffered.trim()) yield JSON.parse(buffered);
+}
+
+/**
+ * Iterates the chunks of a fetch response body.
+ */
+export async function* readBodyChunks(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
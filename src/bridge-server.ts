@@ -0,0 +1,548 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { isIP, type AddressInfo } from 'net';
+import {
+  query,
+  type HookCallbackMatcher,
+  type HookEvent,
+  type McpServerConfig,
+  type Options,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import {
+  NDJSON_CONTENT_TYPE,
+  deserializeError,
+  serializeError,
+  type BridgeClientEvent,
+  type BridgeMcpTransport,
+  type BridgeOptions,
+  type BridgeQueryRequest,
+  type BridgeRpc,
+  type BridgeServerEvent,
+} from './bridge-protocol.js';
+import { createInputQueue } from './input-queue.js';
+import { getLogger } from './logger.js';
+import type { ClaudeCodeQueryFunction, Logger } from './types.js';
+
+/**
+ * Name of an option a bridge client can send.
+ */
+export type ClaudeCodeBridgeClientOption = keyof BridgeOptions;
+
+/**
+ * Client options the server accepts without `allowClientOptions`. They choose the model,
+ * prompt, tools and session, or configure callbacks and in-process MCP servers that run on
+ * the client. All other options are rejected by default, since they start processes, pull
+ * in settings, hooks or plugins from the worker's files, or change the worker's environment,
+ * directories, sandbox or permissions. `mcpServers` is accepted only with in-process servers.
+ */
+const DEFAULT_CLIENT_OPTIONS: ReadonlySet<string> = new Set<ClaudeCodeBridgeClientOption>([
+  'agents',
+  'allowedTools',
+  'betas',
+  'canUseTool',
+  'continue',
+  'disallowedTools',
+  'fallbackModel',
+  'forkSession',
+  'hooks',
+  'includePartialMessages',
+  'maxBudgetUsd',
+  'maxThinkingTokens',
+  'maxTurns',
+  'mcpServers',
+  'model',
+  'outputFormat',
+  'permissionPromptToolName',
+  'resume',
+  'resumeSessionAt',
+  'stderr',
+  'strictMcpConfig',
+  'systemPrompt',
+  'tools',
+]);
+
+export interface ClaudeCodeBridgeServerOptions {
+  /**
+   * Query function that runs the queries (defaults to the SDK's `query()`).
+   */
+  query?: ClaudeCodeQueryFunction;
+
+  /**
+   * Shared secret that clients must send as `Authorization: Bearer <token>`.
+   * Without it, only clients connecting from a loopback address are accepted, and
+   * `listen()` refuses to bind to a non-loopback host.
+   *
+   * Whoever holds the token can run commands on the worker: the accepted options include
+   * `allowedTools` and `canUseTool`, so a client can approve the Bash tool. Restrict tools
+   * with `mapOptions` if clients are not trusted with that.
+   */
+  token?: string;
+
+  /**
+   * Further options that clients may set, such as `cwd`, `env` or `permissionMode`. A query
+   * that sets an option outside the defaults and this list is rejected with HTTP 403. Only
+   * list options for trusted clients; to set them on the worker, use `mapOptions`.
+   * @default []
+   */
+  allowClientOptions?: ClaudeCodeBridgeClientOption[];
+
+  /**
+   * Adjusts the options received from a client before the query runs, e.g. to pin `cwd`,
+   * restrict tools or inject credentials on the worker. It may set any option.
+   */
+  mapOptions?: (options: Options) => Options | Promise<Options>;
+
+  /**
+   * Maximum size of a request body in bytes. Larger requests are answered with HTTP 413.
+   * Streaming input arrives as one request per message, so this also limits the size of
+   * a single input message, including its images and documents.
+   * @default 33554432 (32 MB, the API's request size limit)
+   */
+  maxBodyBytes?: number;
+
+  /**
+   * Logger for server activity. Set to `false` to disable logging.
+   */
+  logger?: Logger | false;
+}
+
+export interface ClaudeCodeBridgeServer {
+  /**
+   * Handles a bridge request. Use it to mount the bridge in an existing `http` server;
+   * requests outside the bridge routes get a 404.
+   */
+  handleRequest(req: IncomingMessage, res: ServerResponse): void;
+
+  /**
+   * Starts a standalone HTTP server.
+   *
+   * @returns The base URL to pass to `createClaudeCodeBridgeQuery`
+   */
+  listen(port?: number, hostname?: string): Promise<string>;
+
+  /**
+   * Aborts the running queries and stops the standalone server.
+   */
+  close(): Promise<void>;
+}
+
+interface ActiveQuery {
+  handleEvent(event: BridgeClientEvent): void;
+  abort(): void;
+}
+
+// Options set by the client that the server does not accept
+function findRejectedOptions(
+  options: BridgeOptions,
+  allowed: readonly ClaudeCodeBridgeClientOption[]
+): string[] {
+  return Object.entries(options)
+    .filter(([name, value]) => {
+      if (value === undefined || allowed.includes(name as ClaudeCodeBridgeClientOption)) {
+        return false;
+      }
+      if (name === 'mcpServers') {
+        return Object.values(options.mcpServers ?? {}).some((server) => server.type !== 'sdk');
+      }
+      return !DEFAULT_CLIENT_OPTIONS.has(name);
+    })
+    .map(([name]) => name);
+}
+
+function isLoopback(host: string | undefined): boolean {
+  const address = (host ?? '').replace(/^\[|\]$/g, '').replace(/^::ffff:/i, '');
+  return (
+    address === 'localhost' ||
+    address === '::1' ||
+    (isIP(address) === 4 && address.startsWith('127.'))
+  );
+}
+
+// Hashing first gives equal-length buffers, so the comparison does not leak the token length
+function tokensMatch(received: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(received), digest(expected));
+}
+
+const QUERY_ROUTE = /^\/query\/?$/;
+const EVENTS_ROUTE = /^\/query\/([^/]+)\/events\/?$/;
+
+const DEFAULT_MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {}
+
+// Stops buffering as soon as the body exceeds `maxBytes`
+function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    return Promise.reject(new BodyTooLargeError());
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData).off('end', onEnd);
+        req.pause();
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    req.on('data', onData).on('end', onEnd).once('error', reject);
+  });
+}
+
+/**
+ * Creates a bridge server that runs Agent SDK queries for remote clients, so the CLI can
+ * run on a worker machine while the provider runs elsewhere. Pair it with
+ * `createClaudeCodeBridgeQuery` on the client.
+ *
+ * Messages are streamed back as NDJSON. Aborting on the client, or dropping the
+ * connection, aborts the query on the server. `canUseTool`, hooks, `stderr` and in-process
+ * MCP servers created with `createSdkMcpServer` stay on the client and are called through
+ * RPC round trips.
+ *
+ * @param options - Server options
+ * @returns The bridge server
+ *
+ * @example
+ * ```typescript
+ * const server = createClaudeCodeBridgeServer({ token: process.env.BRIDGE_TOKEN });
+ * const url = await server.listen(8787, '0.0.0.0');
+ * ```
+ */
+export function createClaudeCodeBridgeServer(
+  options: ClaudeCodeBridgeServerOptions = {}
+): ClaudeCodeBridgeServer {
+  const run = options.query ?? query;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const logger = getLogger(options.logger);
+  const queries = new Map<string, ActiveQuery>();
+  let server: Server | undefined;
+
+  const rejectBody = (res: ServerResponse, error: unknown) => {
+    if (error instanceof BodyTooLargeError) {
+      // The rest of the body is not read, so the connection cannot be reused
+      res
+        .writeHead(413, { connection: 'close' })
+        .end(`Request body exceeds maxBodyBytes (${maxBodyBytes})`);
+    } else {
+      res.writeHead(400).end('Invalid JSON body');
+    }
+  };
+
+  const isAuthorized = (req: IncomingMessage) =>
+    !options.token
+      ? isLoopback(req.socket.remoteAddress)
+      : tokensMatch(req.headers.authorization ?? '', `Bearer ${options.token}`);
+
+  const startQuery = async (req: IncomingMessage, res: ServerResponse) => {
+    let request: BridgeQueryRequest;
+    try {
+      request = (await readJsonBody(req, maxBodyBytes)) as BridgeQueryRequest;
+    } catch (error) {
+      rejectBody(res, error);
+      return;
+    }
+    if (typeof request?.id !== 'string' || !request.options) {
+      res.writeHead(400).end('Expected { id, prompt, options }');
+      return;
+    }
+    const rejected = findRejectedOptions(request.options, options.allowClientOptions ?? []);
+    if (rejected.length > 0) {
+      logger.warn(
+        `[claude-code] Bridge query ${request.id} rejected: options not allowed ${rejected.join(', ')}`
+      );
+      res
+        .writeHead(403)
+        .end(
+          `Options not allowed by the bridge server: ${rejected.join(', ')}. Allow them with allowClientOptions or set them with mapOptions.`
+        );
+      return;
+    }
+    if (queries.has(request.id)) {
+      res.writeHead(409).end(`Query ${request.id} is already running`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const input = createInputQueue<SDKUserMessage>();
+    const pendingRpcs = new Map<
+      number,
+      { resolve(value: unknown): void; reject(e: Error): void }
+    >();
+    const mcpTransports = new Map<string, BridgeMcpTransport>();
+    let nextRpcId = 0;
+
+    const send = (event: BridgeServerEvent) => {
+      if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    const rpc = (call: BridgeRpc, signal?: AbortSignal): Promise<unknown> => {
+      const id = nextRpcId++;
+      let onAbort: (() => void) | undefined;
+      return new Promise((resolve, reject) => {
+        onAbort = () => {
+          pendingRpcs.delete(id);
+          reject(new Error(`${call.method} aborted`));
+        };
+        if (signal?.aborted) {
+          onAbort();
+          return;
+        }
+        pendingRpcs.set(id, { resolve, reject });
+        signal?.addEventListener('abort', onAbort, { once: true });
+        send({ type: 'rpc', id, ...call });
+      }).finally(() => {
+        // The signal can outlive the call, so do not leave a listener on it
+        if (onAbort) signal?.removeEventListener('abort', onAbort);
+      });
+    };
+
+    const abort = () => {
+      abortController.abort();
+      input.end();
+      for (const { reject } of pendingRpcs.values()) {
+        reject(new Error('Query aborted'));
+      }
+      pendingRpcs.clear();
+    };
+
+    queries.set(request.id, {
+      abort,
+      handleEvent(event) {
+        switch (event.type) {
+          case 'input':
+            input.push(event.message);
+            break;
+          case 'input-end':
+            input.end();
+            break;
+          case 'rpc-result':
+          case 'rpc-error': {
+            const pending = pendingRpcs.get(event.id);
+            pendingRpcs.delete(event.id);
+            if (event.type === 'rpc-result') pending?.resolve(event.result);
+            else pending?.reject(deserializeError(event.error));
+            break;
+          }
+          case 'mcp':
+            mcpTransports
+              .get(event.server)
+              ?.send(event.message)
+              .catch((error: unknown) =>
+                logger.debug(`[claude-code] Dropped MCP message for ${event.server}: ${error}`)
+              );
+            break;
+          case 'abort':
+            abort();
+            break;
+        }
+      },
+    });
+
+    res.on('close', () => {
+      if (!res.writableFinished) abort();
+    });
+    res.writeHead(200, { 'content-type': NDJSON_CONTENT_TYPE, 'cache-control': 'no-cache' });
+    res.flushHeaders();
+
+    try {
+      const queryOptions = await (options.mapOptions ?? ((o: Options) => o))(
+        restoreOptions(request.options, {
+          abortController,
+          rpc,
+          stderr: (data) => send({ type: 'stderr', data }),
+          connectMcp: (server, transport) => {
+            transport.onmessage = (message) => send({ type: 'mcp', server, message });
+            mcpTransports.set(server, transport);
+          },
+        })
+      );
+      logger.debug(`[claude-code] Bridge query ${request.id} started`);
+      for await (const message of run({
+        prompt: request.prompt ?? input,
+        options: queryOptions,
+      })) {
+        send({ type: 'message', message });
+      }
+      send({ type: 'end' });
+      logger.debug(`[claude-code] Bridge query ${request.id} finished`);
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        logger.warn(
+          `[claude-code] Bridge query ${request.id} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      send({ type: 'error', error: serializeError(error) });
+    } finally {
+      queries.delete(request.id);
+      for (const transport of mcpTransports.values()) {
+        void transport.close();
+      }
+      res.end();
+    }
+  };
+
+  const handleClientEvent = async (req: IncomingMessage, res: ServerResponse, id: string) => {
+    const active = queries.get(id);
+    let event: BridgeClientEvent;
+    try {
+      event = (await readJsonBody(req, maxBodyBytes)) as BridgeClientEvent;
+    } catch (error) {
+      rejectBody(res, error);
+      return;
+    }
+    if (!active) {
+      res.writeHead(404).end(`Query ${id} is not running`);
+      return;
+    }
+    active.handleEvent(event);
+    res.writeHead(204).end();
+  };
+
+  const handleRequest = (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const eventsRoute = EVENTS_ROUTE.exec(path);
+    if (req.method !== 'POST' || (!QUERY_ROUTE.test(path) && !eventsRoute)) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!isAuthorized(req)) {
+      res.writeHead(401).end('Unauthorized');
+      return;
+    }
+    const handled = eventsRoute
+      ? handleClientEvent(req, res, decodeURIComponent(eventsRoute[1]))
+      : startQuery(req, res);
+    handled.catch((error) => {
+      logger.error(
+        `[claude-code] Bridge request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  };
+
+  return {
+    handleRequest,
+
+    listen(port = 0, hostname = '127.0.0.1') {
+      if (!options.token && !isLoopback(hostname)) {
+        return Promise.reject(
+          new Error(
+            `Refusing to listen on ${hostname} without a token: any client that can reach the bridge could run the CLI. Set token, or listen on 127.0.0.1.`
+          )
+        );
+      }
+      server ??= createServer(handleRequest);
+      const listening = server;
+      return new Promise((resolve, reject) => {
+        listening.once('error', reject);
+        listening.listen(port, hostname, () => {
+          listening.off('error', reject);
+          const address = listening.address() as AddressInfo;
+          const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+          resolve(`http://${host}:${address.port}`);
+        });
+      });
+    },
+
+    async close() {
+      for (const active of queries.values()) {
+        active.abort();
+      }
+      const listening = server;
+      server = undefined;
+      if (!listening?.listening) return;
+      const closed = new Promise<void>((resolve, reject) =>
+        listening.close((error) => (error ? reject(error) : resolve()))
+      );
+      listening.closeAllConnections();
+      await closed;
+    },
+  };
+}
+
+/**
+ * Rebuilds SDK options from their serialized form, replacing callback markers with RPC
+ * proxies and in-process MCP servers with proxies that relay MCP messages to the client.
+ */
+function restoreOptions(
+  serialized: BridgeOptions,
+  bridge: {
+    abortController: AbortController;
+    rpc: (call: BridgeRpc, signal?: AbortSignal) => Promise<unknown>;
+    stderr: (data: string) => void;
+    connectMcp: (server: string, transport: BridgeMcpTransport) => void;
+  }
+): Options {
+  const { canUseTool, hooks, mcpServers, stderr, env, ...rest } = serialized;
+  const options: Options = { ...rest, abortController: bridge.abortController };
+
+  // Clients send only their environment overrides (if the server allows `env`)
+  if (env) {
+    options.env = { ...process.env, ...env };
+  }
+
+  if (canUseTool) {
+    options.canUseTool = (toolName, input, { signal, ...context }) =>
+      bridge.rpc(
+        { method: 'canUseTool', params: { toolName, input, context } },
+        signal
+      ) as ReturnType<NonNullable<Options['canUseTool']>>;
+  }
+
+  if (stderr) {
+    options.stderr = bridge.stderr;
+  }
+
+  if (hooks) {
+    options.hooks = Object.fromEntries(
+      Object.entries(hooks).map(([event, matchers]) => [
+        event,
+        matchers.map(
+          ({ hooks: hookIds, ...matcher }): HookCallbackMatcher => ({
+            ...matcher,
+            hooks: hookIds.map(
+              (hookId) =>
+                (input, toolUseID, { signal }) =>
+                  bridge.rpc(
+                    { method: 'hook', params: { hookId, input, toolUseID } },
+                    signal
+                  ) as ReturnType<HookCallbackMatcher['hooks'][number]>
+            ),
+          })
+        ),
+      ])
+    ) as Partial<Record<HookEvent, HookCallbackMatcher[]>>;
+  }
+
+  if (mcpServers) {
+    options.mcpServers = Object.fromEntries(
+      Object.entries(mcpServers).map(([name, config]): [string, McpServerConfig] => {
+        if (config.type !== 'sdk') return [name, config];
+        const instance = {
+          connect(transport: BridgeMcpTransport) {
+            bridge.connectMcp(name, transport);
+            return transport.start();
+          },
+        };
+        // The SDK delivers CLI messages to `transport.onmessage` and sends the server's
+        // replies with `transport.send()`; the proxy relays both to the client's server.
+        return [name, { type: 'sdk', name, instance } as unknown as McpServerConfig];
+      })
+    );
+  }
+
+  return options;
+}
@@ -0,0 +1,416 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  AbortError,
+  type Options,
+  type SDKMessage,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import { createClaudeCodeBridgeQuery } from './bridge-client.js';
+import {
+  createClaudeCodeBridgeServer,
+  type ClaudeCodeBridgeServer,
+  type ClaudeCodeBridgeServerOptions,
+} from './bridge-server.js';
+import type { ClaudeCodeQueryFunction } from './types.js';
+
+const result = (text: string) =>
+  ({ type: 'result', subtype: 'success', session_id: 'session-1', result: text }) as SDKMessage;
+
+const userMessage = (text: string) =>
+  ({
+    type: 'user',
+    message: { role: 'user', content: [{ type: 'text', text }] },
+    parent_tool_use_id: null,
+    session_id: '',
+  }) as SDKUserMessage;
+
+const collect = async (stream: AsyncIterable<SDKMessage>) => {
+  const messages: SDKMessage[] = [];
+  for await (const message of stream) messages.push(message);
+  return messages;
+};
+
+describe('bridge server and client', () => {
+  let server: ClaudeCodeBridgeServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  const start = async (
+    query: ClaudeCodeQueryFunction,
+    serverOptions: ClaudeCodeBridgeServerOptions = {}
+  ) => {
+    server = createClaudeCodeBridgeServer({ query, logger: false, ...serverOptions });
+    return createClaudeCodeBridgeQuery({ url: await server.listen(0, '127.0.0.1') });
+  };
+
+  it('runs queries remotely and streams messages back', async () => {
+    let received: Parameters<ClaudeCodeQueryFunction>[0] | undefined;
+    const remote = await start(async function* (params) {
+      received = params;
+      yield result('done');
+    });
+
+    const messages = await collect(
+      remote({
+        prompt: 'Hello',
+        options: { model: 'sonnet', maxTurns: 2, abortController: new AbortController() },
+      })
+    );
+
+    expect(messages).toEqual([result('done')]);
+    expect(received?.prompt).toBe('Hello');
+    expect(received?.options).toMatchObject({ model: 'sonnet', maxTurns: 2 });
+    expect(received?.options?.abortController).toBeInstanceOf(AbortController);
+  });
+
+  it('streams input messages to the remote query', async () => {
+    const remote = await start(async function* ({ prompt }) {
+      const texts: string[] = [];
+      for await (const message of prompt as AsyncIterable<SDKUserMessage>) {
+        texts.push((message.message.content as [{ text: string }])[0].text);
+      }
+      yield result(texts.join(' '));
+    });
+
+    const messages = await collect(
+      remote({
+        prompt: (async function* () {
+          yield userMessage('one');
+          yield userMessage('two');
+        })(),
+      })
+    );
+
+    expect(messages).toEqual([result('one two')]);
+  });
+
+  it('sends only environment overrides', async () => {
+    let env: Options['env'];
+    const remote = await start(
+      async function* ({ options }) {
+        env = options?.env;
+        yield result('done');
+      },
+      { allowClientOptions: ['env'] }
+    );
+
+    await collect(remote({ prompt: 'Hi', options: { env: { ...process.env, BRIDGE_VAR: '1' } } }));
+
+    expect(env?.BRIDGE_VAR).toBe('1');
+  });
+
+  it('omits env when it has no overrides', async () => {
+    let options: Options | undefined;
+    const remote = await start(async function* (params) {
+      options = params.options;
+      yield result('done');
+    });
+
+    await collect(remote({ prompt: 'Hi', options: { env: { ...process.env } } }));
+
+    expect(options).toBeDefined();
+    expect(options).not.toHaveProperty('env');
+  });
+
+  it('rejects options outside the accepted ones unless the server allows them', async () => {
+    const received: Options[] = [];
+    const query: ClaudeCodeQueryFunction = async function* ({ options }) {
+      received.push(options!);
+      yield result('done');
+    };
+    const remote = await start(query);
+
+    await expect(
+      collect(
+        remote({
+          prompt: 'Hi',
+          options: {
+            pathToClaudeCodeExecutable: '/tmp/evil',
+            executableArgs: ['--eval', 'code'],
+            permissionMode: 'bypassPermissions',
+            mcpServers: { shell: { command: 'sh', args: ['-c', 'id'] } },
+          },
+        })
+      )
+    ).rejects.toThrow(
+      'Bridge server responded with HTTP 403: Options not allowed by the bridge server: pathToClaudeCodeExecutable, executableArgs, permissionMode, mcpServers.'
+    );
+    await expect(
+      collect(
+        remote({
+          prompt: 'Hi',
+          options: {
+            cwd: '/tmp/checkout',
+            settingSources: ['project'],
+            plugins: [{ type: 'local', path: '/tmp/plugin' }],
+            sandbox: { enabled: false },
+          },
+        })
+      )
+    ).rejects.toThrow(
+      'Options not allowed by the bridge server: cwd, settingSources, plugins, sandbox.'
+    );
+    await expect(
+      collect(remote({ prompt: 'Hi', options: { env: { ...process.env, PATH: '/tmp' } } }))
+    ).rejects.toThrow('HTTP 403');
+    expect(received).toEqual([]);
+
+    await server!.close();
+    const allowed = await start(query, {
+      allowClientOptions: ['permissionMode'],
+      mapOptions: (options) => ({ ...options, pathToClaudeCodeExecutable: '/opt/claude' }),
+    });
+    await collect(allowed({ prompt: 'Hi', options: { permissionMode: 'plan', model: 'haiku' } }));
+    expect(received[0]).toMatchObject({
+      permissionMode: 'plan',
+      model: 'haiku',
+      pathToClaudeCodeExecutable: '/opt/claude',
+    });
+  });
+
+  it('calls canUseTool and hooks on the client', async () => {
+    const remote = await start(async function* ({ options }) {
+      const permission = await options!.canUseTool!(
+        'Bash',
+        { command: 'ls' },
+        { signal: new AbortController().signal, toolUseID: 'tool-1' }
+      );
+      const hookOutput = await options!.hooks!.PreToolUse![0].hooks[0](
+        { hook_event_name: 'PreToolUse', tool_name: 'Bash' } as any,
+        'tool-1',
+        { signal: new AbortController().signal }
+      );
+      yield { ...result('done'), permission, hookOutput } as unknown as SDKMessage;
+    });
+
+    const calls: unknown[] = [];
+    const messages = await collect(
+      remote({
+        prompt: 'Hi',
+        options: {
+          canUseTool: async (toolName, input, { toolUseID, signal }) => {
+            calls.push({ toolName, input, toolUseID, signal: signal instanceof AbortSignal });
+            return { behavior: 'deny', message: 'No shell' };
+          },
+          hooks: {
+            PreToolUse: [
+              {
+                matcher: 'Bash',
+                hooks: [async (input, toolUseID) => ({ systemMessage: `${toolUseID}` })],
+              },
+            ],
+          },
+        },
+      })
+    );
+
+    expect(calls).toEqual([
+      { toolName: 'Bash', input: { command: 'ls' }, toolUseID: 'tool-1', signal: true },
+    ]);
+    expect(messages[0]).toMatchObject({
+      permission: { behavior: 'deny', message: 'No shell' },
+      hookOutput: { systemMessage: 'tool-1' },
+    });
+  });
+
+  it('rejects the remote callback when the client callback throws', async () => {
+    const remote = await start(async function* ({ options }) {
+      try {
+        await options!.canUseTool!('Bash', {}, { signal: new AbortController().signal } as any);
+      } catch (error) {
+        yield result((error as Error).message);
+      }
+    });
+
+    const messages = await collect(
+      remote({
+        prompt: 'Hi',
+        options: {
+          canUseTool: async () => {
+            throw new Error('permission service down');
+          },
+        },
+      })
+    );
+
+    expect(messages).toEqual([result('permission service down')]);
+  });
+
+  it('removes the abort listener when a remote callback settles', async () => {
+    const remote = await start(async function* ({ options }) {
+      const { signal } = new AbortController();
+      const removed = vi.spyOn(signal, 'removeEventListener');
+      for (let i = 0; i < 3; i++) {
+        await options!.canUseTool!('Bash', {}, { signal, toolUseID: `tool-${i}` });
+      }
+      yield result(`removed ${removed.mock.calls.length}`);
+
+      const aborted = AbortSignal.abort();
+      const error = await options!.canUseTool!(
+        'Bash',
+        {},
+        { signal: aborted, toolUseID: 'tool-3' }
+      ).catch((e: Error) => e.message);
+      yield result(error as string);
+    });
+
+    const messages = await collect(
+      remote({
+        prompt: 'Hi',
+        options: { canUseTool: async () => ({ behavior: 'allow', updatedInput: {} }) },
+      })
+    );
+
+    expect(messages).toEqual([result('removed 3'), result('canUseTool aborted')]);
+  });
+
+  it('relays in-process MCP server messages', async () => {
+    const remote = await start(async function* ({ options }) {
+      const config = options!.mcpServers!.tools as any;
+      let reply: unknown;
+      const transport = {
+        start: async () => {},
+        send: async (message: unknown) => {
+          reply = message;
+        },
+        close: async () => {},
+        onmessage: undefined as ((message: unknown) => void) | undefined,
+      };
+      await config.instance.connect(transport);
+      transport.onmessage!({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+      while (!reply) await new Promise((resolve) => setTimeout(resolve, 5));
+      yield { ...result('done'), reply } as unknown as SDKMessage;
+    });
+
+    const instance = {
+      connect: async (transport: any) => {
+        transport.onmessage = (message: { id: number }) => {
+          void transport.send({ jsonrpc: '2.0', id: message.id, result: { tools: [] } });
+        };
+      },
+    };
+    const messages = await collect(
+      remote({
+        prompt: 'Hi',
+        options: { mcpServers: { tools: { type: 'sdk', name: 'tools', instance } as any } },
+      })
+    );
+
+    expect(messages[0]).toMatchObject({
+      reply: { jsonrpc: '2.0', id: 1, result: { tools: [] } },
+    });
+  });
+
+  it('forwards stderr and errors', async () => {
+    const remote = await start(async function* ({ options }) {
+      options?.stderr?.('warning: low disk\n');
+      yield result('partial');
+      throw Object.assign(new Error('CLI crashed'), { exitCode: 1, stderr: 'boom' });
+    });
+
+    const stderr: string[] = [];
+    const messages: SDKMessage[] = [];
+    const error = await (async () => {
+      for await (const message of remote({
+        prompt: 'Hi',
+        options: { stderr: (data) => stderr.push(data) },
+      })) {
+        messages.push(message);
+      }
+    })().catch((e) => e);
+
+    expect(messages).toEqual([result('partial')]);
+    expect(stderr).toEqual(['warning: low disk\n']);
+    expect(error).toMatchObject({ message: 'CLI crashed', exitCode: 1, stderr: 'boom' });
+  });
+
+  it('aborts the remote query when the client aborts', async () => {
+    let remoteSignal: AbortSignal | undefined;
+    const remote = await start(async function* ({ options }) {
+      remoteSignal = options?.abortController?.signal;
+      yield result('first');
+      await new Promise((resolve) => remoteSignal!.addEventListener('abort', resolve));
+    });
+
+    const abortController = new AbortController();
+    const stream = remote({ prompt: 'Hi', options: { abortController } });
+    const iterator = stream[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toEqual(result('first'));
+
+    abortController.abort();
+    await expect(iterator.next()).rejects.toBeInstanceOf(AbortError);
+    await expect.poll(() => remoteSignal?.aborted).toBe(true);
+  });
+
+  it('rejects clients without the token', async () => {
+    server = createClaudeCodeBridgeServer({
+      query: async function* () {
+        yield result('done');
+      },
+      token: 'secret',
+      logger: false,
+    });
+    const url = await server.listen();
+    const remote = createClaudeCodeBridgeQuery({ url, token: 'wrong' });
+    const authorized = createClaudeCodeBridgeQuery({ url, token: 'secret' });
+
+    await expect(collect(remote({ prompt: 'Hi' }))).rejects.toThrow(
+      'Bridge server responded with HTTP 401'
+    );
+    await expect(collect(authorized({ prompt: 'Hi' }))).resolves.toEqual([result('done')]);
+  });
+
+  it('answers oversized request bodies with 413', async () => {
+    server = createClaudeCodeBridgeServer({
+      query: async function* () {
+        yield result('done');
+      },
+      maxBodyBytes: 1024,
+      logger: false,
+    });
+    const url = await server.listen();
+    const remote = createClaudeCodeBridgeQuery({ url });
+
+    await expect(collect(remote({ prompt: 'x'.repeat(2048) }))).rejects.toThrow(
+      'Bridge server responded with HTTP 413: Request body exceeds maxBodyBytes (1024)'
+    );
+
+    // Without content-length the body is cut off while it is read
+    const chunked = await fetch(`${url}/query`, {
+      method: 'POST',
+      body: new ReadableStream({
+        pull(controller) {
+          controller.enqueue(new TextEncoder().encode('x'.repeat(512)));
+        },
+      }),
+      duplex: 'half',
+    } as RequestInit);
+    expect(chunked.status).toBe(413);
+    await expect(collect(remote({ prompt: 'Hi' }))).resolves.toEqual([result('done')]);
+  });
+
+  it('only serves loopback clients without a token', async () => {
+    server = createClaudeCodeBridgeServer({ logger: false });
+
+    await expect(server.listen(0, '0.0.0.0')).rejects.toThrow(
+      'Refusing to listen on 0.0.0.0 without a token'
+    );
+
+    let status: number | undefined;
+    const res = { writeHead: (code: number) => ((status = code), res), end: () => res };
+    server.handleRequest(
+      {
+        method: 'POST',
+        url: '/query',
+        headers: {},
+        socket: { remoteAddress: '10.0.0.5' },
+      } as unknown as IncomingMessage,
+      res as unknown as ServerResponse
+    );
+    expect(status).toBe(401);
+  });
+});
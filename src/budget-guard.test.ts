@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { createBudgetGuard, getModelPricing } from './budget-guard.js';
+
+const assistant = (id: string, model: string, usage: Record<string, number>) => ({
+  type: 'assistant',
+  message: { id, model, usage, content: [] },
+});
+
+describe('createBudgetGuard', () => {
+  it('aborts when the token limit is crossed', () => {
+    const abortController = new AbortController();
+    const guard = createBudgetGuard({ abortController, maxTotalTokens: 1000 });
+
+    guard.observe(assistant('msg_1', 'claude-sonnet-4-5', { input_tokens: 500, output_tokens: 0 }));
+    expect(abortController.signal.aborted).toBe(false);
+
+    guard.observe(
+      assistant('msg_1', 'claude-sonnet-4-5', { input_tokens: 500, output_tokens: 400 })
+    );
+    expect(guard.exceeded).toBeUndefined();
+    expect(guard.finishReason).toBeUndefined();
+
+    guard.observe(assistant('msg_2', 'claude-sonnet-4-5', { input_tokens: 50, output_tokens: 60 }));
+    expect(guard.exceeded).toBe('maxTotalTokens');
+    expect(guard.finishReason).toBe('other');
+    expect(abortController.signal.aborted).toBe(true);
+    expect(guard.spend()).toMatchObject({ totalTokens: 1010, exceeded: 'maxTotalTokens' });
+  });
+
+  it('estimates cost from message_delta events with cache pricing', () => {
+    const abortController = new AbortController();
+    const guard = createBudgetGuard({ abortController, maxCostUsd: 0.05 });
+
+    guard.observe({
+      type: 'stream_event',
+      event: {
+        type: 'message_start',
+        message: {
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5-20250929',
+          usage: { input_tokens: 1000, cache_read_input_tokens: 100000, output_tokens: 1 },
+        },
+      },
+    });
+    // 1000 * $3 + 100000 * $0.30 per million tokens
+    expect(guard.spend().estimatedCostUsd).toBeCloseTo(0.033 + 0.000015, 6);
+
+    guard.observe({
+      type: 'stream_event',
+      event: { type: 'message_delta', usage: { output_tokens: 2000 } },
+    });
+    expect(guard.exceeded).toBe('maxCostUsd');
+    expect(guard.usage()).toEqual({
+      inputTokens: 101000,
+      outputTokens: 2000,
+      totalTokens: 103000,
+      cachedInputTokens: 100000,
+    });
+  });
+
+  it('stops at maxOutputTokens using an estimate of streamed text', () => {
+    const abortController = new AbortController();
+    const guard = createBudgetGuard({ abortController, maxOutputTokens: 10 });
+    const delta = (text: string) => ({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+    });
+
+    guard.observe({
+      type: 'stream_event',
+      event: {
+        type: 'message_start',
+        message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { output_tokens: 1 } },
+      },
+    });
+    guard.observe(delta('a'.repeat(20)));
+    expect(guard.exceeded).toBeUndefined();
+    expect(guard.spend().outputTokens).toBe(5);
+
+    guard.observe(delta('b'.repeat(20)));
+    expect(guard.exceeded).toBe('maxOutputTokens');
+    expect(guard.finishReason).toBe('length');
+    expect(abortController.signal.aborted).toBe(true);
+    expect(guard.usage()).toMatchObject({ outputTokens: 10, totalTokens: 10 });
+    expect(guard.spend()).toMatchObject({ outputTokens: 10, exceeded: 'maxOutputTokens' });
+  });
+
+  it('prefers reported output usage over the estimate', () => {
+    const abortController = new AbortController();
+    const guard = createBudgetGuard({ abortController, maxOutputTokens: 100 });
+
+    guard.observe(assistant('msg_1', 'claude-sonnet-4-5', { input_tokens: 10, output_tokens: 60 }));
+    expect(guard.exceeded).toBeUndefined();
+
+    guard.observe(assistant('msg_2', 'claude-sonnet-4-5', { input_tokens: 10, output_tokens: 40 }));
+    expect(guard.exceeded).toBe('maxOutputTokens');
+  });
+
+  it('tracks usage but never aborts without limits', () => {
+    const abortController = new AbortController();
+    const guard = createBudgetGuard({ abortController });
+
+    guard.observe(assistant('msg_1', 'claude-opus-4-1', { input_tokens: 1e9, output_tokens: 1e9 }));
+
+    expect(guard.enabled).toBe(false);
+    expect(abortController.signal.aborted).toBe(false);
+    expect(guard.exceeded).toBeUndefined();
+    expect(guard.usage()).toMatchObject({ inputTokens: 1e9, outputTokens: 1e9 });
+  });
+});
+
+describe('getModelPricing', () => {
+  it('matches model families and falls back to the highest rates', () => {
+    expect(getModelPricing('claude-opus-4-5-20251101')).toEqual({ input: 5, output: 25 });
+    expect(getModelPricing('claude-opus-4-1-20250805')).toEqual({ input: 15, output: 75 });
+    expect(getModelPricing('claude-haiku-4-5')).toEqual({ input: 1, output: 5 });
+    expect(getModelPricing('claude-3-5-haiku-20241022')).toEqual({ input: 0.8, output: 4 });
+    expect(getModelPricing('custom-model')).toEqual({ input: 15, output: 75 });
+    expect(getModelPricing(undefined)).toEqual({ input: 15, output: 75 });
+  });
+});
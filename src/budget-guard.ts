@@ -0,0 +1,292 @@
+import type { LanguageModelV3FinishReason, LanguageModelV3Usage } from '@ai-sdk/provider';
+
+/**
+ * Limit that stopped a request.
+ */
+export type ClaudeCodeBudgetLimit = 'maxCostUsd' | 'maxTotalTokens' | 'maxOutputTokens';
+
+/**
+ * Spend of a request with budget limits, returned as `providerMetadata['claude-code'].budget`.
+ */
+export interface ClaudeCodeBudgetSpend {
+  /**
+   * Estimated cost in USD, computed from streamed usage and list prices.
+   */
+  estimatedCostUsd: number;
+
+  /**
+   * Input (including cache reads and writes) plus output tokens streamed so far.
+   */
+  totalTokens: number;
+
+  /**
+   * Output tokens counted against `maxOutputTokens`, including the estimate for text that
+   * streamed before its usage was reported. Only set when `maxOutputTokens` is used.
+   */
+  outputTokens?: number;
+
+  /**
+   * The limit that aborted the request, if any.
+   */
+  exceeded?: ClaudeCodeBudgetLimit;
+}
+
+/**
+ * Tracks usage of a single request and aborts it when a budget limit is crossed.
+ */
+export interface BudgetGuard {
+  /**
+   * Whether any budget limit is configured.
+   */
+  readonly enabled: boolean;
+
+  /**
+   * Records usage from an SDK message (assistant messages and `message_start` /
+   * `message_delta` stream events) and aborts the request if a limit is crossed. Usage is
+   * recorded without limits too, so requests that fail before their result can report it.
+   */
+  observe(message: unknown): void;
+
+  /**
+   * The limit that aborted the request, or undefined.
+   */
+  readonly exceeded: ClaudeCodeBudgetLimit | undefined;
+
+  /**
+   * Finish reason of a request stopped at a limit, or undefined. `maxOutputTokens` is an
+   * output limit and finishes with 'length'; `maxCostUsd` and `maxTotalTokens` finish with
+   * 'other' so they are not mistaken for truncated output.
+   */
+  readonly finishReason: LanguageModelV3FinishReason | undefined;
+
+  /**
+   * Spend observed so far.
+   */
+  spend(): ClaudeCodeBudgetSpend;
+
+  /**
+   * Usage observed so far, for requests that end before the result message. Output tokens
+   * include the estimate for text whose usage was not reported yet.
+   */
+  usage(): LanguageModelV3Usage;
+}
+
+type ModelPricing = {
+  /** USD per million input tokens. */
+  input: number;
+  /** USD per million output tokens. */
+  output: number;
+};
+
+// List prices in USD per million tokens. Unknown models use the most expensive
+// rates so that estimates err on the side of stopping early.
+const MODEL_PRICING: Array<[RegExp, ModelPricing]> = [
+  [/opus-4-[5-9]/, { input: 5, output: 25 }],
+  [/opus/, { input: 15, output: 75 }],
+  [/sonnet/, { input: 3, output: 15 }],
+  [/haiku-4/, { input: 1, output: 5 }],
+  [/haiku/, { input: 0.8, output: 4 }],
+];
+const FALLBACK_PRICING: ModelPricing = { input: 15, output: 75 };
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+// Rough characters per token, used for output that streamed before its usage was reported
+const CHARS_PER_TOKEN = 4;
+
+type ResponseUsage = {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  /** Characters of text, thinking and tool input streamed in content block deltas. */
+  streamedChars: number;
+};
+
+/**
+ * Returns the list price used to estimate the cost of a model.
+ *
+ * @param model - Full model ID reported by the API (e.g. `claude-sonnet-4-5-20250929`)
+ */
+export function getModelPricing(model: string | undefined): ModelPricing {
+  const match = model ? MODEL_PRICING.find(([pattern]) => pattern.test(model)) : undefined;
+  return match?.[1] ?? FALLBACK_PRICING;
+}
+
+/**
+ * Creates a budget guard for a request. When a limit is crossed, `abortController` is
+ * aborted and `exceeded` names the limit, so the caller can finish the response instead
+ * of reporting an abort.
+ *
+ * Usage is tracked per API response and updated from `message_delta` events when partial
+ * messages are enabled, otherwise once per assistant message. Because the API reports
+ * output usage only at the end of a response, `maxOutputTokens` also counts an estimate
+ * of the text streamed in content block deltas.
+ *
+ * @param options.abortController - Controller of the running query
+ * @param options.maxCostUsd - Maximum estimated cost in USD
+ * @param options.maxTotalTokens - Maximum input plus output tokens
+ * @param options.maxOutputTokens - Output tokens at which the request is stopped
+ * @returns The budget guard
+ */
+export function createBudgetGuard({
+  abortController,
+  maxCostUsd,
+  maxTotalTokens,
+  maxOutputTokens,
+}: {
+  abortController: AbortController;
+  maxCostUsd?: number;
+  maxTotalTokens?: number;
+  maxOutputTokens?: number;
+}): BudgetGuard {
+  const enabled =
+    maxCostUsd !== undefined || maxTotalTokens !== undefined || maxOutputTokens !== undefined;
+  const responses = new Map<string, ResponseUsage>();
+  let currentResponseId: string | undefined;
+  let anonymousResponses = 0;
+  let exceeded: ClaudeCodeBudgetLimit | undefined;
+
+  const recordResponse = (response: unknown) => {
+    if (typeof response !== 'object' || response === null) return;
+    const { id, model, usage } = response as { id?: unknown; model?: unknown; usage?: unknown };
+    const responseId = typeof id === 'string' ? id : `response-${anonymousResponses++}`;
+    currentResponseId = responseId;
+    const entry = responses.get(responseId) ?? {
+      model: typeof model === 'string' ? model : undefined,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadInputTokens: 0,
+      cacheCreationInputTokens: 0,
+      streamedChars: 0,
+    };
+    responses.set(responseId, entry);
+    recordUsage(entry, usage);
+  };
+
+  // Usage counts are cumulative per response, so keep the highest value seen
+  const recordUsage = (entry: ResponseUsage, usage: unknown) => {
+    if (typeof usage !== 'object' || usage === null) return;
+    const counts = usage as Record<string, unknown>;
+    const read = (key: string, current: number) =>
+      typeof counts[key] === 'number' ? Math.max(current, counts[key] as number) : current;
+    entry.inputTokens = read('input_tokens', entry.inputTokens);
+    entry.outputTokens = read('output_tokens', entry.outputTokens);
+    entry.cacheReadInputTokens = read('cache_read_input_tokens', entry.cacheReadInputTokens);
+    entry.cacheCreationInputTokens = read(
+      'cache_creation_input_tokens',
+      entry.cacheCreationInputTokens
+    );
+  };
+
+  const totals = () => {
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cacheReadInputTokens = 0;
+    let limitedOutputTokens = 0;
+    let costUsd = 0;
+    for (const entry of responses.values()) {
+      const pricing = getModelPricing(entry.model);
+      const input = entry.inputTokens + entry.cacheReadInputTokens + entry.cacheCreationInputTokens;
+      inputTokens += input;
+      outputTokens += entry.outputTokens;
+      cacheReadInputTokens += entry.cacheReadInputTokens;
+      limitedOutputTokens += Math.max(
+        entry.outputTokens,
+        Math.ceil(entry.streamedChars / CHARS_PER_TOKEN)
+      );
+      costUsd +=
+        (entry.inputTokens * pricing.input +
+          entry.cacheCreationInputTokens * pricing.input * CACHE_WRITE_MULTIPLIER +
+          entry.cacheReadInputTokens * pricing.input * CACHE_READ_MULTIPLIER +
+          entry.outputTokens * pricing.output) /
+        1_000_000;
+    }
+    return { inputTokens, outputTokens, cacheReadInputTokens, limitedOutputTokens, costUsd };
+  };
+
+  const check = () => {
+    if (exceeded || abortController.signal.aborted) return;
+    const { inputTokens, outputTokens, limitedOutputTokens, costUsd } = totals();
+    if (maxTotalTokens !== undefined && inputTokens + outputTokens > maxTotalTokens) {
+      exceeded = 'maxTotalTokens';
+    } else if (maxCostUsd !== undefined && costUsd > maxCostUsd) {
+      exceeded = 'maxCostUsd';
+    } else if (maxOutputTokens !== undefined && limitedOutputTokens >= maxOutputTokens) {
+      exceeded = 'maxOutputTokens';
+    }
+    if (exceeded) {
+      abortController.abort(new Error(`Claude Code request exceeded ${exceeded}`));
+    }
+  };
+
+  return {
+    enabled,
+
+    observe(message) {
+      if (typeof message !== 'object' || message === null) return;
+      const {
+        type,
+        message: inner,
+        event,
+      } = message as {
+        type?: unknown;
+        message?: unknown;
+        event?: { type?: unknown; message?: unknown; usage?: unknown; delta?: unknown };
+      };
+      if (type === 'assistant') {
+        recordResponse(inner);
+      } else if (type === 'stream_event' && event) {
+        if (event.type === 'message_start') {
+          recordResponse(event.message);
+        } else if (event.type === 'message_delta' && currentResponseId) {
+          const entry = responses.get(currentResponseId);
+          if (entry) recordUsage(entry, event.usage);
+        } else if (event.type === 'content_block_delta' && currentResponseId) {
+          const entry = responses.get(currentResponseId);
+          if (entry) entry.streamedChars += deltaLength(event.delta);
+        }
+      } else {
+        return;
+      }
+      check();
+    },
+
+    get exceeded() {
+      return exceeded;
+    },
+
+    get finishReason() {
+      if (!exceeded) return undefined;
+      return exceeded === 'maxOutputTokens' ? 'length' : 'other';
+    },
+
+    spend() {
+      const { inputTokens, outputTokens, limitedOutputTokens, costUsd } = totals();
+      return {
+        estimatedCostUsd: costUsd,
+        totalTokens: inputTokens + outputTokens,
+        ...(maxOutputTokens !== undefined && { outputTokens: limitedOutputTokens }),
+        ...(exceeded && { exceeded }),
+      };
+    },
+
+    usage() {
+      const { inputTokens, limitedOutputTokens, cacheReadInputTokens } = totals();
+      return {
+        inputTokens,
+        outputTokens: limitedOutputTokens,
+        totalTokens: inputTokens + limitedOutputTokens,
+        cachedInputTokens: cacheReadInputTokens,
+      };
+    },
+  };
+}
+
+// Length of the text, thinking or partial tool input in a content block delta
+function deltaLength(delta: unknown): number {
+  if (typeof delta !== 'object' || delta === null) return 0;
+  const { text, thinking, partial_json } = delta as Record<string, unknown>;
+  const content = text ?? thinking ?? partial_json;
+  return typeof content === 'string' ? content.length : 0;
+}
@@ -1,6 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ClaudeCodeLanguageModel } from './claude-code-language-model.js';
-import type { LanguageModelV3StreamPart } from '@ai-sdk/provider';
+import { createClaudeCode } from './claude-code-provider.js';
+import { createReplayQuery } from './query-cassette.js';
+import type { ClaudeCodeQueryFunction } from './types.js';
+import {
+  getErrorMetadata,
+  isOverloadedError,
+  isRateLimitError,
+  isTimeoutError,
+  isUsageLimitError,
+} from './errors.js';
+import { InvalidPromptError, type LanguageModelV3StreamPart } from '@ai-sdk/provider';
 
 // Extend stream part union locally to include provider-specific 'tool-error'
 type ToolErrorPart = {
@@ -17,6 +27,17 @@ type ExtendedStreamPart = LanguageModelV3StreamPart | ToolErrorPart;
 vi.mock('@anthropic-ai/claude-agent-sdk', () => {
   return {
     query: vi.fn(),
+    tool: vi.fn((name: string, description: string, inputSchema: unknown, handler: unknown) => ({
+      name,
+      description,
+      inputSchema,
+      handler,
+    })),
+    createSdkMcpServer: vi.fn((options: { name: string; tools?: unknown[] }) => ({
+      type: 'sdk',
+      name: options.name,
+      instance: { tools: options.tools ?? [] },
+    })),
     // Note: real SDK may not export AbortError at runtime; test mock provides it
     AbortError: class AbortError extends Error {
       constructor(message?: string) {
@@ -27,9 +48,14 @@ vi.mock('@anthropic-ai/claude-agent-sdk', () => {
   };
 });
 
+// fetchRemoteFiles resolves hosts before downloading; keep tests off the network
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async () => [{ address: '93.184.216.34', family: 4 }]),
+}));
+
 // Import the mocked module to get typed references
 import { query as mockQuery, AbortError as MockAbortError } from '@anthropic-ai/claude-agent-sdk';
-import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { SDKMessage, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
 
 const STREAMING_WARNING_MESSAGE =
   "Claude Agent SDK features (hooks/MCP/images) require streaming input. Set `streamingInput: 'always'` or provide `canUseTool` (auto streams only when canUseTool is set).";
@@ -121,7 +147,11 @@ describe('ClaudeCodeLanguageModel', () => {
             role: 'user',
             content: [
               { type: 'text', text: 'Describe this image.' },
-              { type: 'image', image: 'data:image/png;base64,aGVsbG8=' },
+              {
+                type: 'image',
+                image:
+                  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+              },
             ],
           },
         ],
@@ -137,11 +167,69 @@ describe('ClaudeCodeLanguageModel', () => {
         source: {
           type: 'base64',
           media_type: 'image/png',
-          data: 'aGVsbG8=',
+          data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
         },
       });
     });
 
+    it('streams structured history when historyFormat is structured', async () => {
+      const modelWithHistory = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { historyFormat: 'structured' },
+      });
+
+      let promptContentPromise: Promise<any> | undefined;
+      vi.mocked(mockQuery).mockImplementation(({ prompt }) => {
+        if (typeof prompt !== 'string') {
+          promptContentPromise = prompt[Symbol.asyncIterator]()
+            .next()
+            .then(({ value }) => value?.message?.content);
+        }
+        return {
+          async *[Symbol.asyncIterator]() {
+            yield {
+              type: 'result',
+              subtype: 'success',
+              session_id: 'history-session',
+              usage: { input_tokens: 0, output_tokens: 0 },
+            };
+          },
+        } as any;
+      });
+
+      await modelWithHistory.doGenerate({
+        prompt: [
+          { role: 'user', content: [{ type: 'text', text: 'List files' }] },
+          {
+            role: 'assistant',
+            content: [
+              { type: 'tool-call', toolCallId: 'toolu_1', toolName: 'ls', input: { path: '.' } },
+            ],
+          },
+          {
+            role: 'tool',
+            content: [
+              {
+                type: 'tool-result',
+                toolCallId: 'toolu_1',
+                toolName: 'ls',
+                output: { type: 'text', value: 'a.txt' },
+              },
+            ],
+          },
+          { role: 'user', content: [{ type: 'text', text: 'Open it' }] },
+        ],
+      } as any);
+
+      expect(promptContentPromise).toBeDefined();
+      const content = await promptContentPromise!;
+      expect(content).toHaveLength(1);
+      expect(content[0].text).toContain(
+        '<message role="tool">\nThe ls tool (call toolu_1) was called with {"path":"."} and returned:\na.txt\n</message>'
+      );
+      expect(content[0].text).toMatch(/\n\nOpen it$/);
+    });
+
     it('keeps string prompt when streamingInput off even if canUseTool provided', async () => {
       const modelWithOff = new ClaudeCodeLanguageModel({
         id: 'sonnet',
@@ -349,6 +437,7 @@ describe('ClaudeCodeLanguageModel', () => {
         inputTokens: 10,
         outputTokens: 5,
         totalTokens: 15,
+        cachedInputTokens: 0,
       });
       expect(result.finishReason).toBe('stop');
     });
@@ -501,6 +590,109 @@ describe('ClaudeCodeLanguageModel', () => {
         } as any)
       ).rejects.toThrow(/Unexpected end of JSON input/);
     });
+
+    it('returns provider-executed tool calls, results and errors as content', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'assistant',
+            message: {
+              content: [
+                { type: 'tool_use', id: 'toolu_read', name: 'Read', input: { path: 'a.txt' } },
+                { type: 'tool_use', id: 'toolu_bash', name: 'Bash', input: { command: 'false' } },
+              ],
+            },
+          };
+          yield {
+            type: 'user',
+            message: {
+              content: [
+                { type: 'tool_result', tool_use_id: 'toolu_read', content: '{"lines":3}' },
+                { type: 'tool_error', tool_use_id: 'toolu_bash', error: { code: 1 } },
+              ],
+            },
+          };
+          yield {
+            type: 'assistant',
+            message: { content: [{ type: 'text', text: 'The file has 3 lines.' }] },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Count lines' }] }],
+      });
+
+      expect(result.content).toEqual([
+        {
+          type: 'tool-call',
+          toolCallId: 'toolu_read',
+          toolName: 'Read',
+          input: JSON.stringify({ path: 'a.txt' }),
+          providerExecuted: true,
+          dynamic: true,
+          providerMetadata: { 'claude-code': { rawInput: JSON.stringify({ path: 'a.txt' }) } },
+        },
+        {
+          type: 'tool-call',
+          toolCallId: 'toolu_bash',
+          toolName: 'Bash',
+          input: JSON.stringify({ command: 'false' }),
+          providerExecuted: true,
+          dynamic: true,
+          providerMetadata: { 'claude-code': { rawInput: JSON.stringify({ command: 'false' }) } },
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'toolu_read',
+          toolName: 'Read',
+          result: { lines: 3 },
+          isError: false,
+          dynamic: true,
+          providerMetadata: { 'claude-code': { rawResult: '{"lines":3}' } },
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'toolu_bash',
+          toolName: 'Bash',
+          result: '{"code":1}',
+          isError: true,
+          dynamic: true,
+          providerMetadata: { 'claude-code': { rawError: '{"code":1}' } },
+        },
+        { type: 'text', text: 'The file has 3 lines.' },
+      ]);
+    });
+
+    it('synthesizes a tool call for orphaned tool results in doGenerate', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'user',
+            message: {
+              content: [{ type: 'tool_result', tool_use_id: 'toolu_orphan', content: 'ok' }],
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const modelWithoutLogs = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { logger: false },
+      });
+      const result = await modelWithoutLogs.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Go' }] }],
+      });
+
+      expect(result.content.map((part) => part.type)).toEqual(['tool-call', 'tool-result', 'text']);
+      expect(result.content[0]).toMatchObject({
+        toolCallId: 'toolu_orphan',
+        toolName: 'unknown-tool',
+        input: '',
+      });
+    });
   });
 
   describe('doStream', () => {
@@ -1045,7 +1237,11 @@ describe('ClaudeCodeLanguageModel', () => {
             role: 'user',
             content: [
               { type: 'text', text: 'Look at this image.' },
-              { type: 'image', image: 'data:image/png;base64,aGVsbG8=' },
+              {
+                type: 'image',
+                image:
+                  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+              },
             ],
           },
         ],
@@ -2180,4 +2376,1814 @@ describe('ClaudeCodeLanguageModel', () => {
       expect(events.some((event) => event.type === 'finish')).toBe(false);
     });
   });
+
+  describe('function tool bridging', () => {
+    const weatherTool = {
+      type: 'function' as const,
+      name: 'getWeather',
+      description: 'Get the weather for a city',
+      inputSchema: {
+        type: 'object' as const,
+        properties: { city: { type: 'string' as const } },
+        required: ['city'],
+      },
+    };
+
+    // Simulates the CLI calling the bridged MCP tool, which stops the query
+    const mockClientToolCall = () => {
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield { type: 'system', subtype: 'init', session_id: 'tools-session' };
+              yield {
+                type: 'assistant',
+                message: {
+                  content: [
+                    { type: 'text', text: 'Let me check.' },
+                    {
+                      type: 'tool_use',
+                      id: 'toolu_weather',
+                      name: 'mcp__ai-sdk-tools__getWeather',
+                      input: { city: 'Paris' },
+                    },
+                  ],
+                },
+              };
+              const server = options?.mcpServers?.['ai-sdk-tools'] as any;
+              void server.instance.tools[0].handler({ city: 'Paris' }, {});
+              expect(options?.abortController?.signal.aborted).toBe(true);
+              throw new MockAbortError('Claude Code process aborted by user');
+            },
+          }) as any
+      );
+    };
+
+    it('registers function tools as an in-process MCP server with streaming input', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const modelWithAllowedTools = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { allowedTools: ['Read'] },
+      });
+
+      await modelWithAllowedTools.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Weather?' }] }],
+        tools: [weatherTool],
+      });
+
+      const call = vi.mocked(mockQuery).mock.calls[0]?.[0] as any;
+      expect(call.options.mcpServers['ai-sdk-tools']).toMatchObject({
+        type: 'sdk',
+        name: 'ai-sdk-tools',
+      });
+      expect(call.options.allowedTools).toEqual(['Read', 'mcp__ai-sdk-tools__getWeather']);
+      expect(typeof call.prompt?.[Symbol.asyncIterator]).toBe('function');
+    });
+
+    it('auto-approves bridged tools unless they are disallowed', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+      const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }];
+
+      await model.doGenerate({ prompt, tools: [weatherTool] });
+      await new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { disallowedTools: ['mcp__ai-sdk-tools__getWeather'] },
+      }).doGenerate({ prompt, tools: [weatherTool] });
+      await new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { disallowedTools: ['mcp__ai-sdk-tools'] },
+      }).doGenerate({ prompt, tools: [weatherTool] });
+
+      const calls = vi.mocked(mockQuery).mock.calls as any[];
+      expect(calls[0][0].options.allowedTools).toEqual(['mcp__ai-sdk-tools__getWeather']);
+      expect(calls[1][0].options.allowedTools).toEqual([]);
+      expect(calls[2][0].options.allowedTools).toEqual([]);
+    });
+
+    it('does not bridge tools when toolChoice is none', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Weather?' }] }],
+        tools: [weatherTool],
+        toolChoice: { type: 'none' },
+      });
+
+      const call = vi.mocked(mockQuery).mock.calls[0]?.[0] as any;
+      expect(call.options.mcpServers).toBeUndefined();
+    });
+
+    it('returns client tool calls from doGenerate and stops the query', async () => {
+      mockClientToolCall();
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] }],
+        tools: [weatherTool],
+      });
+
+      expect(result.finishReason).toBe('tool-calls');
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Let me check.' },
+        {
+          type: 'tool-call',
+          toolCallId: 'toolu_weather',
+          toolName: 'getWeather',
+          input: JSON.stringify({ city: 'Paris' }),
+        },
+      ]);
+      expect(result.providerMetadata?.['claude-code']?.sessionId).toBe('tools-session');
+    });
+
+    it('streams client tool calls with providerExecuted false and finishes with tool-calls', async () => {
+      mockClientToolCall();
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] }],
+        tools: [weatherTool],
+      });
+
+      const events: ExtendedStreamPart[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        events.push(value);
+      }
+
+      expect(events.some((event) => event.type === 'error')).toBe(false);
+      expect(events.some((event) => event.type === 'tool-input-start')).toBe(false);
+      expect(events.find((event) => event.type === 'tool-call')).toEqual({
+        type: 'tool-call',
+        toolCallId: 'toolu_weather',
+        toolName: 'getWeather',
+        input: JSON.stringify({ city: 'Paris' }),
+        providerExecuted: false,
+      });
+      expect(events.find((event) => event.type === 'finish')).toMatchObject({
+        type: 'finish',
+        finishReason: 'tool-calls',
+        providerMetadata: { 'claude-code': { sessionId: 'tools-session' } },
+      });
+    });
+
+    it('warns about provider-defined tools', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Search' }] }],
+        tools: [{ type: 'provider', id: 'anthropic.web_search', name: 'web_search', args: {} }],
+      });
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({
+          type: 'unsupported',
+          feature: 'provider-defined tool web_search',
+        })
+      );
+    });
+  });
+
+  describe('reasoning', () => {
+    const readAll = async (stream: ReadableStream<LanguageModelV3StreamPart>) => {
+      const events: ExtendedStreamPart[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        events.push(value);
+      }
+      return events;
+    };
+
+    it('returns thinking blocks as reasoning content from doGenerate', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'assistant',
+            message: {
+              content: [
+                { type: 'thinking', thinking: 'Let me think.', signature: 'sig-1' },
+                { type: 'redacted_thinking', data: 'encrypted' },
+                { type: 'text', text: 'Answer' },
+              ],
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Think' }] }],
+      });
+
+      expect(result.content).toEqual([
+        {
+          type: 'reasoning',
+          text: 'Let me think.',
+          providerMetadata: { 'claude-code': { signature: 'sig-1' } },
+        },
+        {
+          type: 'reasoning',
+          text: '',
+          providerMetadata: { 'claude-code': { redactedData: 'encrypted' } },
+        },
+        { type: 'text', text: 'Answer' },
+      ]);
+    });
+
+    it('streams thinking_delta events as reasoning parts', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'stream_event',
+            event: {
+              type: 'content_block_start',
+              index: 0,
+              content_block: { type: 'thinking', thinking: '' },
+            },
+          };
+          yield {
+            type: 'stream_event',
+            event: {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'thinking_delta', thinking: 'Step 1. ' },
+            },
+          };
+          yield {
+            type: 'stream_event',
+            event: {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'thinking_delta', thinking: 'Step 2.' },
+            },
+          };
+          yield {
+            type: 'stream_event',
+            event: {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'signature_delta', signature: 'sig-abc' },
+            },
+          };
+          yield { type: 'stream_event', event: { type: 'content_block_stop', index: 0 } };
+          yield {
+            type: 'stream_event',
+            event: {
+              type: 'content_block_delta',
+              index: 1,
+              delta: { type: 'text_delta', text: 'Done' },
+            },
+          };
+          yield {
+            type: 'assistant',
+            message: {
+              content: [
+                { type: 'thinking', thinking: 'Step 1. Step 2.', signature: 'sig-abc' },
+                { type: 'text', text: 'Done' },
+              ],
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Think' }] }],
+      });
+      const events = await readAll(stream);
+
+      const reasoningEvents = events.filter((event) => event.type.startsWith('reasoning-'));
+      expect(reasoningEvents.map((event) => event.type)).toEqual([
+        'reasoning-start',
+        'reasoning-delta',
+        'reasoning-delta',
+        'reasoning-end',
+      ]);
+      const [start, , , end] = reasoningEvents as any[];
+      expect(end.id).toBe(start.id);
+      expect(end.providerMetadata).toEqual({ 'claude-code': { signature: 'sig-abc' } });
+      expect(
+        reasoningEvents
+          .filter((event) => event.type === 'reasoning-delta')
+          .map((event: any) => event.delta)
+          .join('')
+      ).toBe('Step 1. Step 2.');
+      expect(events.indexOf(end)).toBeLessThan(
+        events.findIndex((event) => event.type === 'text-delta')
+      );
+    });
+
+    it('emits reasoning from assistant messages when no stream_events are received', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'assistant',
+            message: {
+              content: [
+                { type: 'redacted_thinking', data: 'encrypted' },
+                { type: 'text', text: 'Answer' },
+              ],
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Think' }] }],
+      });
+      const events = await readAll(stream);
+
+      expect(events.filter((event) => event.type === 'reasoning-delta')).toHaveLength(0);
+      expect(events.find((event) => event.type === 'reasoning-end')).toMatchObject({
+        providerMetadata: { 'claude-code': { redactedData: 'encrypted' } },
+      });
+    });
+
+    it('closes open reasoning parts before finishing', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'stream_event',
+            event: {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'thinking_delta', thinking: 'Partial' },
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const { stream } = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Think' }] }],
+      });
+      const events = await readAll(stream);
+      const types = events.map((event) => event.type);
+
+      expect(types).toContain('reasoning-start');
+      expect(types.indexOf('reasoning-end')).toBeLessThan(types.indexOf('finish'));
+    });
+  });
+
+  describe('sessions', () => {
+    const resultMessage = (sessionId: string) => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: 'result', subtype: 'success', session_id: sessionId, usage: {} };
+      },
+    });
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    it('does not resume the previous session by default', async () => {
+      vi.mocked(mockQuery)
+        .mockReturnValueOnce(resultMessage('first') as any)
+        .mockReturnValueOnce(resultMessage('second') as any);
+
+      const first = await model.doGenerate({ prompt });
+      await model.doGenerate({ prompt });
+
+      expect(first.providerMetadata?.['claude-code']?.sessionId).toBe('first');
+      const secondCall = vi.mocked(mockQuery).mock.calls[1]?.[0] as any;
+      expect(secondCall.options.resume).toBeUndefined();
+    });
+
+    it('selects the session per request via providerOptions', async () => {
+      vi.mocked(mockQuery).mockReturnValue(resultMessage('forked') as any);
+
+      await model.doGenerate({
+        prompt,
+        providerOptions: { 'claude-code': { sessionId: 'existing', forkSession: true } },
+      });
+
+      const call = vi.mocked(mockQuery).mock.calls[0]?.[0] as any;
+      expect(call.options.resume).toBe('existing');
+      expect(call.options.forkSession).toBe(true);
+    });
+
+    it('rejects invalid session provider options', async () => {
+      await expect(
+        model.doGenerate({
+          prompt,
+          providerOptions: { 'claude-code': { sessionId: 42 } } as any,
+        })
+      ).rejects.toThrow();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('per-call provider options', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+    const mockResult = () =>
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+    it('merges overrides over the model settings', async () => {
+      mockResult();
+      const configured = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { maxTurns: 2, permissionMode: 'default', allowedTools: ['Read'] },
+      });
+
+      await configured.doGenerate({
+        prompt,
+        providerOptions: {
+          'claude-code': {
+            cwd: process.cwd(),
+            allowedTools: ['Read', 'Bash(npm test)'],
+            permissionMode: 'acceptEdits',
+            resume: 'override-session',
+          },
+        },
+      });
+
+      const call = vi.mocked(mockQuery).mock.calls[0]?.[0] as any;
+      expect(call.options.cwd).toBe(process.cwd());
+      expect(call.options.allowedTools).toEqual(['Read', 'Bash(npm test)']);
+      expect(call.options.permissionMode).toBe('acceptEdits');
+      expect(call.options.maxTurns).toBe(2);
+      expect(call.options.resume).toBe('override-session');
+      expect(configured.settings.permissionMode).toBe('default');
+    });
+
+    it('applies overrides to streaming requests', async () => {
+      mockResult();
+
+      const { stream } = await model.doStream({
+        prompt,
+        providerOptions: { 'claude-code': { maxTurns: 7, disallowedTools: ['Write'] } },
+      });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // drain
+      }
+
+      const call = vi.mocked(mockQuery).mock.calls[0]?.[0] as any;
+      expect(call.options.maxTurns).toBe(7);
+      expect(call.options.disallowedTools).toEqual(['Write']);
+    });
+
+    it('rejects unknown or invalid overrides', async () => {
+      await expect(
+        model.doGenerate({ prompt, providerOptions: { 'claude-code': { maxTurns: 0 } } })
+      ).rejects.toThrow();
+      await expect(
+        model.doGenerate({ prompt, providerOptions: { 'claude-code': { notASetting: true } } })
+      ).rejects.toThrow();
+      await expect(
+        model.doGenerate({ prompt, providerOptions: { 'claude-code': { verbose: true } } })
+      ).rejects.toThrow();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeouts', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    // Simulates a CLI process that hangs until it is aborted
+    const mockHangingQuery = () =>
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }: any) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield { type: 'system', subtype: 'init', session_id: 'hung-session' };
+              await new Promise((resolve) =>
+                options.abortController.signal.addEventListener('abort', resolve)
+              );
+              throw new MockAbortError('Claude Code process aborted by user');
+            },
+          }) as any
+      );
+
+    it('throws a timeout error with the configured timeoutMs from doGenerate', async () => {
+      mockHangingQuery();
+      const timed = new ClaudeCodeLanguageModel({ id: 'sonnet', settings: { timeoutMs: 20 } });
+
+      const error = await timed.doGenerate({ prompt }).catch((e) => e);
+
+      expect(isTimeoutError(error)).toBe(true);
+      expect(getErrorMetadata(error)?.timeoutMs).toBe(20);
+      const call = vi.mocked(mockQuery).mock.calls[0]?.[0] as any;
+      expect(call.options.abortController.signal.aborted).toBe(true);
+    });
+
+    it('emits an idle timeout error from doStream', async () => {
+      mockHangingQuery();
+      const timed = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { idleTimeoutMs: 20 },
+      });
+
+      const { stream } = await timed.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const errorPart = parts.find((part) => part.type === 'error');
+      expect(isTimeoutError(errorPart?.error)).toBe(true);
+      expect(errorPart.error.message).toContain('no message received for 20ms');
+      expect(getErrorMetadata(errorPart.error)?.timeoutMs).toBe(20);
+    });
+
+    it('aborts the query when the stream is cancelled', async () => {
+      mockHangingQuery();
+      const timed = new ClaudeCodeLanguageModel({ id: 'sonnet', settings: { timeoutMs: 1000 } });
+
+      const { stream } = await timed.doStream({ prompt });
+      const reader = stream.getReader();
+      await reader.read();
+      await reader.cancel(new Error('caller went away'));
+
+      const { signal } = vi.mocked(mockQuery).mock.calls[0][0].options!.abortController!;
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toEqual(new Error('caller went away'));
+    });
+
+    it('does not time out requests that finish in time', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+      const timed = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { timeoutMs: 1000, idleTimeoutMs: 1000 },
+      });
+
+      const result = await timed.doGenerate({ prompt });
+      expect(result.finishReason).toBe('stop');
+    });
+  });
+
+  describe('retry', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+    const retry = { maxAttempts: 3, initialDelayMs: 0, jitter: 0 };
+
+    const connectionReset = () =>
+      Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    const failingQuery = (sessionId: string) => ({
+      async *[Symbol.asyncIterator]() {
+        yield { type: 'system', subtype: 'init', session_id: sessionId };
+        throw connectionReset();
+      },
+    });
+
+    const successfulQuery = (text: string) => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: 'assistant',
+          message: { content: [{ type: 'text', text }] },
+        };
+        yield { type: 'result', subtype: 'success', session_id: 'done', usage: {} };
+      },
+    });
+
+    it('retries retryable doGenerate failures and resumes the started session', async () => {
+      vi.mocked(mockQuery)
+        .mockReturnValueOnce(failingQuery('started-session') as any)
+        .mockReturnValueOnce(successfulQuery('recovered') as any);
+      const retrying = new ClaudeCodeLanguageModel({ id: 'sonnet', settings: { retry } });
+
+      const result = await retrying.doGenerate({ prompt });
+
+      expect(result.content).toContainEqual({ type: 'text', text: 'recovered' });
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      const retryCall = vi.mocked(mockQuery).mock.calls[1]?.[0] as any;
+      expect(retryCall.options.resume).toBe('started-session');
+      expect(retryCall.options.forkSession).toBe(false);
+    });
+
+    it('gives up after maxAttempts', async () => {
+      vi.mocked(mockQuery).mockImplementation(() => failingQuery('s') as any);
+      const retrying = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { retry: { ...retry, maxAttempts: 2 } },
+      });
+
+      await expect(retrying.doGenerate({ prompt })).rejects.toMatchObject({
+        isRetryable: true,
+        data: expect.objectContaining({ code: 'ECONNRESET' }),
+      });
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry without a retry setting or for non-retryable errors', async () => {
+      vi.mocked(mockQuery).mockImplementation(() => failingQuery('s') as any);
+      await expect(model.doGenerate({ prompt })).rejects.toThrow('socket hang up');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+
+      vi.mocked(mockQuery).mockClear();
+      const predicate = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { retry: { ...retry, shouldRetry: () => false } },
+      });
+      await expect(predicate.doGenerate({ prompt })).rejects.toThrow('socket hang up');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries streams that fail before emitting output', async () => {
+      vi.mocked(mockQuery)
+        .mockReturnValueOnce(failingQuery('stream-session') as any)
+        .mockReturnValueOnce(successfulQuery('streamed') as any);
+      const retrying = new ClaudeCodeLanguageModel({ id: 'sonnet', settings: { retry } });
+
+      const { stream } = await retrying.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.filter((part) => part.type === 'stream-start')).toHaveLength(1);
+      expect(parts.some((part) => part.type === 'error')).toBe(false);
+      expect(parts.find((part) => part.type === 'text-delta')?.delta).toBe('streamed');
+      expect(parts.at(-1)?.type).toBe('finish');
+      const retryCall = vi.mocked(mockQuery).mock.calls[1]?.[0] as any;
+      expect(retryCall.options.resume).toBe('stream-session');
+    });
+
+    it('does not retry streams after output was emitted', async () => {
+      vi.mocked(mockQuery).mockImplementation(
+        () =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield {
+                type: 'assistant',
+                message: { content: [{ type: 'text', text: 'partial' }] },
+              };
+              throw connectionReset();
+            },
+          }) as any
+      );
+      const retrying = new ClaudeCodeLanguageModel({ id: 'sonnet', settings: { retry } });
+
+      const { stream } = await retrying.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(parts.some((part) => part.type === 'text-delta')).toBe(true);
+      expect(parts.at(-1)?.type).toBe('error');
+    });
+  });
+
+  describe('limit errors', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    const limitedQuery = (text: string) => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: 'assistant',
+          message: { content: [{ type: 'text', text }] },
+          error: 'rate_limit',
+        };
+        yield {
+          type: 'result',
+          subtype: 'success',
+          is_error: true,
+          result: text,
+          session_id: 'limited',
+          usage: {},
+        };
+      },
+    });
+
+    it('surfaces usage limit results as usage limit errors with the reset time', async () => {
+      vi.mocked(mockQuery).mockReturnValue(
+        limitedQuery('Claude AI usage limit reached|1736089200') as any
+      );
+
+      const error = await model.doGenerate({ prompt }).catch((e) => e);
+
+      expect(isUsageLimitError(error)).toBe(true);
+      expect(getErrorMetadata(error)?.resetsAt).toBe(new Date(1736089200 * 1000).toISOString());
+    });
+
+    it('emits rate limit errors from streams', async () => {
+      vi.mocked(mockQuery).mockReturnValue(
+        limitedQuery('API Error: 429 {"type":"error","error":{"type":"rate_limit_error"}}') as any
+      );
+
+      const { stream } = await model.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const errorPart = parts.find((part) => part.type === 'error');
+      expect(isRateLimitError(errorPart?.error)).toBe(true);
+      expect(errorPart?.error.isRetryable).toBe(true);
+    });
+
+    it('classifies thrown overloaded errors', async () => {
+      vi.mocked(mockQuery).mockImplementation(() => {
+        throw new Error('API Error: 529 {"type":"error","error":{"type":"overloaded_error"}}');
+      });
+
+      const error = await model.doGenerate({ prompt }).catch((e) => e);
+
+      expect(isOverloadedError(error)).toBe(true);
+    });
+  });
+
+  describe('finish reasons', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    it('maps the stop reason and reports it with the result subtype', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'assistant',
+            message: {
+              id: 'msg_1',
+              content: [{ type: 'text', text: 'I cannot help with that.' }],
+              stop_reason: 'refusal',
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.finishReason).toBe('content-filter');
+      expect(result.providerMetadata?.['claude-code']).toMatchObject({
+        resultSubtype: 'success',
+        stopReason: 'refusal',
+      });
+    });
+
+    it('does not carry a stop reason over from an earlier response', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'assistant',
+            message: { id: 'msg_1', content: [], stop_reason: 'tool_use' },
+          };
+          yield {
+            type: 'assistant',
+            message: { id: 'msg_2', content: [{ type: 'text', text: 'Done' }], stop_reason: null },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.finishReason).toBe('stop');
+      expect(result.providerMetadata?.['claude-code']?.stopReason).toBeUndefined();
+    });
+
+    it('reports budget exhaustion and stop reasons from message_delta in streams', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'stream_event',
+            event: { type: 'message_start', message: { id: 'msg_1', stop_reason: null } },
+          };
+          yield {
+            type: 'stream_event',
+            event: { type: 'message_delta', delta: { stop_reason: 'max_tokens' } },
+          };
+          yield {
+            type: 'result',
+            subtype: 'error_max_budget_usd',
+            session_id: 's',
+            usage: {},
+            errors: [],
+          };
+        },
+      } as any);
+
+      const { stream } = await model.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const finish = parts.find((part) => part.type === 'finish');
+      expect(finish.finishReason).toBe('length');
+      expect(finish.providerMetadata['claude-code']).toMatchObject({
+        resultSubtype: 'error_max_budget_usd',
+        stopReason: 'max_tokens',
+      });
+    });
+  });
+
+  describe('subagent activity', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    const subagentQuery = () => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: 'assistant',
+          parent_tool_use_id: null,
+          message: {
+            content: [
+              { type: 'text', text: 'Delegating. ' },
+              {
+                type: 'tool_use',
+                id: 'task-1',
+                name: 'Task',
+                input: { description: 'Review', prompt: 'Review it', subagent_type: 'reviewer' },
+              },
+            ],
+          },
+        };
+        yield {
+          type: 'assistant',
+          parent_tool_use_id: 'task-1',
+          message: {
+            content: [
+              { type: 'text', text: 'Reading the file.' },
+              { type: 'tool_use', id: 'read-1', name: 'Read', input: { file_path: 'a.ts' } },
+            ],
+          },
+        };
+        yield {
+          type: 'user',
+          parent_tool_use_id: 'task-1',
+          message: {
+            content: [{ type: 'tool_result', tool_use_id: 'read-1', content: 'file contents' }],
+          },
+        };
+        yield {
+          type: 'user',
+          parent_tool_use_id: null,
+          message: {
+            content: [{ type: 'tool_result', tool_use_id: 'task-1', content: 'Looks good' }],
+          },
+        };
+        yield {
+          type: 'assistant',
+          parent_tool_use_id: null,
+          message: { content: [{ type: 'text', text: 'Done.' }] },
+        };
+        yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+      },
+    });
+
+    const readAll = async (stream: ReadableStream<any>) => {
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+      return parts;
+    };
+
+    it('tags subagent parts and keeps their text out of the main text part', async () => {
+      vi.mocked(mockQuery).mockReturnValue(subagentQuery() as any);
+
+      const parts = await readAll((await model.doStream({ prompt })).stream);
+
+      const subagentMetadata = { parentToolCallId: 'task-1', agentName: 'reviewer' };
+      const textDeltas = parts.filter((part) => part.type === 'text-delta');
+      const subagentDelta = textDeltas.find((part) => part.delta === 'Reading the file.');
+      expect(subagentDelta?.providerMetadata?.['claude-code']).toEqual(subagentMetadata);
+      const mainDeltas = textDeltas.filter((part) => part.id !== subagentDelta?.id);
+      expect(mainDeltas.map((part) => part.delta).join('')).toBe('Delegating. Done.');
+      expect(mainDeltas.every((part) => part.providerMetadata === undefined)).toBe(true);
+
+      const readCall = parts.find((part) => part.type === 'tool-call' && part.toolName === 'Read');
+      expect(readCall.providerMetadata['claude-code']).toMatchObject(subagentMetadata);
+      const readResult = parts.find(
+        (part) => part.type === 'tool-result' && part.toolCallId === 'read-1'
+      );
+      expect(readResult.providerMetadata['claude-code']).toMatchObject(subagentMetadata);
+      const taskCall = parts.find((part) => part.type === 'tool-call' && part.toolName === 'Task');
+      expect(taskCall.providerMetadata['claude-code'].parentToolCallId).toBeUndefined();
+    });
+
+    it('leaves subagent text out when subagentText is exclude', async () => {
+      vi.mocked(mockQuery).mockReturnValue(subagentQuery() as any);
+      const excluding = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { subagentText: 'exclude' },
+      });
+
+      const parts = await readAll((await excluding.doStream({ prompt })).stream);
+
+      const text = parts
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => part.delta)
+        .join('');
+      expect(text).toBe('Delegating. Done.');
+      expect(parts.some((part) => part.type === 'tool-call' && part.toolName === 'Read')).toBe(
+        true
+      );
+    });
+
+    it('returns subagent text as separate content from doGenerate', async () => {
+      vi.mocked(mockQuery).mockReturnValue(subagentQuery() as any);
+
+      const result = await model.doGenerate({ prompt });
+
+      const texts = result.content.filter((part) => part.type === 'text');
+      expect(texts).toEqual([
+        {
+          type: 'text',
+          text: 'Reading the file.',
+          providerMetadata: {
+            'claude-code': { parentToolCallId: 'task-1', agentName: 'reviewer' },
+          },
+        },
+        { type: 'text', text: 'Delegating. Done.' },
+      ]);
+      const readResult = result.content.find(
+        (part) => part.type === 'tool-result' && part.toolCallId === 'read-1'
+      );
+      expect(readResult?.providerMetadata?.['claude-code']).toMatchObject({
+        parentToolCallId: 'task-1',
+      });
+    });
+  });
+
+  describe('usage', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    const usageQuery = () => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: 'assistant',
+          message: { content: [{ type: 'text', text: 'Hello' }] },
+        };
+        yield {
+          type: 'result',
+          subtype: 'success',
+          session_id: 's',
+          usage: {
+            input_tokens: 10,
+            output_tokens: 20,
+            cache_creation_input_tokens: 100,
+            cache_read_input_tokens: 1000,
+          },
+          modelUsage: {
+            'claude-sonnet-4-5': {
+              inputTokens: 10,
+              outputTokens: 20,
+              cacheReadInputTokens: 1000,
+              cacheCreationInputTokens: 100,
+              webSearchRequests: 0,
+              costUSD: 0.01,
+              contextWindow: 200000,
+            },
+          },
+        };
+      },
+    });
+
+    const expectedDetails = {
+      inputTokens: { total: 1110, noCache: 10, cacheRead: 1000, cacheWrite: 100 },
+      outputTokens: { total: 20 },
+    };
+    const expectedModelUsage = {
+      'claude-sonnet-4-5': {
+        inputTokens: 10,
+        outputTokens: 20,
+        cacheReadInputTokens: 1000,
+        cacheCreationInputTokens: 100,
+        webSearchRequests: 0,
+        costUsd: 0.01,
+        contextWindow: 200000,
+      },
+    };
+
+    it('reports cached input tokens and the usage breakdown from doGenerate', async () => {
+      vi.mocked(mockQuery).mockReturnValue(usageQuery() as any);
+
+      const result = await model.doGenerate({ prompt });
+
+      expect(result.usage).toEqual({
+        inputTokens: 1110,
+        outputTokens: 20,
+        totalTokens: 1130,
+        cachedInputTokens: 1000,
+      });
+      expect(result.providerMetadata?.['claude-code']).toMatchObject({
+        usageDetails: expectedDetails,
+        modelUsage: expectedModelUsage,
+      });
+    });
+
+    it('reports the usage breakdown on the stream finish part', async () => {
+      vi.mocked(mockQuery).mockReturnValue(usageQuery() as any);
+
+      const { stream } = await model.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const finish = parts.find((part) => part.type === 'finish');
+      expect(finish.usage.cachedInputTokens).toBe(1000);
+      expect(finish.providerMetadata['claude-code']).toMatchObject({
+        usageDetails: expectedDetails,
+        modelUsage: expectedModelUsage,
+      });
+    });
+  });
+
+  describe('budget limits', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    // Streams an expensive response, then hangs until the query is aborted
+    const mockExpensiveQuery = () =>
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }: any) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield { type: 'system', subtype: 'init', session_id: 'budget-session' };
+              yield {
+                type: 'assistant',
+                message: {
+                  id: 'msg_1',
+                  model: 'claude-sonnet-4-5',
+                  usage: { input_tokens: 10000, output_tokens: 5000 },
+                  content: [{ type: 'text', text: 'Working on it' }],
+                },
+              };
+              const signal: AbortSignal = options.abortController.signal;
+              if (!signal.aborted) {
+                await new Promise((resolve) => signal.addEventListener('abort', resolve));
+              }
+              throw new MockAbortError('Claude Code process aborted by user');
+            },
+          }) as any
+      );
+
+    it('stops doGenerate at maxCostUsd and reports the spend', async () => {
+      mockExpensiveQuery();
+      const limited = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { maxCostUsd: 0.05 },
+      });
+
+      const result = await limited.doGenerate({ prompt });
+
+      expect(result.finishReason).toBe('other');
+      expect(result.content).toContainEqual({ type: 'text', text: 'Working on it' });
+      expect(result.usage).toMatchObject({ inputTokens: 10000, outputTokens: 5000 });
+      expect(result.providerMetadata?.['claude-code']).toMatchObject({
+        sessionId: 'budget-session',
+        budget: { exceeded: 'maxCostUsd', totalTokens: 15000, estimatedCostUsd: 0.105 },
+      });
+    });
+
+    it('stops doStream at maxTotalTokens', async () => {
+      mockExpensiveQuery();
+      const limited = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { maxTotalTokens: 12000 },
+      });
+
+      const { stream } = await limited.doStream({ prompt });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.some((part) => part.type === 'error')).toBe(false);
+      const finish = parts.at(-1);
+      expect(finish.type).toBe('finish');
+      expect(finish.finishReason).toBe('other');
+      expect(finish.providerMetadata['claude-code'].budget).toMatchObject({
+        exceeded: 'maxTotalTokens',
+        totalTokens: 15000,
+      });
+    });
+
+    it('reports spend without stopping when the limit is not reached', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'assistant',
+            message: {
+              id: 'msg_1',
+              model: 'claude-haiku-4-5',
+              usage: { input_tokens: 100, output_tokens: 50 },
+              content: [{ type: 'text', text: 'Hi' }],
+            },
+          };
+          yield { type: 'result', subtype: 'success', session_id: 's', usage: {} };
+        },
+      } as any);
+      const limited = new ClaudeCodeLanguageModel({
+        id: 'haiku',
+        settings: { maxCostUsd: 1 },
+      });
+
+      const result = await limited.doGenerate({ prompt });
+
+      expect(result.finishReason).toBe('stop');
+      const budget = result.providerMetadata?.['claude-code']?.budget as any;
+      expect(budget.exceeded).toBeUndefined();
+      expect(budget.totalTokens).toBe(150);
+    });
+  });
+
+  describe('usage ledger', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    const toolQuery = (sessionId: string) => ({
+      async *[Symbol.asyncIterator]() {
+        yield {
+          type: 'assistant',
+          message: {
+            content: [
+              { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'a.ts' } },
+              { type: 'tool_use', id: 'toolu_2', name: 'Bash', input: { command: 'false' } },
+            ],
+          },
+        };
+        yield {
+          type: 'user',
+          message: {
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: 'file' },
+              { type: 'tool_result', tool_use_id: 'toolu_2', content: 'exit 1', is_error: true },
+            ],
+          },
+        };
+        yield {
+          type: 'result',
+          subtype: 'success',
+          session_id: sessionId,
+          total_cost_usd: 0.25,
+          duration_ms: 1500,
+          usage: { input_tokens: 100, output_tokens: 40, cache_read_input_tokens: 10 },
+        };
+      },
+    });
+
+    it('records doGenerate and doStream usage in the provider ledger', async () => {
+      const onUsage = vi.fn();
+      const provider = createClaudeCode({ onUsage });
+
+      vi.mocked(mockQuery).mockReturnValueOnce(toolQuery('session-a') as any);
+      await provider('sonnet').doGenerate({ prompt });
+
+      vi.mocked(mockQuery).mockReturnValueOnce(toolQuery('session-b') as any);
+      const { stream } = await provider('opus').doStream({ prompt });
+      const reader = stream.getReader();
+      while (!(await reader.read()).done) {
+        // Drain the stream
+      }
+
+      expect(onUsage).toHaveBeenCalledTimes(2);
+      expect(onUsage.mock.calls[0][0]).toMatchObject({
+        modelId: 'sonnet',
+        sessionId: 'session-a',
+        inputTokens: 110,
+        outputTokens: 40,
+        cachedInputTokens: 10,
+        costUsd: 0.25,
+        durationMs: 1500,
+        tools: { Read: { calls: 1, errors: 0 }, Bash: { calls: 1, errors: 1 } },
+      });
+
+      const snapshot = provider.usage.snapshot();
+      expect(snapshot.total).toMatchObject({ requests: 2, inputTokens: 220, costUsd: 0.5 });
+      expect(Object.keys(snapshot.bySession)).toEqual(['session-a', 'session-b']);
+      expect(snapshot.byModel.opus).toMatchObject({ requests: 1, durationMs: 1500 });
+      expect(snapshot.byTool).toEqual({
+        Read: { calls: 2, errors: 0 },
+        Bash: { calls: 2, errors: 2 },
+      });
+    });
+
+    describe('failed requests', () => {
+      const init = { type: 'system', subtype: 'init', session_id: 'failed-session' };
+      const assistantUsage = {
+        type: 'assistant',
+        message: {
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          content: [{ type: 'text', text: 'Working' }],
+          usage: { input_tokens: 1000, output_tokens: 200 },
+        },
+      };
+
+      // Yields one assistant message with usage, then fails or hangs until aborted
+      const failingQuery = (failure: 'throw' | 'hang'): ClaudeCodeQueryFunction =>
+        async function* ({ options }) {
+          yield init as unknown as SDKMessage;
+          yield assistantUsage as unknown as SDKMessage;
+          if (failure === 'hang') {
+            const signal = options!.abortController!.signal;
+            await new Promise((resolve) => signal.addEventListener('abort', resolve));
+            throw new MockAbortError('Claude Code process aborted by user');
+          }
+          throw Object.assign(new Error('process crashed'), { exitCode: 1 });
+        };
+
+      const drain = async (stream: ReadableStream<unknown>) => {
+        const reader = stream.getReader();
+        while (!(await reader.read()).done) {
+          // Drain the stream
+        }
+      };
+
+      it('records the usage streamed before a doGenerate failure', async () => {
+        const onUsage = vi.fn();
+        const provider = createClaudeCode({ onUsage, queryFunction: failingQuery('throw') });
+
+        await expect(provider('sonnet').doGenerate({ prompt })).rejects.toThrow('process crashed');
+
+        expect(onUsage).toHaveBeenCalledTimes(1);
+        expect(onUsage.mock.calls[0][0]).toMatchObject({
+          modelId: 'sonnet',
+          sessionId: 'failed-session',
+          inputTokens: 1000,
+          outputTokens: 200,
+          costUsd: expect.closeTo(0.006),
+          durationMs: 0,
+          failed: true,
+        });
+      });
+
+      it('records the usage of timed out streams', async () => {
+        const onUsage = vi.fn();
+        const provider = createClaudeCode({ onUsage, queryFunction: failingQuery('hang') });
+
+        const { stream } = await provider('sonnet', { idleTimeoutMs: 20 }).doStream({ prompt });
+        await drain(stream);
+
+        expect(onUsage).toHaveBeenCalledTimes(1);
+        expect(onUsage.mock.calls[0][0]).toMatchObject({
+          inputTokens: 1000,
+          outputTokens: 200,
+          failed: true,
+        });
+        expect(provider.usage.snapshot().total).toMatchObject({ requests: 1, inputTokens: 1000 });
+      });
+
+      it('records the usage and cost of limit error results', async () => {
+        const onUsage = vi.fn();
+        const limitedQuery: ClaudeCodeQueryFunction = async function* () {
+          yield assistantUsage as unknown as SDKMessage;
+          yield {
+            type: 'result',
+            subtype: 'success',
+            is_error: true,
+            result: 'API Error: 429 {"type":"error","error":{"type":"rate_limit_error"}}',
+            session_id: 'limited-session',
+            total_cost_usd: 0.01,
+            duration_ms: 800,
+            usage: { input_tokens: 1500, output_tokens: 300 },
+          } as unknown as SDKMessage;
+        };
+        const provider = createClaudeCode({ onUsage, queryFunction: limitedQuery });
+
+        await expect(provider('sonnet').doGenerate({ prompt })).rejects.toSatisfy(isRateLimitError);
+        const { stream } = await provider('sonnet').doStream({ prompt });
+        await drain(stream);
+
+        expect(onUsage).toHaveBeenCalledTimes(2);
+        for (const [record] of onUsage.mock.calls) {
+          expect(record).toMatchObject({
+            sessionId: 'limited-session',
+            inputTokens: 1500,
+            outputTokens: 300,
+            costUsd: 0.01,
+            durationMs: 800,
+            failed: true,
+          });
+        }
+      });
+
+      it('records failed attempts of retried requests', async () => {
+        const onUsage = vi.fn();
+        let attempts = 0;
+        const flakyQuery: ClaudeCodeQueryFunction = (params) =>
+          attempts++ === 0
+            ? failingQuery('throw')(params)
+            : (toolQuery('retried-session') as unknown as AsyncIterable<SDKMessage>);
+        const retry = { maxAttempts: 2, initialDelayMs: 0, jitter: 0, shouldRetry: () => true };
+        const provider = createClaudeCode({ onUsage, queryFunction: flakyQuery });
+
+        await provider('sonnet', { retry }).doGenerate({ prompt });
+
+        expect(onUsage).toHaveBeenCalledTimes(2);
+        expect(onUsage.mock.calls[0][0]).toMatchObject({ inputTokens: 1000, failed: true });
+        expect(onUsage.mock.calls[1][0]).toMatchObject({ inputTokens: 110 });
+        expect(onUsage.mock.calls[1][0].failed).toBeUndefined();
+      });
+    });
+
+    it('keeps ledgers separate per provider', async () => {
+      const first = createClaudeCode();
+      const second = createClaudeCode();
+
+      vi.mocked(mockQuery).mockReturnValueOnce(toolQuery('session-a') as any);
+      await first('sonnet').doGenerate({ prompt });
+
+      expect(first.usage.snapshot().total.requests).toBe(1);
+      expect(second.usage.snapshot().total.requests).toBe(0);
+    });
+  });
+
+  describe('stop sequences', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    // Streams text deltas, then hangs until the query is aborted
+    const mockDeltaQuery = (deltas: string[]) =>
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }: any) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield { type: 'system', subtype: 'init', session_id: 'stop-session' };
+              for (const text of deltas) {
+                yield {
+                  type: 'stream_event',
+                  event: {
+                    type: 'content_block_delta',
+                    index: 0,
+                    delta: { type: 'text_delta', text },
+                  },
+                };
+              }
+              const signal: AbortSignal = options.abortController.signal;
+              if (!signal.aborted) {
+                await new Promise((resolve) => signal.addEventListener('abort', resolve));
+              }
+              throw new MockAbortError('Claude Code process aborted by user');
+            },
+          }) as any
+      );
+
+    it('cuts doStream text at a stop sequence split across chunks and aborts the query', async () => {
+      mockDeltaQuery(['Name: Ada', '\n\nHu', 'man: who?', ' ignored']);
+
+      const { stream } = await model.doStream({ prompt, stopSequences: ['\n\nHuman:'] });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const text = parts
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => part.delta)
+        .join('');
+      expect(text).toBe('Name: Ada');
+      expect(parts.filter((part) => part.type === 'text-end')).toHaveLength(1);
+      const { options } = vi.mocked(mockQuery).mock.calls[0][0] as any;
+      expect(options.abortController.signal.aborted).toBe(true);
+
+      const finish = parts.at(-1);
+      expect(finish.type).toBe('finish');
+      expect(finish.finishReason).toBe('stop');
+      expect(finish.providerMetadata['claude-code']).toMatchObject({
+        sessionId: 'stop-session',
+        stopSequence: '\n\nHuman:',
+      });
+      expect(parts[0].warnings).toEqual([]);
+    });
+
+    it('emits held-back text when no stop sequence matches', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { type: 'assistant', message: { content: [{ type: 'text', text: 'The EN' }] } };
+          yield {
+            type: 'result',
+            subtype: 'success',
+            session_id: 'stop-session',
+            usage: { input_tokens: 1, output_tokens: 1 },
+          };
+        },
+      } as any);
+
+      const { stream } = await model.doStream({ prompt, stopSequences: ['END'] });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const text = parts
+        .filter((part) => part.type === 'text-delta')
+        .map((part) => part.delta)
+        .join('');
+      expect(text).toBe('The EN');
+      expect(parts.at(-1).providerMetadata['claude-code']).not.toHaveProperty('stopSequence');
+    });
+
+    it('truncates doGenerate text at a stop sequence', async () => {
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }: any) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield { type: 'system', subtype: 'init', session_id: 'stop-session' };
+              yield {
+                type: 'assistant',
+                message: { content: [{ type: 'text', text: 'SELECT 1;\n---\nmore' }] },
+              };
+              if (options.abortController.signal.aborted) {
+                throw new MockAbortError('Claude Code process aborted by user');
+              }
+              yield {
+                type: 'result',
+                subtype: 'success',
+                session_id: 'stop-session',
+                usage: { input_tokens: 1, output_tokens: 1 },
+              };
+            },
+          }) as any
+      );
+
+      const result = await model.doGenerate({ prompt, stopSequences: ['---', 'more'] });
+
+      expect(result.content).toContainEqual({ type: 'text', text: 'SELECT 1;\n' });
+      expect(result.finishReason).toBe('stop');
+      expect(result.providerMetadata?.['claude-code']).toMatchObject({
+        sessionId: 'stop-session',
+        stopSequence: '---',
+      });
+    });
+
+    it('warns that stop sequences are ignored in JSON mode', async () => {
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'result',
+            subtype: 'success',
+            session_id: 'json-session',
+            result: '{"a":"x---y"}',
+            usage: { input_tokens: 1, output_tokens: 1 },
+          };
+        },
+      } as any);
+
+      const result = await model.doGenerate({
+        prompt,
+        stopSequences: ['---'],
+        responseFormat: { type: 'json' },
+      });
+
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ type: 'unsupported', feature: 'stopSequences' })
+      );
+      expect(result.providerMetadata?.['claude-code']).not.toHaveProperty('stopSequence');
+    });
+  });
+
+  describe('maxOutputTokens', () => {
+    const prompt = [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }] as any;
+
+    it('stops doStream once the output reaches maxOutputTokens', async () => {
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }: any) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield { type: 'system', subtype: 'init', session_id: 'length-session' };
+              yield {
+                type: 'stream_event',
+                event: {
+                  type: 'message_start',
+                  message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 5 } },
+                },
+              };
+              const signal: AbortSignal = options.abortController.signal;
+              while (!signal.aborted) {
+                yield {
+                  type: 'stream_event',
+                  event: {
+                    type: 'content_block_delta',
+                    index: 0,
+                    delta: { type: 'text_delta', text: 'word word ' },
+                  },
+                };
+              }
+              throw new MockAbortError('Claude Code process aborted by user');
+            },
+          }) as any
+      );
+
+      const { stream } = await model.doStream({ prompt, maxOutputTokens: 5 });
+      const parts: any[] = [];
+      const reader = stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts[0].warnings).toContainEqual(
+        expect.objectContaining({
+          type: 'compatibility',
+          feature: 'maxOutputTokens',
+          details: expect.stringContaining('estimated from streamed text'),
+        })
+      );
+      expect(parts.filter((part) => part.type === 'text-delta')).toHaveLength(2);
+
+      const finish = parts.at(-1);
+      expect(finish.type).toBe('finish');
+      expect(finish.finishReason).toBe('length');
+      expect(finish.usage).toMatchObject({ inputTokens: 5, outputTokens: 5 });
+      expect(finish.providerMetadata['claude-code'].budget).toMatchObject({
+        exceeded: 'maxOutputTokens',
+        outputTokens: 5,
+      });
+    });
+
+    it('stops doGenerate once reported output reaches maxOutputTokens', async () => {
+      vi.mocked(mockQuery).mockImplementation(
+        ({ options }: any) =>
+          ({
+            async *[Symbol.asyncIterator]() {
+              yield {
+                type: 'assistant',
+                message: {
+                  id: 'msg_1',
+                  model: 'claude-sonnet-4-5',
+                  usage: { input_tokens: 5, output_tokens: 120 },
+                  content: [{ type: 'text', text: 'A long answer' }],
+                },
+              };
+              if (options.abortController.signal.aborted) {
+                throw new MockAbortError('Claude Code process aborted by user');
+              }
+              yield {
+                type: 'result',
+                subtype: 'success',
+                session_id: 'length-session',
+                usage: { input_tokens: 5, output_tokens: 120 },
+              };
+            },
+          }) as any
+      );
+
+      const result = await model.doGenerate({ prompt, maxOutputTokens: 100 });
+
+      expect(result.finishReason).toBe('length');
+      expect(result.content).toContainEqual({ type: 'text', text: 'A long answer' });
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({
+          type: 'compatibility',
+          feature: 'maxOutputTokens',
+          details: expect.stringContaining('up to one whole message'),
+        })
+      );
+      expect(result.providerMetadata?.['claude-code']?.budget).toMatchObject({
+        exceeded: 'maxOutputTokens',
+      });
+    });
+  });
+
+  describe('fetchRemoteFiles', () => {
+    const PNG_1X1 =
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+    it('reports no supported URLs unless fetchRemoteFiles is enabled', () => {
+      expect(model.supportedUrls).toEqual({});
+
+      const fetching = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { fetchRemoteFiles: true },
+      });
+      expect(fetching.supportedUrls['image/*']?.[0].test('https://example.com/a.png')).toBe(true);
+    });
+
+    it('downloads remote image URLs and sends them as image blocks', async () => {
+      const fetch = vi.fn(
+        async () =>
+          new Response(Buffer.from(PNG_1X1, 'base64'), {
+            headers: { 'content-type': 'image/png' },
+          })
+      );
+      const fetching = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { streamingInput: 'always', fetchRemoteFiles: { fetch } },
+      });
+
+      let promptContentPromise: Promise<any> | undefined;
+      vi.mocked(mockQuery).mockImplementation(({ prompt }) => {
+        if (typeof prompt !== 'string') {
+          promptContentPromise = prompt[Symbol.asyncIterator]()
+            .next()
+            .then(({ value }) => value?.message?.content);
+        }
+        return {
+          async *[Symbol.asyncIterator]() {
+            yield {
+              type: 'result',
+              subtype: 'success',
+              session_id: 'remote-session',
+              usage: { input_tokens: 0, output_tokens: 0 },
+            };
+          },
+        } as any;
+      });
+
+      const result = await fetching.doGenerate({
+        prompt: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Describe this image.' },
+              { type: 'file', mediaType: 'image/*', data: new URL('https://example.com/a.png') },
+            ],
+          },
+        ],
+      });
+
+      expect(fetch).toHaveBeenCalledWith('https://example.com/a.png', expect.any(Object));
+      const content = await promptContentPromise!;
+      expect(content[1]).toEqual({
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: PNG_1X1 },
+      });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns and drops URLs that fail to download', async () => {
+      const fetch = vi.fn(async () => new Response('nope', { status: 403 }));
+      const fetching = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { streamingInput: 'always', fetchRemoteFiles: { fetch } },
+      });
+      vi.mocked(mockQuery).mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'result',
+            subtype: 'success',
+            session_id: 'remote-session',
+            usage: { input_tokens: 0, output_tokens: 0 },
+          };
+        },
+      } as any);
+
+      const result = await fetching.doGenerate({
+        prompt: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Describe this image.' },
+              { type: 'file', mediaType: 'image/*', data: new URL('https://example.com/a.png') },
+            ],
+          },
+        ],
+      });
+
+      expect(result.warnings).toContainEqual({
+        type: 'other',
+        message: 'Unable to fetch https://example.com/a.png: HTTP 403',
+      });
+    });
+  });
+
+  describe('image preprocessing', () => {
+    const prompt = [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe this image.' },
+          { type: 'image', image: 'data:image/png;base64,aGVsbG8=' },
+        ],
+      },
+    ] as any;
+
+    const resultResponse = () =>
+      ({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            type: 'result',
+            subtype: 'success',
+            session_id: 'image-session',
+            usage: { input_tokens: 0, output_tokens: 0 },
+          };
+        },
+      }) as any;
+
+    it('drops invalid images with a warning', async () => {
+      vi.mocked(mockQuery).mockReturnValue(resultResponse());
+      const imageModel = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { streamingInput: 'always' },
+      });
+
+      const result = await imageModel.doGenerate({ prompt });
+
+      expect(result.warnings).toContainEqual({
+        type: 'other',
+        message:
+          'Image 1: unsupported image format; supply PNG, JPEG, GIF or WebP images (declared as image/png)',
+      });
+    });
+
+    it("rejects invalid images when onInvalid is 'error'", async () => {
+      const imageModel = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { streamingInput: 'always', images: { onInvalid: 'error' } },
+      });
+
+      await expect(imageModel.doGenerate({ prompt })).rejects.toThrow(InvalidPromptError);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queryFunction', () => {
+    const cassette = {
+      interactions: [
+        [
+          { type: 'system', subtype: 'init', session_id: 'replayed-session' },
+          {
+            type: 'assistant',
+            message: { content: [{ type: 'text', text: 'Replayed answer' }] },
+          },
+          {
+            type: 'result',
+            subtype: 'success',
+            session_id: 'replayed-session',
+            usage: { input_tokens: 4, output_tokens: 2 },
+            total_cost_usd: 0.001,
+            duration_ms: 10,
+          },
+        ],
+      ],
+    } as any;
+
+    it('runs queries through the configured query function instead of the SDK', async () => {
+      const replay = createReplayQuery(cassette);
+      const replayModel = new ClaudeCodeLanguageModel({
+        id: 'sonnet',
+        settings: { queryFunction: replay },
+      });
+
+      const result = await replayModel.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(replay.remaining).toBe(0);
+      expect(result.content).toEqual([{ type: 'text', text: 'Replayed answer' }]);
+      expect(result.providerMetadata?.['claude-code']?.sessionId).toBe('replayed-session');
+    });
+
+    it('accepts a query function per call through providerOptions', async () => {
+      const queryFunction = vi.fn(createReplayQuery(cassette));
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { 'claude-code': { queryFunction } as any },
+      });
+
+      expect(queryFunction).toHaveBeenCalledWith(
+        expect.objectContaining({ options: expect.objectContaining({ model: 'sonnet' }) })
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,22 +1,80 @@
 import type {
   LanguageModelV3,
+  LanguageModelV3Content,
   LanguageModelV3FinishReason,
+  LanguageModelV3FunctionTool,
   LanguageModelV3StreamPart,
+  LanguageModelV3ToolCall,
   LanguageModelV3Usage,
+  SharedV3ProviderMetadata,
   SharedV3Warning,
   JSONValue,
 } from '@ai-sdk/provider';
-import { NoSuchModelError, APICallError, LoadAPIKeyError } from '@ai-sdk/provider';
-import { generateId } from '@ai-sdk/provider-utils';
-import type { ClaudeCodeSettings, Logger } from './types.js';
+import {
+  NoSuchModelError,
+  APICallError,
+  InvalidPromptError,
+  LoadAPIKeyError,
+} from '@ai-sdk/provider';
+import { delay, generateId, parseProviderOptions } from '@ai-sdk/provider-utils';
+import type {
+  ClaudeCodeProviderOptions,
+  ClaudeCodeQueryFunction,
+  ClaudeCodeSettings,
+  Logger,
+} from './types.js';
 import { convertToClaudeCodeMessages } from './convert-to-claude-code-messages.js';
-import { createAPICallError, createAuthenticationError, createTimeoutError } from './errors.js';
+import {
+  classifyLimitError,
+  createAPICallError,
+  createAuthenticationError,
+  createOverloadedError,
+  createRateLimitError,
+  createTimeoutError,
+  createUsageLimitError,
+} from './errors.js';
 import { mapClaudeCodeFinishReason } from './map-claude-code-finish-reason.js';
-import { validateModelId, validatePrompt, validateSessionId } from './validation.js';
+import {
+  mapClaudeCodeModelUsage,
+  mapClaudeCodeUsage,
+  mapClaudeCodeUsageDetails,
+  type ClaudeCodeModelUsage,
+  type ClaudeCodeUsageDetails,
+} from './map-claude-code-usage.js';
+import {
+  claudeCodeProviderOptionsSchema,
+  validateModelId,
+  validatePrompt,
+  validateSessionId,
+} from './validation.js';
 import { getLogger, createVerboseLogger } from './logger.js';
+import { createFunctionToolBridge, type FunctionToolBridge } from './function-tool-bridge.js';
+import { createSubagentTracker, withSubagentMetadata } from './subagent-activity.js';
+import { startRequestTimeout } from './request-timeout.js';
+import { createBudgetGuard, type BudgetGuard } from './budget-guard.js';
+import { createStopSequenceMatcher } from './stop-sequences.js';
+import { inlineRemoteFiles, REMOTE_FILE_URLS } from './remote-files.js';
+import { preprocessImages } from './image-preprocessing.js';
+import { releaseWhenDone, type ClaudeCodeRequestQueue } from './request-queue.js';
+import {
+  countToolPart,
+  createUsageRecord,
+  type ClaudeCodeToolUsage,
+  type ClaudeCodeUsageRecord,
+} from './usage-ledger.js';
+import {
+  getRetryDelay,
+  resolveRetryPolicy,
+  shouldRetryAttempt,
+  type RetryPolicy,
+} from './retry.js';
 
 import { query, type Options } from '@anthropic-ai/claude-agent-sdk';
-import type { SDKUserMessage, SDKPartialAssistantMessage } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  SDKUserMessage,
+  SDKPartialAssistantMessage,
+  SDKResultMessage,
+} from '@anthropic-ai/claude-agent-sdk';
 
 const CLAUDE_CODE_TRUNCATION_WARNING =
   'Claude Code SDK output ended unexpectedly; returning truncated response from buffered text. Await upstream fix to avoid data loss.';
@@ -100,6 +158,54 @@ function isAbortError(err: unknown): boolean {
   return false;
 }
 
+/**
+ * Returns the result text of a failed result message when it reports a rate limit,
+ * usage limit or overloaded API, so it can be surfaced as a typed error.
+ */
+function getLimitResultMessage(message: { is_error?: boolean; result?: unknown }) {
+  if (message.is_error !== true || typeof message.result !== 'string') {
+    return undefined;
+  }
+  return classifyLimitError(message.result) ? message.result : undefined;
+}
+
+/**
+ * Tracks the `stop_reason` of the latest API response. The CLI can emit several assistant
+ * messages per response (one per content block), and the stop reason may only be known from
+ * a later message or a `message_delta` stream event, so a reason is kept until the next
+ * response starts.
+ */
+function createStopReasonTracker() {
+  let messageId: string | undefined;
+  let stopReason: string | undefined;
+
+  const fromMessage = (message: unknown) => {
+    if (typeof message !== 'object' || message === null) return;
+    const { id, stop_reason } = message as { id?: unknown; stop_reason?: unknown };
+    if (typeof id === 'string' && id !== messageId) {
+      messageId = id;
+      stopReason = undefined;
+    }
+    if (typeof stop_reason === 'string') {
+      stopReason = stop_reason;
+    }
+  };
+
+  return {
+    get value() {
+      return stopReason;
+    },
+    onAssistantMessage: fromMessage,
+    onStreamEvent(event: { type: string; message?: unknown; delta?: unknown }) {
+      if (event.type === 'message_start') {
+        fromMessage(event.message);
+      } else if (event.type === 'message_delta') {
+        fromMessage(event.delta);
+      }
+    },
+  };
+}
+
 const STREAMING_FEATURE_WARNING =
   "Claude Agent SDK features (hooks/MCP/images) require streaming input. Set `streamingInput: 'always'` or provide `canUseTool` (auto streams only when canUseTool is set).";
 
@@ -116,6 +222,16 @@ type ClaudeToolResult = {
   isError: boolean;
 };
 
+/**
+ * Extended thinking block from an assistant message.
+ * Redacted thinking carries no readable text, only the encrypted `redactedData`.
+ */
+type ClaudeReasoning = {
+  text: string;
+  signature?: string;
+  redactedData?: string;
+};
+
 // Provider extension for tool-error stream parts.
 type ToolErrorPart = {
   type: 'tool-error';
@@ -216,6 +332,24 @@ export interface ClaudeCodeLanguageModelOptions {
    * Used internally to pass warnings from provider.
    */
   settingsValidationWarnings?: string[];
+
+  /**
+   * Called with the usage of every finished request.
+   * Used internally to feed the provider's usage ledger.
+   */
+  onUsage?: (record: ClaudeCodeUsageRecord) => void;
+
+  /**
+   * Runs Agent SDK queries when the settings do not set `queryFunction`.
+   * Used internally to pass the provider's `queryFunction`.
+   */
+  queryFunction?: ClaudeCodeQueryFunction;
+
+  /**
+   * Limits concurrent requests across the models of a provider.
+   * Used internally to pass the provider's request queue.
+   */
+  requestQueue?: ClaudeCodeRequestQueue;
 }
 
 /**
@@ -273,7 +407,6 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
   readonly specificationVersion = 'v3' as const;
   readonly defaultObjectGenerationMode = 'json' as const;
   readonly supportsImageUrls = false;
-  readonly supportedUrls = {};
   readonly supportsStructuredOutputs = true;
 
   // Fallback/magic string constants
@@ -286,21 +419,30 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
 
   readonly modelId: ClaudeCodeModelId;
   readonly settings: ClaudeCodeSettings;
+  readonly supportedUrls: Record<string, RegExp[]>;
 
-  private sessionId?: string;
   private modelValidationWarning?: string;
   private settingsValidationWarnings: string[];
   private logger: Logger;
+  private onUsage?: (record: ClaudeCodeUsageRecord) => void;
+  private queryFunction?: ClaudeCodeQueryFunction;
+  private requestQueue?: ClaudeCodeRequestQueue;
 
   constructor(options: ClaudeCodeLanguageModelOptions) {
     this.modelId = options.id;
     this.settings = options.settings ?? {};
     this.settingsValidationWarnings = options.settingsValidationWarnings ?? [];
+    this.onUsage = options.onUsage;
+    this.queryFunction = options.queryFunction;
+    this.requestQueue = options.requestQueue;
 
     // Create logger that respects verbose setting
     const baseLogger = getLogger(this.settings.logger);
     this.logger = createVerboseLogger(baseLogger, this.settings.verbose ?? false);
 
+    // With fetchRemoteFiles, the provider downloads URLs itself and applies its limits
+    this.supportedUrls = this.settings.fetchRemoteFiles ? REMOTE_FILE_URLS : {};
+
     // Validate model ID format
     if (!this.modelId || typeof this.modelId !== 'string' || this.modelId.trim() === '') {
       throw new NoSuchModelError({
@@ -325,6 +467,49 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
     return mapped ?? this.modelId;
   }
 
+  private extractReasoning(content: unknown): ClaudeReasoning[] {
+    if (!Array.isArray(content)) {
+      return [];
+    }
+
+    return content
+      .filter(
+        (item): item is { type: string; thinking?: unknown; signature?: unknown; data?: unknown } =>
+          typeof item === 'object' &&
+          item !== null &&
+          'type' in item &&
+          ((item as { type: unknown }).type === 'thinking' ||
+            (item as { type: unknown }).type === 'redacted_thinking')
+      )
+      .map((item) => {
+        if (item.type === 'redacted_thinking') {
+          return {
+            text: '',
+            ...(typeof item.data === 'string' && { redactedData: item.data }),
+          } satisfies ClaudeReasoning;
+        }
+        return {
+          text: typeof item.thinking === 'string' ? item.thinking : '',
+          ...(typeof item.signature === 'string' &&
+            item.signature.length > 0 && { signature: item.signature }),
+        } satisfies ClaudeReasoning;
+      });
+  }
+
+  private reasoningMetadata(
+    reasoning: Omit<ClaudeReasoning, 'text'>
+  ): { 'claude-code': Record<string, JSONValue> } | undefined {
+    if (reasoning.signature === undefined && reasoning.redactedData === undefined) {
+      return undefined;
+    }
+    return {
+      'claude-code': {
+        ...(reasoning.signature !== undefined && { signature: reasoning.signature }),
+        ...(reasoning.redactedData !== undefined && { redactedData: reasoning.redactedData }),
+      },
+    };
+  }
+
   private extractToolUses(content: unknown): ClaudeToolUse[] {
     if (!Array.isArray(content)) {
       return [];
@@ -423,6 +608,29 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       });
   }
 
+  private createProviderToolCall(
+    toolCallId: string,
+    toolName: string,
+    serializedInput: string
+  ): LanguageModelV3ToolCall {
+    return {
+      type: 'tool-call',
+      toolCallId,
+      toolName,
+      input: serializedInput,
+      providerExecuted: true,
+      dynamic: true, // V3 field: indicates tool is provider-defined (not in user's tools map)
+      providerMetadata: {
+        'claude-code': {
+          // rawInput preserves the original serialized format before AI SDK normalization.
+          // Use this if you need the exact string sent to the Claude CLI, which may differ
+          // from the `input` field after AI SDK processing.
+          rawInput: serializedInput,
+        },
+      },
+    };
+  }
+
   private serializeToolInput(input: unknown): string {
     if (typeof input === 'string') {
       return this.checkInputSize(input);
@@ -471,11 +679,43 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
     return result;
   }
 
+  /**
+   * Serializes a tool result to the original CLI output string (exposed as `rawResult`).
+   */
+  private serializeToolResult(result: unknown): string {
+    if (typeof result === 'string') {
+      return result;
+    }
+    try {
+      return JSON.stringify(result);
+    } catch {
+      return String(result);
+    }
+  }
+
+  /**
+   * Serializes a tool error payload to a string (exposed as `rawError`).
+   */
+  private serializeToolError(error: unknown): string {
+    if (typeof error === 'string') {
+      return error;
+    }
+    if (typeof error === 'object' && error !== null) {
+      try {
+        return JSON.stringify(error);
+      } catch {
+        return String(error);
+      }
+    }
+    return String(error);
+  }
+
   private generateAllWarnings(
     options:
       | Parameters<LanguageModelV3['doGenerate']>[0]
       | Parameters<LanguageModelV3['doStream']>[0],
-    prompt: string
+    prompt: string,
+    partialMessages: boolean
   ): SharedV3Warning[] {
     const warnings: SharedV3Warning[] = [];
     const unsupportedParams: string[] = [];
@@ -486,8 +726,6 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
     if (options.topK !== undefined) unsupportedParams.push('topK');
     if (options.presencePenalty !== undefined) unsupportedParams.push('presencePenalty');
     if (options.frequencyPenalty !== undefined) unsupportedParams.push('frequencyPenalty');
-    if (options.stopSequences !== undefined && options.stopSequences.length > 0)
-      unsupportedParams.push('stopSequences');
     if (options.seed !== undefined) unsupportedParams.push('seed');
 
     if (unsupportedParams.length > 0) {
@@ -501,6 +739,48 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       }
     }
 
+    // Without partial messages, usage is only known once a whole assistant message arrived
+    if (options.maxOutputTokens !== undefined) {
+      warnings.push({
+        type: 'compatibility',
+        feature: 'maxOutputTokens',
+        details: partialMessages
+          ? 'Claude Code does not support maxOutputTokens. The request is stopped once about maxOutputTokens output tokens were generated, counted from streamed usage and estimated from streamed text, so the output can be somewhat longer than the limit.'
+          : 'Claude Code does not support maxOutputTokens. The request is stopped once the usage reported with a complete assistant message reaches maxOutputTokens, so the output can exceed the limit by up to one whole message.',
+      });
+    }
+
+    // Stop sequences are emulated on the response text, which would break JSON output
+    if (options.stopSequences?.length && options.responseFormat?.type === 'json') {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'stopSequences',
+        details: 'Stop sequences are not applied to JSON output. They will be ignored.',
+      });
+    }
+
+    // Only function tools can be bridged through the in-process MCP server
+    for (const tool of options.tools ?? []) {
+      if (tool.type !== 'function') {
+        warnings.push({
+          type: 'unsupported',
+          feature: `provider-defined tool ${tool.name}`,
+          details: 'Claude Code only supports function tools. The tool will be ignored.',
+        });
+      }
+    }
+
+    if (
+      options.tools?.length &&
+      (options.toolChoice?.type === 'required' || options.toolChoice?.type === 'tool')
+    ) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'toolChoice',
+        details: `Claude Code decides on its own when to call tools. toolChoice '${options.toolChoice.type}' is treated as 'auto'.`,
+      });
+    }
+
     // Add model validation warning if present
     if (this.modelValidationWarning) {
       warnings.push({
@@ -540,38 +820,54 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
     return warnings;
   }
 
+  private getFunctionTools(
+    options:
+      | Parameters<LanguageModelV3['doGenerate']>[0]
+      | Parameters<LanguageModelV3['doStream']>[0]
+  ): LanguageModelV3FunctionTool[] {
+    if (options.toolChoice?.type === 'none') {
+      return [];
+    }
+    return (options.tools ?? []).filter(
+      (tool): tool is LanguageModelV3FunctionTool => tool.type === 'function'
+    );
+  }
+
   private createQueryOptions(
     abortController: AbortController,
-    responseFormat?: Parameters<LanguageModelV3['doGenerate']>[0]['responseFormat']
+    responseFormat?: Parameters<LanguageModelV3['doGenerate']>[0]['responseFormat'],
+    functionToolBridge?: FunctionToolBridge,
+    requestOptions?: ClaudeCodeProviderOptions
   ): Options {
+    const settings = this.resolveSettings(requestOptions);
     const opts: Partial<Options> & Record<string, unknown> = {
       model: this.getModel(),
       abortController,
-      resume: this.settings.resume ?? this.sessionId,
-      pathToClaudeCodeExecutable: this.settings.pathToClaudeCodeExecutable,
-      maxTurns: this.settings.maxTurns,
-      maxThinkingTokens: this.settings.maxThinkingTokens,
-      cwd: this.settings.cwd,
-      executable: this.settings.executable,
-      executableArgs: this.settings.executableArgs,
-      permissionMode: this.settings.permissionMode,
-      permissionPromptToolName: this.settings.permissionPromptToolName,
-      continue: this.settings.continue,
-      allowedTools: this.settings.allowedTools,
-      disallowedTools: this.settings.disallowedTools,
-      mcpServers: this.settings.mcpServers,
-      canUseTool: this.settings.canUseTool,
+      resume: requestOptions?.sessionId ?? settings.resume,
+      pathToClaudeCodeExecutable: settings.pathToClaudeCodeExecutable,
+      maxTurns: settings.maxTurns,
+      maxThinkingTokens: settings.maxThinkingTokens,
+      cwd: settings.cwd,
+      executable: settings.executable,
+      executableArgs: settings.executableArgs,
+      permissionMode: settings.permissionMode,
+      permissionPromptToolName: settings.permissionPromptToolName,
+      continue: settings.continue,
+      allowedTools: settings.allowedTools,
+      disallowedTools: settings.disallowedTools,
+      mcpServers: settings.mcpServers,
+      canUseTool: settings.canUseTool,
     };
     // NEW: Agent SDK options with legacy mapping
-    if (this.settings.systemPrompt !== undefined) {
-      opts.systemPrompt = this.settings.systemPrompt;
-    } else if (this.settings.customSystemPrompt !== undefined) {
+    if (settings.systemPrompt !== undefined) {
+      opts.systemPrompt = settings.systemPrompt;
+    } else if (settings.customSystemPrompt !== undefined) {
       // Deprecation warning for legacy field
       this.logger.warn(
         "[claude-code] 'customSystemPrompt' is deprecated and will be removed in a future major release. Please use 'systemPrompt' instead (string or { type: 'preset', preset: 'claude_code', append? })."
       );
-      opts.systemPrompt = this.settings.customSystemPrompt;
-    } else if (this.settings.appendSystemPrompt !== undefined) {
+      opts.systemPrompt = settings.customSystemPrompt;
+    } else if (settings.appendSystemPrompt !== undefined) {
       // Deprecation warning for legacy field
       this.logger.warn(
         "[claude-code] 'appendSystemPrompt' is deprecated and will be removed in a future major release. Please use 'systemPrompt: { type: 'preset', preset: 'claude_code', append: <text> }' instead."
@@ -579,42 +875,42 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       opts.systemPrompt = {
         type: 'preset',
         preset: 'claude_code',
-        append: this.settings.appendSystemPrompt,
+        append: settings.appendSystemPrompt,
       } as const;
     }
-    if (this.settings.settingSources !== undefined) {
-      opts.settingSources = this.settings.settingSources;
+    if (settings.settingSources !== undefined) {
+      opts.settingSources = settings.settingSources;
     }
-    if (this.settings.additionalDirectories !== undefined) {
-      opts.additionalDirectories = this.settings.additionalDirectories;
+    if (settings.additionalDirectories !== undefined) {
+      opts.additionalDirectories = settings.additionalDirectories;
     }
-    if (this.settings.agents !== undefined) {
-      opts.agents = this.settings.agents;
+    if (settings.agents !== undefined) {
+      opts.agents = settings.agents;
     }
-    if (this.settings.includePartialMessages !== undefined) {
-      opts.includePartialMessages = this.settings.includePartialMessages;
+    if (settings.includePartialMessages !== undefined) {
+      opts.includePartialMessages = settings.includePartialMessages;
     }
-    if (this.settings.fallbackModel !== undefined) {
-      opts.fallbackModel = this.settings.fallbackModel;
+    if (settings.fallbackModel !== undefined) {
+      opts.fallbackModel = settings.fallbackModel;
     }
-    if (this.settings.forkSession !== undefined) {
-      opts.forkSession = this.settings.forkSession;
+    if (settings.forkSession !== undefined) {
+      opts.forkSession = settings.forkSession;
     }
-    if (this.settings.stderr !== undefined) {
-      opts.stderr = this.settings.stderr;
+    if (settings.stderr !== undefined) {
+      opts.stderr = settings.stderr;
     }
-    if (this.settings.strictMcpConfig !== undefined) {
-      opts.strictMcpConfig = this.settings.strictMcpConfig;
+    if (settings.strictMcpConfig !== undefined) {
+      opts.strictMcpConfig = settings.strictMcpConfig;
     }
-    if (this.settings.extraArgs !== undefined) {
-      opts.extraArgs = this.settings.extraArgs;
+    if (settings.extraArgs !== undefined) {
+      opts.extraArgs = settings.extraArgs;
     }
     // hooks is supported in newer SDKs; include it if provided
-    if (this.settings.hooks) {
-      opts.hooks = this.settings.hooks;
+    if (settings.hooks) {
+      opts.hooks = settings.hooks;
     }
-    if (this.settings.env !== undefined) {
-      opts.env = { ...process.env, ...this.settings.env };
+    if (settings.env !== undefined) {
+      opts.env = { ...process.env, ...settings.env };
     }
 
     // Native structured outputs (SDK 0.1.45+)
@@ -625,6 +921,20 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       };
     }
 
+    // AI SDK function tools are exposed through an in-process MCP server
+    if (functionToolBridge) {
+      opts.mcpServers = {
+        ...settings.mcpServers,
+        [functionToolBridge.server.name]: functionToolBridge.server,
+      };
+      // Auto-approve the bridged tools, otherwise non-interactive runs may deny their calls
+      const disallowed = new Set(settings.disallowedTools);
+      const bridgedTools = [...functionToolBridge.toolNames.keys()].filter(
+        (name) => !disallowed.has(name) && !disallowed.has(`mcp__${functionToolBridge.server.name}`)
+      );
+      opts.allowedTools = [...(opts.allowedTools ?? []), ...bridgedTools];
+    }
+
     return opts as Options;
   }
 
@@ -677,6 +987,30 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       });
     }
 
+    // Check for rate limits, usage limits and overloaded errors
+    const stderr =
+      isErrorWithCode(error) && typeof error.stderr === 'string' ? error.stderr : undefined;
+    const limit = classifyLimitError(
+      [isErrorWithMessage(error) ? error.message : undefined, stderr].filter(Boolean).join('\n')
+    );
+
+    if (limit) {
+      const limitOptions = {
+        message:
+          isErrorWithMessage(error) && error.message ? error.message : 'Claude Code SDK error',
+        promptExcerpt: messagesPrompt.substring(0, 200),
+        stderr,
+        resetsAt: limit.resetsAt,
+      };
+      if (limit.kind === 'usage_limit') {
+        return createUsageLimitError(limitOptions);
+      }
+      if (limit.kind === 'overloaded') {
+        return createOverloadedError(limitOptions);
+      }
+      return createRateLimitError(limitOptions);
+    }
+
     // Check for timeout errors
     const errorCode = isErrorWithCode(error) && typeof error.code === 'string' ? error.code : '';
 
@@ -700,37 +1034,250 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       message: isErrorWithMessage(error) && error.message ? error.message : 'Claude Code SDK error',
       code: errorCode || undefined,
       exitCode: exitCode,
-      stderr: isErrorWithCode(error) && typeof error.stderr === 'string' ? error.stderr : undefined,
+      stderr,
       promptExcerpt: messagesPrompt.substring(0, 200),
       isRetryable,
     });
   }
 
-  private setSessionId(sessionId: string): void {
-    this.sessionId = sessionId;
+  private getRequestOptions(
+    options: Parameters<LanguageModelV3['doGenerate']>[0]
+  ): Promise<ClaudeCodeProviderOptions | undefined> {
+    return parseProviderOptions({
+      provider: 'claude-code',
+      providerOptions: options.providerOptions,
+      schema: claudeCodeProviderOptionsSchema,
+    });
+  }
+
+  /**
+   * Merges per-request overrides from `providerOptions['claude-code']` over the model settings.
+   */
+  private resolveSettings(requestOptions?: ClaudeCodeProviderOptions): ClaudeCodeSettings {
+    if (!requestOptions) {
+      return this.settings;
+    }
+    // sessionId is a request-only option; undefined values keep the model setting
+    const definedOverrides = Object.fromEntries(
+      Object.entries(requestOptions).filter(
+        ([key, value]) => key !== 'sessionId' && value !== undefined
+      )
+    );
+    return { ...this.settings, ...definedOverrides };
+  }
+
+  private checkSessionId(sessionId: string): void {
     const warning = validateSessionId(sessionId);
     if (warning) {
       this.logger.warn(`Claude Code Session: ${warning}`);
     }
   }
 
+  /**
+   * Returns the call options for a retry attempt, resuming the session of the failed
+   * attempt when it is known.
+   */
+  private withRetrySession<T extends Parameters<LanguageModelV3['doGenerate']>[0]>(
+    options: T,
+    sessionId: string | undefined
+  ): T {
+    if (sessionId === undefined) {
+      return options;
+    }
+    return {
+      ...options,
+      providerOptions: {
+        ...options.providerOptions,
+        'claude-code': {
+          ...options.providerOptions?.['claude-code'],
+          sessionId,
+          forkSession: false,
+        },
+      },
+    };
+  }
+
+  private logRetry(error: unknown, attempt: number, policy: RetryPolicy, delayMs: number): void {
+    this.logger.warn(
+      `[claude-code] Attempt ${attempt}/${policy.maxAttempts} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delayMs}ms`
+    );
+  }
+
+  /**
+   * Records the usage of a failed request or attempt, so that spend on errors, timeouts and
+   * retries reaches the ledger. Uses the result message when it arrived (limit errors),
+   * otherwise the usage streamed so far and its estimated cost. Nothing is recorded when no
+   * usage was seen.
+   */
+  private recordFailedUsage({
+    budgetGuard,
+    result,
+    sessionId,
+    tools,
+  }: {
+    budgetGuard: BudgetGuard;
+    result: SDKResultMessage | undefined;
+    sessionId: string | undefined;
+    tools: Record<string, ClaudeCodeToolUsage>;
+  }): void {
+    if (!this.onUsage) {
+      return;
+    }
+    const usage = result?.usage ? mapClaudeCodeUsage(result.usage) : budgetGuard.usage();
+    const costUsd = result?.total_cost_usd ?? budgetGuard.spend().estimatedCostUsd;
+    if (!usage.inputTokens && !usage.outputTokens && !costUsd) {
+      return;
+    }
+    const session = result?.session_id ?? sessionId;
+    const record = createUsageRecord({
+      modelId: this.modelId,
+      usage,
+      providerMetadata: {
+        'claude-code': {
+          ...(session !== undefined && { sessionId: session }),
+          costUsd,
+          ...(result?.duration_ms !== undefined && { durationMs: result.duration_ms }),
+        },
+      },
+      tools,
+    });
+    this.onUsage({ ...record, failed: true });
+  }
+
   async doGenerate(
     options: Parameters<LanguageModelV3['doGenerate']>[0]
+  ): Promise<Awaited<ReturnType<LanguageModelV3['doGenerate']>>> {
+    const settings = this.resolveSettings(await this.getRequestOptions(options));
+    const generate = async (
+      attemptOptions: Parameters<LanguageModelV3['doGenerate']>[0],
+      onSessionId?: (sessionId: string) => void
+    ) => {
+      const release = await this.acquireRequestSlot(options, settings);
+      try {
+        return await this.generateOnce(attemptOptions, onSessionId);
+      } finally {
+        release();
+      }
+    };
+    const retryPolicy = resolveRetryPolicy(settings.retry);
+    if (!retryPolicy) {
+      return generate(options);
+    }
+
+    let sessionId: string | undefined;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await generate(this.withRetrySession(options, sessionId), (id) => {
+          sessionId = id;
+        });
+      } catch (error) {
+        if (options.abortSignal?.aborted || !shouldRetryAttempt(retryPolicy, error, attempt)) {
+          throw error;
+        }
+        const delayMs = getRetryDelay(retryPolicy, attempt);
+        this.logRetry(error, attempt, retryPolicy, delayMs);
+        try {
+          await delay(delayMs, { abortSignal: options.abortSignal });
+        } catch (abortError) {
+          throw options.abortSignal?.aborted ? options.abortSignal.reason : abortError;
+        }
+      }
+    }
+  }
+
+  /**
+   * Waits for a slot in the provider's request queue, using the request's `priority` and
+   * `queueTimeoutMs`. Aborting the request while it waits rejects with the abort reason.
+   *
+   * @returns A function that gives the slot back
+   */
+  private async acquireRequestSlot(
+    options: Parameters<LanguageModelV3['doGenerate']>[0],
+    settings: ClaudeCodeSettings
+  ): Promise<() => void> {
+    if (!this.requestQueue) {
+      return () => {};
+    }
+    return this.requestQueue.acquire({
+      priority: settings.priority,
+      timeoutMs: settings.queueTimeoutMs,
+      signal: options.abortSignal,
+    });
+  }
+
+  /**
+   * Converts the prompt, downloading remote files first when `fetchRemoteFiles` is set.
+   */
+  private async convertPrompt(
+    options: Parameters<LanguageModelV3['doGenerate']>[0],
+    settings: ClaudeCodeSettings
+  ): Promise<ReturnType<typeof convertToClaudeCodeMessages>> {
+    let prompt = options.prompt;
+    const fetchWarnings: string[] = [];
+    if (settings.fetchRemoteFiles) {
+      const inlined = await inlineRemoteFiles(
+        prompt,
+        settings.fetchRemoteFiles,
+        options.abortSignal
+      );
+      prompt = inlined.prompt;
+      fetchWarnings.push(...inlined.warnings);
+    }
+
+    const converted = convertToClaudeCodeMessages(prompt, {
+      historyFormat: settings.historyFormat,
+    });
+    const warnings = [...fetchWarnings, ...(converted.warnings ?? [])];
+    if (!converted.hasImageParts) {
+      return { ...converted, ...(warnings.length > 0 && { warnings }) };
+    }
+
+    const images = await preprocessImages(converted.streamingContentParts, settings.images);
+    if (images.invalid.length > 0 && settings.images?.onInvalid === 'error') {
+      throw new InvalidPromptError({
+        prompt: options.prompt,
+        message: `Invalid image input: ${images.invalid.join('; ')}`,
+      });
+    }
+    warnings.push(...images.warnings, ...images.invalid);
+
+    return {
+      ...converted,
+      ...(warnings.length > 0 && { warnings }),
+      streamingContentParts: (images.content.length > 0
+        ? images.content
+        : [
+            { type: 'text', text: converted.messagesPrompt },
+          ]) as typeof converted.streamingContentParts,
+      hasImageParts: images.content.some((part) => part.type === 'image'),
+    };
+  }
+
+  private async generateOnce(
+    options: Parameters<LanguageModelV3['doGenerate']>[0],
+    onSessionId?: (sessionId: string) => void
   ): Promise<Awaited<ReturnType<LanguageModelV3['doGenerate']>>> {
     this.logger.debug(`[claude-code] Starting doGenerate request with model: ${this.modelId}`);
     this.logger.debug(`[claude-code] Response format: ${options.responseFormat?.type ?? 'none'}`);
 
+    const requestOptions = await this.getRequestOptions(options);
+    const settings = this.resolveSettings(requestOptions);
+
     const {
       messagesPrompt,
       warnings: messageWarnings,
       streamingContentParts,
       hasImageParts,
-    } = convertToClaudeCodeMessages(options.prompt);
+      hasDocumentParts,
+    } = await this.convertPrompt(options, settings);
 
     this.logger.debug(
-      `[claude-code] Converted ${options.prompt.length} messages, hasImageParts: ${hasImageParts}`
+      `[claude-code] Converted ${options.prompt.length} messages, hasImageParts: ${hasImageParts}, hasDocumentParts: ${hasDocumentParts}`
     );
 
+    const resumeSessionId = requestOptions?.sessionId ?? settings.resume;
+    let sessionId: string | undefined;
+
     const abortController = new AbortController();
     let abortListener: (() => void) | undefined;
     if (options.abortSignal?.aborted) {
@@ -741,7 +1288,30 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       options.abortSignal.addEventListener('abort', abortListener, { once: true });
     }
 
-    const queryOptions = this.createQueryOptions(abortController, options.responseFormat);
+    // AI SDK function tools are handed back to the caller instead of running in the CLI.
+    // When Claude invokes one, stop the query so the AI SDK can execute it.
+    let clientToolCallRequested = false;
+    const functionToolBridge = createFunctionToolBridge({
+      tools: this.getFunctionTools(options),
+      signal: abortController.signal,
+      onToolCall: (toolName) => {
+        this.logger.debug(`[claude-code] Client tool requested: ${toolName}, stopping query`);
+        clientToolCallRequested = true;
+        abortController.abort();
+      },
+    });
+
+    const queryOptions = this.createQueryOptions(
+      abortController,
+      options.responseFormat,
+      functionToolBridge,
+      requestOptions
+    );
+
+    // Stop sequences are emulated by cutting the text and stopping the query at the first match
+    const stopSequences = createStopSequenceMatcher(
+      options.responseFormat?.type === 'json' ? undefined : options.stopSequences
+    );
 
     let text = '';
     let structuredOutput: unknown | undefined;
@@ -751,9 +1321,21 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
     let costUsd: number | undefined;
     let durationMs: number | undefined;
     let rawUsage: unknown | undefined;
+    let usageDetails: ClaudeCodeUsageDetails | undefined;
+    let modelUsage: Record<string, ClaudeCodeModelUsage> | undefined;
+    let resultSubtype: string | undefined;
+    let resultMessage: SDKResultMessage | undefined;
+    const stopReason = createStopReasonTracker();
+    const subagents = createSubagentTracker();
+    const reasoningParts: LanguageModelV3Content[] = [];
+    // Provider-executed tool activity (Bash, Read, MCP tools, ...) in the order it happened
+    const providerToolContent: LanguageModelV3Content[] = [];
+    const providerToolNames = new Map<string, string>();
+    const clientToolCalls = new Map<string, LanguageModelV3Content>();
     const warnings: SharedV3Warning[] = this.generateAllWarnings(
       options,
-      messagesPrompt
+      messagesPrompt,
+      queryOptions.includePartialMessages === true
     );
 
     // Add warnings from message conversion
@@ -766,11 +1348,13 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       });
     }
 
-    const modeSetting = this.settings.streamingInput ?? 'auto';
+    const modeSetting = settings.streamingInput ?? 'auto';
     const wantsStreamInput =
-      modeSetting === 'always' || (modeSetting === 'auto' && !!this.settings.canUseTool);
+      modeSetting === 'always' ||
+      (modeSetting === 'auto' &&
+        (!!settings.canUseTool || !!functionToolBridge || settings.historyFormat === 'structured'));
 
-    if (!wantsStreamInput && hasImageParts) {
+    if (!wantsStreamInput && (hasImageParts || hasDocumentParts || functionToolBridge)) {
       warnings.push({
         type: 'other',
         message: STREAMING_FEATURE_WARNING,
@@ -781,8 +1365,20 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
     const outputStreamEnded = new Promise((resolve) => {
       done = () => resolve(undefined);
     });
+    const requestTimeout = startRequestTimeout({
+      abortController,
+      timeoutMs: settings.timeoutMs,
+      idleTimeoutMs: settings.idleTimeoutMs,
+      promptExcerpt: messagesPrompt.substring(0, 200),
+    });
+    const budgetGuard = createBudgetGuard({
+      abortController,
+      maxCostUsd: settings.maxCostUsd,
+      maxTotalTokens: settings.maxTotalTokens,
+      maxOutputTokens: options.maxOutputTokens,
+    });
     try {
-      if (this.settings.canUseTool && this.settings.permissionPromptToolName) {
+      if (settings.canUseTool && settings.permissionPromptToolName) {
         throw new Error(
           "canUseTool requires streamingInput mode ('auto' or 'always') and cannot be used with permissionPromptToolName (SDK constraint). Set streamingInput: 'auto' (or 'always') and remove permissionPromptToolName, or remove canUseTool."
         );
@@ -793,29 +1389,158 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
         ? toAsyncIterablePrompt(
             messagesPrompt,
             outputStreamEnded,
-            this.settings.resume ?? this.sessionId,
+            resumeSessionId,
             streamingContentParts
           )
         : messagesPrompt;
 
       this.logger.debug(
-        `[claude-code] Executing query with streamingInput: ${wantsStreamInput}, session: ${this.settings.resume ?? this.sessionId ?? 'new'}`
+        `[claude-code] Executing query with streamingInput: ${wantsStreamInput}, session: ${resumeSessionId ?? 'new'}`
       );
 
-      const response = query({
+      const response = (settings.queryFunction ?? this.queryFunction ?? query)({
         prompt: sdkPrompt,
         options: queryOptions,
       });
 
       for await (const message of response) {
+        requestTimeout.touch();
+        budgetGuard.observe(message);
         this.logger.debug(`[claude-code] Received message type: ${message.type}`);
         if (message.type === 'assistant') {
-          text += message.message.content
+          const subagent = subagents.resolve(message.parent_tool_use_id);
+          const messageText = message.message.content
             .map((c: { type: string; text?: string }) => (c.type === 'text' ? c.text : ''))
             .join('');
+          if (!subagent) {
+            stopReason.onAssistantMessage(message.message);
+            text += stopSequences.push(messageText);
+            if (stopSequences.matched !== undefined) {
+              this.logger.debug(
+                `[claude-code] Stop sequence matched: ${JSON.stringify(stopSequences.matched)}`
+              );
+              abortController.abort();
+              break;
+            }
+          } else if (messageText && settings.subagentText !== 'exclude') {
+            // Subagent text is kept out of the main text, next to the subagent's tool activity
+            providerToolContent.push(
+              withSubagentMetadata<LanguageModelV3Content>(
+                { type: 'text', text: messageText },
+                subagent
+              )
+            );
+          }
+          for (const reasoning of this.extractReasoning(message.message.content)) {
+            const providerMetadata = this.reasoningMetadata(reasoning);
+            reasoningParts.push(
+              withSubagentMetadata<LanguageModelV3Content>(
+                {
+                  type: 'reasoning',
+                  text: reasoning.text,
+                  ...(providerMetadata && { providerMetadata }),
+                },
+                subagent
+              )
+            );
+          }
+          for (const tool of this.extractToolUses(message.message.content)) {
+            subagents.recordToolUse(tool);
+            if (subagent) {
+              subagents.assign(tool.id, subagent);
+            }
+            const toolName = functionToolBridge?.toolNames.get(tool.name);
+            if (toolName) {
+              clientToolCalls.set(tool.id, {
+                type: 'tool-call',
+                toolCallId: tool.id,
+                toolName,
+                input: this.serializeToolInput(tool.input) || '{}',
+              });
+            } else if (!providerToolNames.has(tool.id)) {
+              providerToolNames.set(tool.id, tool.name);
+              providerToolContent.push(
+                this.createProviderToolCall(tool.id, tool.name, this.serializeToolInput(tool.input))
+              );
+            }
+          }
+        } else if (message.type === 'user' && message.message?.content) {
+          const content = message.message.content;
+          const ensureToolCall = (toolId: string, toolName: string) => {
+            if (!providerToolNames.has(toolId)) {
+              // Synthesize the call when no prior tool_use was seen to preserve ordering
+              this.logger.warn(`[claude-code] Received tool output for unknown tool ID: ${toolId}`);
+              providerToolNames.set(toolId, toolName);
+              providerToolContent.push(this.createProviderToolCall(toolId, toolName, ''));
+            }
+          };
+
+          const subagent = subagents.resolve(message.parent_tool_use_id);
+
+          for (const result of this.extractToolResults(content)) {
+            if (clientToolCalls.has(result.id)) {
+              continue;
+            }
+            if (subagent) {
+              subagents.assign(result.id, subagent);
+            }
+            const toolName =
+              result.name ??
+              providerToolNames.get(result.id) ??
+              ClaudeCodeLanguageModel.UNKNOWN_TOOL_NAME;
+            ensureToolCall(result.id, toolName);
+            const rawResult = this.serializeToolResult(result.result);
+            providerToolContent.push({
+              type: 'tool-result',
+              toolCallId: result.id,
+              toolName,
+              result: (this.normalizeToolResult(result.result) ??
+                rawResult ??
+                '') as NonNullable<JSONValue>,
+              isError: result.isError,
+              dynamic: true,
+              providerMetadata: {
+                'claude-code': {
+                  rawResult,
+                },
+              },
+            });
+          }
+
+          for (const error of this.extractToolErrors(content)) {
+            if (clientToolCalls.has(error.id)) {
+              continue;
+            }
+            if (subagent) {
+              subagents.assign(error.id, subagent);
+            }
+            const toolName =
+              error.name ??
+              providerToolNames.get(error.id) ??
+              ClaudeCodeLanguageModel.UNKNOWN_TOOL_NAME;
+            ensureToolCall(error.id, toolName);
+            // LanguageModelV3Content has no tool-error part; report failures as error results
+            const rawError = this.serializeToolError(error.error);
+            providerToolContent.push({
+              type: 'tool-result',
+              toolCallId: error.id,
+              toolName,
+              result: rawError,
+              isError: true,
+              dynamic: true,
+              providerMetadata: {
+                'claude-code': {
+                  rawError,
+                },
+              },
+            });
+          }
         } else if (message.type === 'result') {
           done();
-          this.setSessionId(message.session_id);
+          resultMessage = message;
+          sessionId = message.session_id;
+          this.checkSessionId(sessionId);
+          onSessionId?.(sessionId);
           costUsd = message.total_cost_usd;
           durationMs = message.duration_ms;
 
@@ -827,6 +1552,12 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
             );
           }
 
+          // Limit failures arrive as an error result; throw so they surface as typed errors
+          const limitMessage = getLimitResultMessage(message);
+          if (limitMessage) {
+            throw new Error(limitMessage);
+          }
+
           // Capture structured output if available (SDK 0.1.45+)
           if ('structured_output' in message && message.structured_output !== undefined) {
             structuredOutput = message.structured_output;
@@ -839,28 +1570,25 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
 
           if ('usage' in message) {
             rawUsage = message.usage;
-            usage = {
-              inputTokens:
-                (message.usage.cache_creation_input_tokens ?? 0) +
-                (message.usage.cache_read_input_tokens ?? 0) +
-                (message.usage.input_tokens ?? 0),
-              outputTokens: message.usage.output_tokens ?? 0,
-              totalTokens:
-                (message.usage.cache_creation_input_tokens ?? 0) +
-                (message.usage.cache_read_input_tokens ?? 0) +
-                (message.usage.input_tokens ?? 0) +
-                (message.usage.output_tokens ?? 0),
-            };
+            usage = mapClaudeCodeUsage(message.usage);
+            usageDetails = mapClaudeCodeUsageDetails(message.usage);
 
             this.logger.debug(
               `[claude-code] Token usage - Input: ${usage.inputTokens}, Output: ${usage.outputTokens}, Total: ${usage.totalTokens}`
             );
           }
 
-          finishReason = mapClaudeCodeFinishReason(message.subtype);
+          if (message.modelUsage) {
+            modelUsage = mapClaudeCodeModelUsage(message.modelUsage);
+          }
+
+          resultSubtype = message.subtype;
+          finishReason = mapClaudeCodeFinishReason(message.subtype, stopReason.value);
           this.logger.debug(`[claude-code] Finish reason: ${finishReason}`);
         } else if (message.type === 'system' && message.subtype === 'init') {
-          this.setSessionId(message.session_id);
+          sessionId = message.session_id;
+          this.checkSessionId(sessionId);
+          onSessionId?.(sessionId);
           this.logger.info(`[claude-code] Session initialized: ${message.session_id}`);
         }
       }
@@ -870,13 +1598,31 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
         `[claude-code] Error during doGenerate: ${error instanceof Error ? error.message : String(error)}`
       );
 
-      // Special handling for AbortError to preserve abort signal reason
-      if (isAbortError(error)) {
-        this.logger.debug('[claude-code] Request aborted by user');
-        throw options.abortSignal?.aborted ? options.abortSignal.reason : error;
+      const recordFailure = () => {
+        const tools: Record<string, ClaudeCodeToolUsage> = {};
+        providerToolContent.forEach((part) => countToolPart(tools, part));
+        this.recordFailedUsage({ budgetGuard, result: resultMessage, sessionId, tools });
+      };
+
+      if (requestTimeout.error) {
+        this.logger.warn(`[claude-code] ${requestTimeout.error.message}`);
+        recordFailure();
+        throw requestTimeout.error;
       }
 
-      if (isClaudeCodeTruncationError(error, text)) {
+      // Stopping the query for a client tool call or at a budget limit is expected, not a failure
+      if (budgetGuard.exceeded) {
+        this.logger.warn(`[claude-code] Request stopped after exceeding ${budgetGuard.exceeded}`);
+      } else if (clientToolCallRequested && !options.abortSignal?.aborted) {
+        this.logger.debug('[claude-code] Query stopped to hand tool calls back to the AI SDK');
+      } else if (stopSequences.matched !== undefined && !options.abortSignal?.aborted) {
+        this.logger.debug('[claude-code] Query stopped at a stop sequence');
+      } else if (isAbortError(error)) {
+        // Special handling for AbortError to preserve abort signal reason
+        this.logger.debug('[claude-code] Request aborted by user');
+        recordFailure();
+        throw options.abortSignal?.aborted ? options.abortSignal.reason : error;
+      } else if (isClaudeCodeTruncationError(error, text)) {
         this.logger.warn(
           `[claude-code] Detected truncated response, returning ${text.length} characters of buffered text`
         );
@@ -887,21 +1633,65 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
           message: CLAUDE_CODE_TRUNCATION_WARNING,
         });
       } else {
+        recordFailure();
         // Use unified error handler
         throw this.handleClaudeCodeError(error, messagesPrompt);
       }
     } finally {
+      requestTimeout.clear();
       if (options.abortSignal && abortListener) {
         options.abortSignal.removeEventListener('abort', abortListener);
       }
     }
 
+    text += stopSequences.flush();
+
     // Use structured output from SDK if available (native JSON schema support)
     // Otherwise fall back to accumulated text
     const finalText = structuredOutput !== undefined ? JSON.stringify(structuredOutput) : text;
 
+    if (budgetGuard.exceeded) {
+      // The result message never arrived, so report the usage streamed so far
+      finishReason = budgetGuard.finishReason ?? 'other';
+      usage = budgetGuard.usage();
+    } else if (clientToolCalls.size > 0) {
+      finishReason = 'tool-calls';
+    } else if (stopSequences.matched !== undefined) {
+      finishReason = 'stop';
+    }
+
+    const content: LanguageModelV3Content[] = [
+      ...reasoningParts,
+      ...providerToolContent.map((part) => subagents.tag(part)),
+      { type: 'text', text: finalText },
+      ...clientToolCalls.values(),
+    ];
+    const providerMetadata: SharedV3ProviderMetadata = {
+      'claude-code': {
+        ...(sessionId !== undefined && { sessionId }),
+        ...(costUsd !== undefined && { costUsd }),
+        ...(durationMs !== undefined && { durationMs }),
+        ...(rawUsage !== undefined && { rawUsage: rawUsage as JSONValue }),
+        ...(usageDetails !== undefined && {
+          usageDetails: usageDetails as unknown as JSONValue,
+        }),
+        ...(modelUsage !== undefined && { modelUsage: modelUsage as unknown as JSONValue }),
+        ...(budgetGuard.enabled && { budget: budgetGuard.spend() as unknown as JSONValue }),
+        ...(resultSubtype !== undefined && { resultSubtype }),
+        ...(stopReason.value !== undefined && { stopReason: stopReason.value }),
+        ...(stopSequences.matched !== undefined && { stopSequence: stopSequences.matched }),
+        ...(wasTruncated && { truncated: true }),
+      },
+    };
+
+    if (this.onUsage) {
+      const tools: Record<string, ClaudeCodeToolUsage> = {};
+      content.forEach((part) => countToolPart(tools, part));
+      this.onUsage(createUsageRecord({ modelId: this.modelId, usage, providerMetadata, tools }));
+    }
+
     return {
-      content: [{ type: 'text', text: finalText }],
+      content,
       usage,
       finishReason,
       warnings,
@@ -913,35 +1703,125 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       request: {
         body: messagesPrompt,
       },
-      providerMetadata: {
-        'claude-code': {
-          ...(this.sessionId !== undefined && { sessionId: this.sessionId }),
-          ...(costUsd !== undefined && { costUsd }),
-          ...(durationMs !== undefined && { durationMs }),
-          ...(rawUsage !== undefined && { rawUsage: rawUsage as JSONValue }),
-          ...(wasTruncated && { truncated: true }),
-        },
-      },
+      providerMetadata,
     };
   }
 
   async doStream(
     options: Parameters<LanguageModelV3['doStream']>[0]
+  ): Promise<Awaited<ReturnType<LanguageModelV3['doStream']>>> {
+    const settings = this.resolveSettings(await this.getRequestOptions(options));
+    // The slot is held until the stream of the attempt ends
+    const startStream = async (
+      attemptOptions: Parameters<LanguageModelV3['doStream']>[0],
+      onSessionId?: (sessionId: string) => void
+    ) => {
+      const release = await this.acquireRequestSlot(options, settings);
+      try {
+        const result = await this.streamOnce(attemptOptions, onSessionId);
+        return { ...result, stream: releaseWhenDone(result.stream, release) };
+      } catch (error) {
+        release();
+        throw error;
+      }
+    };
+    const retryPolicy = resolveRetryPolicy(settings.retry);
+    if (!retryPolicy) {
+      return startStream(options);
+    }
+
+    let sessionId: string | undefined;
+    const trackSession = (id: string) => {
+      sessionId = id;
+    };
+    const first = await startStream(options, trackSession);
+    let reader = first.stream.getReader();
+
+    const stream = new ReadableStream<LanguageModelV3StreamPart>({
+      start: async (controller) => {
+        let emittedOutput = false;
+        let emittedStreamStart = false;
+
+        for (let attempt = 1; ; attempt++) {
+          let retryError: unknown;
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+              controller.close();
+              return;
+            }
+
+            // Retry only while the caller has not received any output of the failed attempt
+            if (
+              value.type === 'error' &&
+              !emittedOutput &&
+              !options.abortSignal?.aborted &&
+              shouldRetryAttempt(retryPolicy, value.error, attempt)
+            ) {
+              retryError = value.error;
+              break;
+            }
+
+            if (value.type === 'stream-start') {
+              if (emittedStreamStart) {
+                continue;
+              }
+              emittedStreamStart = true;
+            } else if (value.type !== 'response-metadata') {
+              emittedOutput = true;
+            }
+            controller.enqueue(value);
+          }
+
+          await reader.cancel().catch(() => {});
+          const delayMs = getRetryDelay(retryPolicy, attempt);
+          this.logRetry(retryError, attempt, retryPolicy, delayMs);
+
+          try {
+            await delay(delayMs, { abortSignal: options.abortSignal });
+            const next = await startStream(this.withRetrySession(options, sessionId), trackSession);
+            reader = next.stream.getReader();
+          } catch (error) {
+            controller.enqueue({
+              type: 'error',
+              error: options.abortSignal?.aborted ? options.abortSignal.reason : error,
+            });
+            controller.close();
+            return;
+          }
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+
+    return { ...first, stream };
+  }
+
+  private async streamOnce(
+    options: Parameters<LanguageModelV3['doStream']>[0],
+    onSessionId?: (sessionId: string) => void
   ): Promise<Awaited<ReturnType<LanguageModelV3['doStream']>>> {
     this.logger.debug(`[claude-code] Starting doStream request with model: ${this.modelId}`);
     this.logger.debug(`[claude-code] Response format: ${options.responseFormat?.type ?? 'none'}`);
 
+    const requestOptions = await this.getRequestOptions(options);
+    const settings = this.resolveSettings(requestOptions);
+
     const {
       messagesPrompt,
       warnings: messageWarnings,
       streamingContentParts,
       hasImageParts,
-    } = convertToClaudeCodeMessages(options.prompt);
+      hasDocumentParts,
+    } = await this.convertPrompt(options, settings);
 
     this.logger.debug(
-      `[claude-code] Converted ${options.prompt.length} messages for streaming, hasImageParts: ${hasImageParts}`
+      `[claude-code] Converted ${options.prompt.length} messages for streaming, hasImageParts: ${hasImageParts}, hasDocumentParts: ${hasDocumentParts}`
     );
 
+    const resumeSessionId = requestOptions?.sessionId ?? settings.resume;
+    let sessionId: string | undefined;
+
     const abortController = new AbortController();
     let abortListener: (() => void) | undefined;
     if (options.abortSignal?.aborted) {
@@ -952,7 +1832,25 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       options.abortSignal.addEventListener('abort', abortListener, { once: true });
     }
 
-    const queryOptions = this.createQueryOptions(abortController, options.responseFormat);
+    // AI SDK function tools are handed back to the caller instead of running in the CLI.
+    // When Claude invokes one, stop the query so the AI SDK can execute it.
+    let clientToolCallRequested = false;
+    const functionToolBridge = createFunctionToolBridge({
+      tools: this.getFunctionTools(options),
+      signal: abortController.signal,
+      onToolCall: (toolName) => {
+        this.logger.debug(`[claude-code] Client tool requested: ${toolName}, stopping query`);
+        clientToolCallRequested = true;
+        abortController.abort();
+      },
+    });
+
+    const queryOptions = this.createQueryOptions(
+      abortController,
+      options.responseFormat,
+      functionToolBridge,
+      requestOptions
+    );
 
     // Enable partial messages for true streaming (token-by-token delivery)
     // This can be overridden by user settings, but we default to true for doStream
@@ -962,7 +1860,8 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
 
     const warnings: SharedV3Warning[] = this.generateAllWarnings(
       options,
-      messagesPrompt
+      messagesPrompt,
+      queryOptions.includePartialMessages === true
     );
 
     // Add warnings from message conversion
@@ -975,24 +1874,73 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
       });
     }
 
-    const modeSetting = this.settings.streamingInput ?? 'auto';
+    const modeSetting = settings.streamingInput ?? 'auto';
     const wantsStreamInput =
-      modeSetting === 'always' || (modeSetting === 'auto' && !!this.settings.canUseTool);
+      modeSetting === 'always' ||
+      (modeSetting === 'auto' &&
+        (!!settings.canUseTool || !!functionToolBridge || settings.historyFormat === 'structured'));
 
-    if (!wantsStreamInput && hasImageParts) {
+    if (!wantsStreamInput && (hasImageParts || hasDocumentParts || functionToolBridge)) {
       warnings.push({
         type: 'other',
         message: STREAMING_FEATURE_WARNING,
       });
     }
 
+    const requestTimeout = startRequestTimeout({
+      abortController,
+      timeoutMs: settings.timeoutMs,
+      idleTimeoutMs: settings.idleTimeoutMs,
+      promptExcerpt: messagesPrompt.substring(0, 200),
+    });
+    const budgetGuard = createBudgetGuard({
+      abortController,
+      maxCostUsd: settings.maxCostUsd,
+      maxTotalTokens: settings.maxTotalTokens,
+      maxOutputTokens: options.maxOutputTokens,
+    });
+    // Stop sequences are emulated by cutting the text and stopping the query at the first match
+    const stopSequences = createStopSequenceMatcher(
+      options.responseFormat?.type === 'json' ? undefined : options.stopSequences
+    );
+
+    // Set when the caller cancels the stream; the query is aborted and its output dropped
+    let cancelled = false;
+    let queryStopped = () => {};
+    const queryDone = new Promise<void>((resolve) => {
+      queryStopped = resolve;
+    });
+
     const stream = new ReadableStream<ExtendedStreamPart>({
-      start: async (controller) => {
+      start: async (streamController) => {
+        const subagents = createSubagentTracker();
+        const tools: Record<string, ClaudeCodeToolUsage> = {};
+        // Parts of subagent activity get their parent tool call added to providerMetadata
+        const controller = {
+          enqueue: (part: ExtendedStreamPart) => {
+            if (this.onUsage) {
+              countToolPart(tools, part);
+              if (part.type === 'finish') {
+                const { usage, providerMetadata } = part;
+                this.onUsage(
+                  createUsageRecord({ modelId: this.modelId, usage, providerMetadata, tools })
+                );
+              }
+            }
+            if (!cancelled) {
+              streamController.enqueue(subagents.tag(part));
+            }
+          },
+          close: () => {
+            if (!cancelled) streamController.close();
+          },
+        };
         let done = () => {};
         const outputStreamEnded = new Promise((resolve) => {
           done = () => resolve(undefined);
         });
         const toolStates = new Map<string, ToolStreamState>();
+        const clientToolCallIds = new Set<string>();
         const streamWarnings: SharedV3Warning[] = [];
 
         const closeToolInput = (toolId: string, state: ToolStreamState) => {
@@ -1012,22 +1960,9 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
 
           closeToolInput(toolId, state);
 
-          controller.enqueue({
-            type: 'tool-call',
-            toolCallId: toolId,
-            toolName: state.name,
-            input: state.lastSerializedInput ?? '',
-            providerExecuted: true,
-            dynamic: true, // V3 field: indicates tool is provider-defined (not in user's tools map)
-            providerMetadata: {
-              'claude-code': {
-                // rawInput preserves the original serialized format before AI SDK normalization.
-                // Use this if you need the exact string sent to the Claude CLI, which may differ
-                // from the `input` field after AI SDK processing.
-                rawInput: state.lastSerializedInput ?? '',
-              },
-            },
-          } as any); // eslint-disable-line @typescript-eslint/no-explicit-any
+          controller.enqueue(
+            this.createProviderToolCall(toolId, state.name, state.lastSerializedInput ?? '')
+          );
           state.callEmitted = true;
         };
 
@@ -1039,16 +1974,160 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
         };
 
         let usage: LanguageModelV3Usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+        const stopReason = createStopReasonTracker();
         let accumulatedText = '';
         let textPartId: string | undefined;
         let streamedTextLength = 0; // Track text already emitted via stream_events to avoid duplication
         let hasReceivedStreamEvents = false; // Track if we've received any stream_events
+        let resultReceived = false;
+        let resultMessage: SDKResultMessage | undefined;
+
+        // Open reasoning parts keyed by content block index (extended thinking)
+        const reasoningBlocks = new Map<number, { id: string } & Omit<ClaudeReasoning, 'text'>>();
+
+        const startReasoning = (index: number, redactedData?: string) => {
+          const existing = reasoningBlocks.get(index);
+          if (existing) {
+            return existing;
+          }
+          const block: { id: string } & Omit<ClaudeReasoning, 'text'> = {
+            id: generateId(),
+            ...(redactedData !== undefined && { redactedData }),
+          };
+          reasoningBlocks.set(index, block);
+          controller.enqueue({
+            type: 'reasoning-start',
+            id: block.id,
+          });
+          return block;
+        };
+
+        const endReasoning = (index: number) => {
+          const block = reasoningBlocks.get(index);
+          if (!block) {
+            return;
+          }
+          reasoningBlocks.delete(index);
+          const providerMetadata = this.reasoningMetadata(block);
+          controller.enqueue({
+            type: 'reasoning-end',
+            id: block.id,
+            ...(providerMetadata && { providerMetadata }),
+          });
+        };
+
+        const closeReasoningBlocks = () => {
+          for (const index of [...reasoningBlocks.keys()]) {
+            endReasoning(index);
+          }
+        };
+
+        const writeText = (text: string) => {
+          if (!text) {
+            return;
+          }
+          if (!textPartId) {
+            textPartId = generateId();
+            controller.enqueue({
+              type: 'text-start',
+              id: textPartId,
+            });
+          }
+          controller.enqueue({
+            type: 'text-delta',
+            id: textPartId,
+            delta: text,
+          });
+        };
+
+        // Emits main agent text, cut at the first stop sequence
+        const emitText = (delta: string) => {
+          writeText(stopSequences.push(delta));
+          if (stopSequences.matched !== undefined && !abortController.signal.aborted) {
+            this.logger.debug(
+              `[claude-code] Stop sequence matched: ${JSON.stringify(stopSequences.matched)}`
+            );
+            abortController.abort();
+          }
+        };
+
+        // Emits text held back by stop sequence matching and closes the text part
+        const endText = () => {
+          writeText(stopSequences.flush());
+          if (textPartId) {
+            controller.enqueue({
+              type: 'text-end',
+              id: textPartId,
+            });
+          }
+        };
+
+        // Ends the stream after the query was stopped to hand tool calls back to the AI SDK
+        const finishWithClientToolCalls = () => {
+          this.logger.debug('[claude-code] Stream stopped to hand tool calls back to the AI SDK');
+          closeReasoningBlocks();
+          endText();
+          finalizeToolCalls();
+          controller.enqueue({
+            type: 'finish',
+            finishReason: 'tool-calls',
+            usage,
+            providerMetadata: {
+              'claude-code': {
+                ...(sessionId !== undefined && { sessionId }),
+              },
+            },
+          });
+          controller.close();
+        };
+
+        // Ends the stream after the query was stopped at a budget limit
+        const finishOverBudget = () => {
+          this.logger.warn(`[claude-code] Stream stopped after exceeding ${budgetGuard.exceeded}`);
+          closeReasoningBlocks();
+          endText();
+          finalizeToolCalls();
+          controller.enqueue({
+            type: 'finish',
+            finishReason: budgetGuard.finishReason ?? 'other',
+            usage: budgetGuard.usage(),
+            providerMetadata: {
+              'claude-code': {
+                ...(sessionId !== undefined && { sessionId }),
+                budget: budgetGuard.spend() as unknown as JSONValue,
+              },
+            },
+          });
+          controller.close();
+        };
+
+        // Ends the stream after the query was stopped at a stop sequence
+        const finishAtStopSequence = () => {
+          this.logger.debug('[claude-code] Stream stopped at a stop sequence');
+          closeReasoningBlocks();
+          endText();
+          finalizeToolCalls();
+          controller.enqueue({
+            type: 'finish',
+            finishReason: 'stop',
+            usage,
+            providerMetadata: {
+              'claude-code': {
+                ...(sessionId !== undefined && { sessionId }),
+                ...(stopSequences.matched !== undefined && {
+                  stopSequence: stopSequences.matched,
+                }),
+              },
+            },
+          });
+          controller.close();
+        };
 
         try {
           // Emit stream-start with warnings
           controller.enqueue({ type: 'stream-start', warnings });
 
-          if (this.settings.canUseTool && this.settings.permissionPromptToolName) {
+          if (settings.canUseTool && settings.permissionPromptToolName) {
             throw new Error(
               "canUseTool requires streamingInput mode ('auto' or 'always') and cannot be used with permissionPromptToolName (SDK constraint). Set streamingInput: 'auto' (or 'always') and remove permissionPromptToolName, or remove canUseTool."
             );
@@ -1059,21 +2138,26 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
             ? toAsyncIterablePrompt(
                 messagesPrompt,
                 outputStreamEnded,
-                this.settings.resume ?? this.sessionId,
+                resumeSessionId,
                 streamingContentParts
               )
             : messagesPrompt;
 
           this.logger.debug(
-            `[claude-code] Starting stream query with streamingInput: ${wantsStreamInput}, session: ${this.settings.resume ?? this.sessionId ?? 'new'}`
+            `[claude-code] Starting stream query with streamingInput: ${wantsStreamInput}, session: ${resumeSessionId ?? 'new'}`
           );
 
-          const response = query({
+          const response = (settings.queryFunction ?? this.queryFunction ?? query)({
             prompt: sdkPrompt,
             options: queryOptions,
           });
 
           for await (const message of response) {
+            if (cancelled || stopSequences.matched !== undefined) {
+              break;
+            }
+            requestTimeout.touch();
+            budgetGuard.observe(message);
             this.logger.debug(`[claude-code] Stream received message type: ${message.type}`);
 
             // Handle streaming events (token-by-token delivery via includePartialMessages)
@@ -1081,6 +2165,12 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
               const streamEvent = message as SDKPartialAssistantMessage;
               const event = streamEvent.event;
 
+              // Subagent output is emitted from its complete assistant messages instead
+              if (subagents.resolve(streamEvent.parent_tool_use_id)) {
+                continue;
+              }
+              stopReason.onStreamEvent(event);
+
               // Check for text_delta events within content_block_delta
               if (
                 event.type === 'content_block_delta' &&
@@ -1098,20 +2188,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                   continue;
                 }
 
-                // Emit text-start if this is the first text
-                if (!textPartId) {
-                  textPartId = generateId();
-                  controller.enqueue({
-                    type: 'text-start',
-                    id: textPartId,
-                  });
-                }
-
-                controller.enqueue({
-                  type: 'text-delta',
-                  id: textPartId,
-                  delta: deltaText,
-                });
+                emitText(deltaText);
                 accumulatedText += deltaText;
                 streamedTextLength += deltaText.length;
               }
@@ -1148,12 +2225,55 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 // In non-JSON mode, input_json_delta is ignored (it's internal tool use)
               }
 
-              // Other stream_event types (content_block_start, content_block_stop, etc.)
+              // Handle extended thinking blocks (enabled via maxThinkingTokens)
+              if (
+                event.type === 'content_block_start' &&
+                (event.content_block?.type === 'thinking' ||
+                  event.content_block?.type === 'redacted_thinking')
+              ) {
+                hasReceivedStreamEvents = true;
+                startReasoning(
+                  event.index,
+                  event.content_block.type === 'redacted_thinking'
+                    ? event.content_block.data
+                    : undefined
+                );
+              }
+              if (
+                event.type === 'content_block_delta' &&
+                event.delta.type === 'thinking_delta' &&
+                'thinking' in event.delta &&
+                event.delta.thinking
+              ) {
+                hasReceivedStreamEvents = true;
+                controller.enqueue({
+                  type: 'reasoning-delta',
+                  id: startReasoning(event.index).id,
+                  delta: event.delta.thinking,
+                });
+              }
+              if (
+                event.type === 'content_block_delta' &&
+                event.delta.type === 'signature_delta' &&
+                'signature' in event.delta &&
+                event.delta.signature
+              ) {
+                startReasoning(event.index).signature = event.delta.signature;
+              }
+              if (event.type === 'content_block_stop') {
+                endReasoning(event.index);
+              }
+
+              // Other stream_event types (message_start, message_delta, etc.)
               // are informational and don't need to be forwarded to the AI SDK stream
               continue;
             }
 
             if (message.type === 'assistant') {
+              const subagent = subagents.resolve(message.parent_tool_use_id);
+              if (!subagent) {
+                stopReason.onAssistantMessage(message.message);
+              }
               if (!message.message?.content) {
                 this.logger.warn(
                   `[claude-code] Unexpected assistant message structure: missing content field. Message type: ${message.type}. This may indicate an SDK protocol violation.`
@@ -1163,8 +2283,57 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
 
               const content = message.message.content;
 
+              // Thinking blocks were already streamed when stream_events are enabled
+              // (except for subagents, whose stream_events are skipped)
+              if (!hasReceivedStreamEvents || subagent) {
+                for (const reasoning of this.extractReasoning(content)) {
+                  const reasoningId = generateId();
+                  if (subagent) {
+                    subagents.assign(reasoningId, subagent);
+                  }
+                  controller.enqueue({
+                    type: 'reasoning-start',
+                    id: reasoningId,
+                  });
+                  if (reasoning.text) {
+                    controller.enqueue({
+                      type: 'reasoning-delta',
+                      id: reasoningId,
+                      delta: reasoning.text,
+                    });
+                  }
+                  const providerMetadata = this.reasoningMetadata(reasoning);
+                  controller.enqueue({
+                    type: 'reasoning-end',
+                    id: reasoningId,
+                    ...(providerMetadata && { providerMetadata }),
+                  });
+                }
+              }
+
               for (const tool of this.extractToolUses(content)) {
                 const toolId = tool.id;
+                subagents.recordToolUse(tool);
+                if (subagent) {
+                  subagents.assign(toolId, subagent);
+                }
+
+                // Bridged AI SDK function tools are executed by the caller, not the CLI
+                const clientToolName = functionToolBridge?.toolNames.get(tool.name);
+                if (clientToolName) {
+                  if (!clientToolCallIds.has(toolId)) {
+                    clientToolCallIds.add(toolId);
+                    controller.enqueue({
+                      type: 'tool-call',
+                      toolCallId: toolId,
+                      toolName: clientToolName,
+                      input: this.serializeToolInput(tool.input) || '{}',
+                      providerExecuted: false,
+                    });
+                  }
+                  continue;
+                }
+
                 let state = toolStates.get(toolId);
                 if (!state) {
                   state = {
@@ -1231,7 +2400,20 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 .map((c: { type: string; text?: string }) => (c.type === 'text' ? c.text : ''))
                 .join('');
 
-              if (text) {
+              if (subagent) {
+                // Each subagent message becomes its own text part, separate from the main text
+                if (
+                  text &&
+                  settings.subagentText !== 'exclude' &&
+                  options.responseFormat?.type !== 'json'
+                ) {
+                  const subagentTextId = generateId();
+                  subagents.assign(subagentTextId, subagent);
+                  controller.enqueue({ type: 'text-start', id: subagentTextId });
+                  controller.enqueue({ type: 'text-delta', id: subagentTextId, delta: text });
+                  controller.enqueue({ type: 'text-end', id: subagentTextId });
+                }
+              } else if (text) {
                 // When we've received stream_events, assistant messages contain cumulative text
                 // that we've already emitted via stream_event deltas - skip duplicates
                 // When no stream_events received, assistant messages contain incremental text
@@ -1246,20 +2428,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                   // In JSON mode, we accumulate the text and extract JSON at the end
                   // Otherwise, stream any new text
                   if (options.responseFormat?.type !== 'json' && deltaText) {
-                    // Emit text-start if this is the first text
-                    if (!textPartId) {
-                      textPartId = generateId();
-                      controller.enqueue({
-                        type: 'text-start',
-                        id: textPartId,
-                      });
-                    }
-
-                    controller.enqueue({
-                      type: 'text-delta',
-                      id: textPartId,
-                      delta: deltaText,
-                    });
+                    emitText(deltaText);
                   }
 
                   // Update streamedTextLength to match what we now know is the full text
@@ -1271,20 +2440,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                   // In JSON mode, we accumulate the text and extract JSON at the end
                   // Otherwise, stream the text as it comes
                   if (options.responseFormat?.type !== 'json') {
-                    // Emit text-start if this is the first text
-                    if (!textPartId) {
-                      textPartId = generateId();
-                      controller.enqueue({
-                        type: 'text-start',
-                        id: textPartId,
-                      });
-                    }
-
-                    controller.enqueue({
-                      type: 'text-delta',
-                      id: textPartId,
-                      delta: text,
-                    });
+                    emitText(text);
                   }
                 }
               }
@@ -1296,7 +2452,14 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 continue;
               }
               const content = message.message.content;
+              const subagent = subagents.resolve(message.parent_tool_use_id);
               for (const result of this.extractToolResults(content)) {
+                if (clientToolCallIds.has(result.id)) {
+                  continue;
+                }
+                if (subagent) {
+                  subagents.assign(result.id, subagent);
+                }
                 let state = toolStates.get(result.id);
                 const toolName =
                   result.name ?? state?.name ?? ClaudeCodeLanguageModel.UNKNOWN_TOOL_NAME;
@@ -1337,16 +2500,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 }
                 state.name = toolName;
                 const normalizedResult = this.normalizeToolResult(result.result);
-                const rawResult =
-                  typeof result.result === 'string'
-                    ? result.result
-                    : (() => {
-                        try {
-                          return JSON.stringify(result.result);
-                        } catch {
-                          return String(result.result);
-                        }
-                      })();
+                const rawResult = this.serializeToolResult(result.result);
 
                 emitToolCall(result.id, state);
 
@@ -1370,6 +2524,12 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
               }
               // Handle tool errors
               for (const error of this.extractToolErrors(content)) {
+                if (clientToolCallIds.has(error.id)) {
+                  continue;
+                }
+                if (subagent) {
+                  subagents.assign(error.id, subagent);
+                }
                 let state = toolStates.get(error.id);
                 const toolName =
                   error.name ?? state?.name ?? ClaudeCodeLanguageModel.UNKNOWN_TOOL_NAME;
@@ -1394,18 +2554,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 // Ensure tool-call is emitted before tool-error
                 emitToolCall(error.id, state);
 
-                const rawError =
-                  typeof error.error === 'string'
-                    ? error.error
-                    : typeof error.error === 'object' && error.error !== null
-                      ? (() => {
-                          try {
-                            return JSON.stringify(error.error);
-                          } catch {
-                            return String(error.error);
-                          }
-                        })()
-                      : String(error.error);
+                const rawError = this.serializeToolError(error.error);
 
                 controller.enqueue({
                   type: 'tool-error',
@@ -1423,6 +2572,8 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
               }
             } else if (message.type === 'result') {
               done();
+              resultReceived = true;
+              resultMessage = message;
 
               // Handle structured output errors (SDK 0.1.45+)
               // Use string comparison to support new SDK subtypes not yet in TypeScript definitions
@@ -1432,44 +2583,45 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 );
               }
 
+              // Limit failures arrive as an error result; throw so they surface as typed errors
+              const limitMessage = getLimitResultMessage(message);
+              if (limitMessage) {
+                throw new Error(limitMessage);
+              }
+
               this.logger.info(
                 `[claude-code] Stream completed - Session: ${message.session_id}, Cost: $${message.total_cost_usd?.toFixed(4) ?? 'N/A'}, Duration: ${message.duration_ms ?? 'N/A'}ms`
               );
 
               let rawUsage: unknown | undefined;
+              let usageDetails: ClaudeCodeUsageDetails | undefined;
               if ('usage' in message) {
                 rawUsage = message.usage;
-                usage = {
-                  inputTokens:
-                    (message.usage.cache_creation_input_tokens ?? 0) +
-                    (message.usage.cache_read_input_tokens ?? 0) +
-                    (message.usage.input_tokens ?? 0),
-                  outputTokens: message.usage.output_tokens ?? 0,
-                  totalTokens:
-                    (message.usage.cache_creation_input_tokens ?? 0) +
-                    (message.usage.cache_read_input_tokens ?? 0) +
-                    (message.usage.input_tokens ?? 0) +
-                    (message.usage.output_tokens ?? 0),
-                };
+                usage = mapClaudeCodeUsage(message.usage);
+                usageDetails = mapClaudeCodeUsageDetails(message.usage);
 
                 this.logger.debug(
                   `[claude-code] Stream token usage - Input: ${usage.inputTokens}, Output: ${usage.outputTokens}, Total: ${usage.totalTokens}`
                 );
               }
 
-              const finishReason: LanguageModelV3FinishReason = mapClaudeCodeFinishReason(
-                message.subtype
-              );
+              const finishReason: LanguageModelV3FinishReason =
+                clientToolCallIds.size > 0
+                  ? 'tool-calls'
+                  : mapClaudeCodeFinishReason(message.subtype, stopReason.value);
 
               this.logger.debug(`[claude-code] Stream finish reason: ${finishReason}`);
 
-              // Store session ID in the model instance
-              this.setSessionId(message.session_id);
+              sessionId = message.session_id;
+              this.checkSessionId(sessionId);
+              onSessionId?.(sessionId);
 
               // Use structured output from SDK if available (native JSON schema support)
               const structuredOutput =
                 'structured_output' in message ? message.structured_output : undefined;
 
+              closeReasoningBlocks();
+
               // Check if we've already streamed JSON via input_json_delta
               const alreadyStreamedJson =
                 textPartId && options.responseFormat?.type === 'json' && hasReceivedStreamEvents;
@@ -1497,12 +2649,9 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                   type: 'text-end',
                   id: jsonTextId,
                 });
-              } else if (textPartId) {
+              } else if (textPartId || stopSequences.enabled) {
                 // Close the text part if it was opened (non-JSON mode)
-                controller.enqueue({
-                  type: 'text-end',
-                  id: textPartId,
-                });
+                endText();
               } else if (accumulatedText) {
                 // Fallback for JSON mode without schema: emit accumulated text
                 // This handles the case where responseFormat.type === 'json' but no schema
@@ -1540,6 +2689,19 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                     }),
                     ...(message.duration_ms !== undefined && { durationMs: message.duration_ms }),
                     ...(rawUsage !== undefined && { rawUsage: rawUsage as JSONValue }),
+                    ...(usageDetails !== undefined && {
+                      usageDetails: usageDetails as unknown as JSONValue,
+                    }),
+                    ...(message.modelUsage && {
+                      modelUsage: mapClaudeCodeModelUsage(
+                        message.modelUsage
+                      ) as unknown as JSONValue,
+                    }),
+                    ...(budgetGuard.enabled && {
+                      budget: budgetGuard.spend() as unknown as JSONValue,
+                    }),
+                    resultSubtype: message.subtype,
+                    ...(stopReason.value !== undefined && { stopReason: stopReason.value }),
                     // JSON validation warnings are collected during streaming and included
                     // in providerMetadata since the AI SDK's finish event doesn't support
                     // a top-level warnings field (unlike stream-start which was already emitted)
@@ -1550,8 +2712,9 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
                 },
               });
             } else if (message.type === 'system' && message.subtype === 'init') {
-              // Store session ID for future use
-              this.setSessionId(message.session_id);
+              sessionId = message.session_id;
+              this.checkSessionId(sessionId);
+              onSessionId?.(sessionId);
 
               this.logger.info(`[claude-code] Stream session initialized: ${message.session_id}`);
 
@@ -1565,6 +2728,21 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
             }
           }
 
+          if (budgetGuard.exceeded && !resultReceived) {
+            finishOverBudget();
+            return;
+          }
+
+          if (clientToolCallRequested && !resultReceived) {
+            finishWithClientToolCalls();
+            return;
+          }
+
+          if (stopSequences.matched !== undefined && !resultReceived) {
+            finishAtStopSequence();
+            return;
+          }
+
           finalizeToolCalls();
           this.logger.debug('[claude-code] Stream finalized, closing stream');
           controller.close();
@@ -1575,6 +2753,34 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
             `[claude-code] Error during doStream: ${error instanceof Error ? error.message : String(error)}`
           );
 
+          const recordFailure = () =>
+            this.recordFailedUsage({ budgetGuard, result: resultMessage, sessionId, tools });
+
+          if (requestTimeout.error) {
+            this.logger.warn(`[claude-code] ${requestTimeout.error.message}`);
+            finalizeToolCalls();
+            recordFailure();
+            controller.enqueue({ type: 'error', error: requestTimeout.error });
+            controller.close();
+            return;
+          }
+
+          if (budgetGuard.exceeded) {
+            finishOverBudget();
+            return;
+          }
+
+          // Stopping the query for a client tool call is expected, not a failure
+          if (clientToolCallRequested && !options.abortSignal?.aborted) {
+            finishWithClientToolCalls();
+            return;
+          }
+
+          if (stopSequences.matched !== undefined && !options.abortSignal?.aborted) {
+            finishAtStopSequence();
+            return;
+          }
+
           if (isClaudeCodeTruncationError(error, accumulatedText)) {
             this.logger.warn(
               `[claude-code] Detected truncated stream response, returning ${accumulatedText.length} characters of buffered text`
@@ -1585,11 +2791,9 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
             };
             streamWarnings.push(truncationWarning);
 
-            if (textPartId) {
-              controller.enqueue({
-                type: 'text-end',
-                id: textPartId,
-              });
+            closeReasoningBlocks();
+            if (textPartId || stopSequences.enabled) {
+              endText();
             } else if (accumulatedText) {
               const fallbackTextId = generateId();
               controller.enqueue({
@@ -1617,7 +2821,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
               usage,
               providerMetadata: {
                 'claude-code': {
-                  ...(this.sessionId !== undefined && { sessionId: this.sessionId }),
+                  ...(sessionId !== undefined && { sessionId }),
                   truncated: true,
                   ...(streamWarnings.length > 0 && {
                     warnings: warningsJson as unknown as JSONValue,
@@ -1631,6 +2835,7 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
           }
 
           finalizeToolCalls();
+          recordFailure();
           let errorToEmit: unknown;
 
           // Special handling for AbortError to preserve abort signal reason
@@ -1649,15 +2854,18 @@ export class ClaudeCodeLanguageModel implements LanguageModelV3 {
 
           controller.close();
         } finally {
+          requestTimeout.clear();
           if (options.abortSignal && abortListener) {
             options.abortSignal.removeEventListener('abort', abortListener);
           }
+          queryStopped();
         }
       },
-      cancel: () => {
-        if (options.abortSignal && abortListener) {
-          options.abortSignal.removeEventListener('abort', abortListener);
-        }
+      // Resolves once the aborted query has stopped
+      cancel: (reason) => {
+        cancelled = true;
+        abortController.abort(reason);
+        return queryDone;
       },
     });
 
@@ -1,6 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import { createClaudeCode } from './claude-code-provider.js';
 import { ClaudeCodeLanguageModel } from './claude-code-language-model.js';
+import { ClaudeCodeSession } from './claude-code-session.js';
+import type { ClaudeCodeQueryFunction } from './types.js';
 
 describe('createClaudeCode', () => {
   it('should create a provider with default settings', () => {
@@ -82,6 +86,77 @@ describe('createClaudeCode', () => {
     expect(model).toBeInstanceOf(ClaudeCodeLanguageModel);
     expect(model.modelId).toBe('opus');
   });
+
+  it('should create session handles that own the resume setting', () => {
+    const provider = createClaudeCode({ defaultSettings: { resume: 'default-session' } });
+
+    const session = provider.session('sonnet');
+    expect(session).toBeInstanceOf(ClaudeCodeSession);
+    expect(session.modelId).toBe('sonnet');
+    expect(session.sessionId).toBe('default-session');
+
+    const fresh = provider.session('opus', { resume: undefined });
+    expect(fresh.sessionId).toBeUndefined();
+  });
+});
+
+describe('queryFunction transport', () => {
+  const messages = [
+    { type: 'system', subtype: 'init', session_id: 'transport-session' },
+    {
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+    },
+    { type: 'assistant', message: { content: [{ type: 'text', text: 'Hi' }] } },
+    {
+      type: 'result',
+      subtype: 'success',
+      session_id: 'transport-session',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    },
+  ] as unknown as SDKMessage[];
+
+  const createTransport = () =>
+    vi.fn<ClaudeCodeQueryFunction>(async function* () {
+      yield* messages;
+    });
+
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] }];
+
+  it('routes doGenerate and doStream through the provider transport', async () => {
+    const transport = createTransport();
+    const model = createClaudeCode({ queryFunction: transport })('sonnet');
+
+    const result = await model.doGenerate({ prompt });
+    expect(result.content).toEqual([{ type: 'text', text: 'Hi' }]);
+
+    const { stream } = await model.doStream({ prompt });
+    const parts: LanguageModelV3StreamPart[] = [];
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+    }
+    expect(parts).toContainEqual(expect.objectContaining({ type: 'text-delta', delta: 'Hi' }));
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    const { prompt: sdkPrompt, options } = transport.mock.calls[1][0];
+    expect(sdkPrompt).toBeDefined();
+    expect(options).toMatchObject({ model: 'sonnet', includePartialMessages: true });
+    expect(options?.abortController).toBeInstanceOf(AbortController);
+  });
+
+  it('prefers a queryFunction from the model settings', async () => {
+    const transport = createTransport();
+    const modelTransport = createTransport();
+    const provider = createClaudeCode({ queryFunction: transport });
+
+    await provider('sonnet', { queryFunction: modelTransport }).doGenerate({ prompt });
+
+    expect(modelTransport).toHaveBeenCalledTimes(1);
+    expect(transport).not.toHaveBeenCalled();
+  });
 });
 
 describe('claudeCode export', () => {
@@ -1,9 +1,16 @@
 import type { LanguageModelV3, ProviderV3 } from '@ai-sdk/provider';
 import { NoSuchModelError } from '@ai-sdk/provider';
 import { ClaudeCodeLanguageModel, type ClaudeCodeModelId } from './claude-code-language-model.js';
-import type { ClaudeCodeSettings } from './types.js';
+import { ClaudeCodeSession } from './claude-code-session.js';
+import type { ClaudeCodeQueryFunction, ClaudeCodeSettings } from './types.js';
 import { validateSettings } from './validation.js';
 import { getLogger } from './logger.js';
+import { createRequestQueue, type ClaudeCodeRequestQueue } from './request-queue.js';
+import {
+  createUsageLedger,
+  type ClaudeCodeUsageLedger,
+  type ClaudeCodeUsageRecord,
+} from './usage-ledger.js';
 
 /**
  * Claude Code provider interface that extends the AI SDK's ProviderV3.
@@ -50,6 +57,30 @@ export interface ClaudeCodeProvider extends ProviderV3 {
    */
   chat(modelId: ClaudeCodeModelId, settings?: ClaudeCodeSettings): LanguageModelV3;
 
+  /**
+   * Creates a language model bound to one Claude Code session.
+   * The handle resumes its session on every call and exposes `resume()`, `fork()`,
+   * `reset()` and `close()` to manage it. A `resume` setting selects the initial session.
+   *
+   * @param modelId - The Claude model to use ('opus' or 'sonnet')
+   * @param settings - Optional settings to configure the model
+   * @returns A session handle usable as a language model
+   */
+  session(modelId: ClaudeCodeModelId, settings?: ClaudeCodeSettings): ClaudeCodeSession;
+
+  /**
+   * Usage of all requests made through this provider, aggregated per session, model and
+   * tool. Use `snapshot()` to read it, `reset()` to clear it and `JSON.stringify()` to
+   * export it.
+   */
+  readonly usage: ClaudeCodeUsageLedger;
+
+  /**
+   * Queue shared by all models of this provider that enforces `maxConcurrency`. Use
+   * `snapshot()` for the number of running and waiting requests.
+   */
+  readonly queue: ClaudeCodeRequestQueue;
+
   imageModel(modelId: string): never;
 }
 
@@ -73,6 +104,47 @@ export interface ClaudeCodeProviderSettings {
    * Individual model settings will override these defaults.
    */
   defaultSettings?: ClaudeCodeSettings;
+
+  /**
+   * Called with the usage of every finished request, after it was added to `provider.usage`.
+   * Errors thrown by the callback are logged and do not fail the request.
+   */
+  onUsage?: (record: ClaudeCodeUsageRecord) => void;
+
+  /**
+   * Transport for all models of this provider: runs the Agent SDK queries of both
+   * `doGenerate` and `doStream` instead of the SDK's `query()`, with the same contract
+   * (`({ prompt, options }) => AsyncIterable<SDKMessage>`). Use it to route calls through
+   * a wrapper, a remote runner or a sandboxed process. A `queryFunction` in the model or
+   * per-call settings takes precedence.
+   *
+   * @example
+   * ```typescript
+   * const provider = createClaudeCode({
+   *   queryFunction: ({ prompt, options }) => tenantRunner.query(tenantId, { prompt, options }),
+   * });
+   * ```
+   */
+  queryFunction?: ClaudeCodeQueryFunction;
+
+  /**
+   * Maximum number of requests that run at once across all models of this provider,
+   * including session handles. Further requests wait in a queue, served by `priority`
+   * and then in arrival order. Set `priority` and `queueTimeoutMs` in the model settings
+   * or per request in `providerOptions['claude-code']`. Unlimited by default.
+   *
+   * @example
+   * ```typescript
+   * const provider = createClaudeCode({ maxConcurrency: 4 });
+   *
+   * await generateText({
+   *   model: provider('sonnet'),
+   *   prompt: 'Triage this incident',
+   *   providerOptions: { 'claude-code': { priority: 10 } },
+   * });
+   * ```
+   */
+  maxConcurrency?: number;
 }
 
 /**
@@ -109,10 +181,13 @@ export function createClaudeCode(options: ClaudeCodeProviderSettings = {}): Clau
     }
   }
 
+  const usage = createUsageLedger({ onUsage: options.onUsage, logger });
+  const queue = createRequestQueue({ maxConcurrency: options.maxConcurrency, logger });
+
   const createModel = (
     modelId: ClaudeCodeModelId,
     settings: ClaudeCodeSettings = {}
-  ): LanguageModelV3 => {
+  ): ClaudeCodeLanguageModel => {
     const mergedSettings = {
       ...options.defaultSettings,
       ...settings,
@@ -128,6 +203,9 @@ export function createClaudeCode(options: ClaudeCodeProviderSettings = {}): Clau
       id: modelId,
       settings: mergedSettings,
       settingsValidationWarnings: validation.warnings,
+      onUsage: usage.record,
+      queryFunction: options.queryFunction,
+      requestQueue: queue,
     });
   };
 
@@ -141,6 +219,17 @@ export function createClaudeCode(options: ClaudeCodeProviderSettings = {}): Clau
 
   provider.languageModel = createModel;
   provider.chat = createModel; // Alias for languageModel
+  provider.session = (modelId: ClaudeCodeModelId, settings: ClaudeCodeSettings = {}) => {
+    const mergedSettings = { ...options.defaultSettings, ...settings };
+    // The session handle decides which session each request resumes
+    const { resume, ...modelSettings } = mergedSettings;
+    return new ClaudeCodeSession({
+      model: createModel(modelId, { ...modelSettings, resume: undefined }),
+      sessionId: resume,
+    });
+  };
+  provider.usage = usage;
+  provider.queue = queue;
   provider.specificationVersion = 'v3' as const;
 
   // Add embeddingModel method that throws NoSuchModelError
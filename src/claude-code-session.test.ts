@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider';
+import { ClaudeCodeSession } from './claude-code-session.js';
+import type { ClaudeCodeLanguageModel } from './claude-code-language-model.js';
+
+const prompt = [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }] as any;
+
+function createFakeModel(sessionIds: string[]) {
+  const calls: any[] = [];
+  let next = 0;
+  const model = {
+    provider: 'claude-code',
+    modelId: 'sonnet',
+    supportedUrls: {},
+    doGenerate: vi.fn(async (options: any) => {
+      calls.push(options);
+      const sessionId = sessionIds[next++];
+      return {
+        content: [],
+        finishReason: 'stop',
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+        warnings: [],
+        providerMetadata: { 'claude-code': { sessionId } },
+      };
+    }),
+    doStream: vi.fn(async (options: any) => {
+      calls.push(options);
+      const sessionId = sessionIds[next++];
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        start(controller) {
+          controller.enqueue({ type: 'stream-start', warnings: [] });
+          controller.enqueue({ type: 'response-metadata', id: sessionId });
+          controller.enqueue({
+            type: 'finish',
+            finishReason: 'stop',
+            usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+            providerMetadata: { 'claude-code': { sessionId } },
+          } as any);
+          controller.close();
+        },
+      });
+      return { stream };
+    }),
+  };
+  return { model: model as unknown as ClaudeCodeLanguageModel, calls };
+}
+
+async function drain(stream: ReadableStream<LanguageModelV3StreamPart>) {
+  const parts: LanguageModelV3StreamPart[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return parts;
+}
+
+describe('ClaudeCodeSession', () => {
+  it('starts a new session and resumes it on later calls', async () => {
+    const { model, calls } = createFakeModel(['s1', 's1']);
+    const session = new ClaudeCodeSession({ model });
+
+    await session.doGenerate({ prompt });
+    expect(calls[0].providerOptions['claude-code']).toEqual({});
+    expect(session.sessionId).toBe('s1');
+
+    await session.doGenerate({ prompt });
+    expect(calls[1].providerOptions['claude-code']).toEqual({ sessionId: 's1' });
+  });
+
+  it('tracks the session reported by streams', async () => {
+    const { model, calls } = createFakeModel(['stream-1', 'stream-1']);
+    const session = new ClaudeCodeSession({ model, sessionId: 'initial' });
+
+    const { stream } = await session.doStream({ prompt });
+    await drain(stream);
+    expect(calls[0].providerOptions['claude-code']).toEqual({ sessionId: 'initial' });
+    expect(session.sessionId).toBe('stream-1');
+
+    await drain((await session.doStream({ prompt })).stream);
+    expect(calls[1].providerOptions['claude-code']).toEqual({ sessionId: 'stream-1' });
+  });
+
+  it('runs calls on the same handle one at a time', async () => {
+    const { model, calls } = createFakeModel(['s1', 's1']);
+    const session = new ClaudeCodeSession({ model });
+
+    const { stream } = await session.doStream({ prompt });
+    const second = session.doGenerate({ prompt });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(calls).toHaveLength(1);
+
+    await drain(stream);
+    await second;
+    expect(calls).toHaveLength(2);
+    expect(calls[1].providerOptions['claude-code']).toEqual({ sessionId: 's1' });
+  });
+
+  it('forks into an independent handle', async () => {
+    const { model, calls } = createFakeModel(['forked']);
+    const session = new ClaudeCodeSession({ model, sessionId: 'base' });
+
+    const branch = session.fork();
+    await branch.doGenerate({ prompt });
+
+    expect(calls[0].providerOptions['claude-code']).toEqual({
+      sessionId: 'base',
+      forkSession: true,
+    });
+    expect(branch.sessionId).toBe('forked');
+    expect(session.sessionId).toBe('base');
+  });
+
+  it('supports resume and reset', async () => {
+    const { model, calls } = createFakeModel(['a', 'b']);
+    const session = new ClaudeCodeSession({ model });
+
+    session.resume('existing');
+    await session.doGenerate({ prompt });
+    expect(calls[0].providerOptions['claude-code']).toEqual({ sessionId: 'existing' });
+
+    session.reset();
+    expect(session.sessionId).toBeUndefined();
+    await session.doGenerate({ prompt });
+    expect(calls[1].providerOptions['claude-code']).toEqual({});
+
+    expect(() => session.resume('')).toThrow('Session ID cannot be empty');
+  });
+
+  it('keeps other provider options', async () => {
+    const { model, calls } = createFakeModel(['s1']);
+    const session = new ClaudeCodeSession({ model, sessionId: 'base' });
+
+    await session.doGenerate({
+      prompt,
+      providerOptions: { other: { a: 1 }, 'claude-code': { sessionId: 'ignored' } },
+    });
+
+    expect(calls[0].providerOptions).toEqual({
+      other: { a: 1 },
+      'claude-code': { sessionId: 'base' },
+    });
+  });
+
+  it('aborts in-flight calls and rejects new calls after close', async () => {
+    const { model } = createFakeModel([]);
+    let observedSignal: AbortSignal | undefined;
+    vi.mocked(model.doGenerate).mockImplementationOnce(async (options: any) => {
+      observedSignal = options.abortSignal;
+      await new Promise((resolve) => options.abortSignal.addEventListener('abort', resolve));
+      throw options.abortSignal.reason;
+    });
+    const session = new ClaudeCodeSession({ model });
+
+    const pending = session.doGenerate({ prompt });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    session.close();
+
+    await expect(pending).rejects.toThrow('Claude Code session has been closed');
+    expect(observedSignal?.aborted).toBe(true);
+    expect(session.closed).toBe(true);
+    await expect(session.doGenerate({ prompt })).rejects.toThrow(
+      'Claude Code session has been closed'
+    );
+    expect(() => session.fork()).toThrow('Claude Code session has been closed');
+  });
+});
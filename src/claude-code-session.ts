@@ -0,0 +1,287 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3StreamPart,
+  SharedV3ProviderMetadata,
+  SharedV3ProviderOptions,
+} from '@ai-sdk/provider';
+import type { ClaudeCodeLanguageModel } from './claude-code-language-model.js';
+
+type CallOptions = Parameters<LanguageModelV3['doGenerate']>[0];
+
+/**
+ * Options for creating a session handle around a Claude Code language model.
+ */
+export interface ClaudeCodeSessionOptions {
+  /**
+   * The model used to run requests. It should not have a `resume` setting,
+   * since the session handle decides which session each request resumes.
+   */
+  model: ClaudeCodeLanguageModel;
+
+  /**
+   * Existing session to resume on the first request.
+   */
+  sessionId?: string;
+
+  /**
+   * Fork `sessionId` into a new session on the first request instead of continuing it.
+   */
+  fork?: boolean;
+}
+
+/**
+ * Language model bound to a single Claude Code session.
+ *
+ * The plain model returned by `claudeCode()` is stateless: every call starts a new
+ * session unless one is selected with `providerOptions['claude-code'].sessionId`.
+ * A session handle remembers the session ID reported by each response and resumes it
+ * on the next call. Calls on the same handle run one at a time, so concurrent
+ * requests never race on the same session.
+ *
+ * @example
+ * ```typescript
+ * const session = claudeCode.session('sonnet');
+ *
+ * await generateText({ model: session, prompt: 'Remember the number 42.' });
+ * const { text } = await generateText({ model: session, prompt: 'What number?' });
+ *
+ * const branch = session.fork();
+ * session.close();
+ * ```
+ */
+export class ClaudeCodeSession implements LanguageModelV3 {
+  readonly specificationVersion = 'v3' as const;
+
+  private readonly model: ClaudeCodeLanguageModel;
+  private currentSessionId?: string;
+  private pendingFork: boolean;
+  private isClosed = false;
+  private readonly closeController = new AbortController();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: ClaudeCodeSessionOptions) {
+    this.model = options.model;
+    this.currentSessionId = options.sessionId;
+    this.pendingFork = Boolean(options.fork && options.sessionId);
+  }
+
+  get provider(): string {
+    return this.model.provider;
+  }
+
+  get modelId(): string {
+    return this.model.modelId;
+  }
+
+  get supportedUrls(): LanguageModelV3['supportedUrls'] {
+    return this.model.supportedUrls;
+  }
+
+  /**
+   * Session ID the next request resumes, or undefined if it starts a new session.
+   */
+  get sessionId(): string | undefined {
+    return this.currentSessionId;
+  }
+
+  /**
+   * Whether `close()` has been called.
+   */
+  get closed(): boolean {
+    return this.isClosed;
+  }
+
+  /**
+   * Switches the handle to an existing session. The next request resumes it.
+   */
+  resume(sessionId: string): this {
+    this.assertOpen();
+    if (typeof sessionId !== 'string' || sessionId.trim() === '') {
+      throw new Error('Session ID cannot be empty');
+    }
+    this.currentSessionId = sessionId;
+    this.pendingFork = false;
+    return this;
+  }
+
+  /**
+   * Creates a new handle that branches off the current session. Its first request
+   * resumes the current session with `forkSession`, so the original is left untouched.
+   */
+  fork(): ClaudeCodeSession {
+    this.assertOpen();
+    return new ClaudeCodeSession({
+      model: this.model,
+      sessionId: this.currentSessionId,
+      fork: true,
+    });
+  }
+
+  /**
+   * Forgets the current session. The next request starts a new one.
+   */
+  reset(): this {
+    this.assertOpen();
+    this.currentSessionId = undefined;
+    this.pendingFork = false;
+    return this;
+  }
+
+  /**
+   * Closes the handle. Requests in flight are aborted and new requests are rejected.
+   */
+  close(): void {
+    if (this.isClosed) {
+      return;
+    }
+    this.isClosed = true;
+    this.closeController.abort(new Error('Claude Code session has been closed'));
+  }
+
+  async doGenerate(
+    options: CallOptions
+  ): Promise<Awaited<ReturnType<LanguageModelV3['doGenerate']>>> {
+    const { release, callOptions, dispose } = await this.begin(options);
+    try {
+      const result = await this.model.doGenerate(callOptions);
+      this.recordSession(result.providerMetadata);
+      return result;
+    } finally {
+      dispose();
+      release();
+    }
+  }
+
+  async doStream(options: CallOptions): Promise<Awaited<ReturnType<LanguageModelV3['doStream']>>> {
+    const { release, callOptions, dispose } = await this.begin(options);
+    let result: Awaited<ReturnType<LanguageModelV3['doStream']>>;
+    try {
+      result = await this.model.doStream(callOptions);
+    } catch (error) {
+      dispose();
+      release();
+      throw error;
+    }
+
+    const reader = result.stream.getReader();
+    const finish = () => {
+      dispose();
+      release();
+    };
+
+    const stream = new ReadableStream<LanguageModelV3StreamPart>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            finish();
+            controller.close();
+            return;
+          }
+          if (value.type === 'response-metadata' && value.id) {
+            // The stream reports the session ID as soon as the session is initialized
+            this.recordSessionId(value.id);
+          } else if (value.type === 'finish') {
+            this.recordSession(value.providerMetadata);
+          }
+          controller.enqueue(value);
+        } catch (error) {
+          finish();
+          controller.error(error);
+        }
+      },
+      cancel: async (reason) => {
+        finish();
+        await reader.cancel(reason);
+      },
+    });
+
+    return { ...result, stream };
+  }
+
+  private assertOpen(): void {
+    if (this.isClosed) {
+      throw new Error('Claude Code session has been closed');
+    }
+  }
+
+  /**
+   * Waits for earlier calls on this handle to finish, then builds call options that
+   * select the current session and abort when the handle is closed.
+   */
+  private async begin(options: CallOptions): Promise<{
+    release: () => void;
+    callOptions: CallOptions;
+    dispose: () => void;
+  }> {
+    this.assertOpen();
+
+    const previous = this.queue;
+    let releaseQueue!: () => void;
+    this.queue = new Promise<void>((resolve) => {
+      releaseQueue = resolve;
+    });
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        releaseQueue();
+      }
+    };
+
+    await previous;
+    if (this.isClosed) {
+      release();
+      throw new Error('Claude Code session has been closed');
+    }
+
+    const abortController = new AbortController();
+    const abort = (signal: AbortSignal) => () => abortController.abort(signal.reason);
+    const signals = [options.abortSignal, this.closeController.signal].filter(
+      (signal): signal is AbortSignal => signal !== undefined
+    );
+    const listeners = signals.map((signal) => {
+      const listener = abort(signal);
+      if (signal.aborted) {
+        listener();
+      } else {
+        signal.addEventListener('abort', listener, { once: true });
+      }
+      return { signal, listener };
+    });
+    const dispose = () => {
+      listeners.forEach(({ signal, listener }) => signal.removeEventListener('abort', listener));
+    };
+
+    const claudeCodeOptions = {
+      ...options.providerOptions?.['claude-code'],
+      ...(this.currentSessionId !== undefined && { sessionId: this.currentSessionId }),
+      ...(this.pendingFork && { forkSession: true }),
+    };
+    const providerOptions: SharedV3ProviderOptions = {
+      ...options.providerOptions,
+      'claude-code': claudeCodeOptions,
+    };
+
+    return {
+      release,
+      dispose,
+      callOptions: { ...options, abortSignal: abortController.signal, providerOptions },
+    };
+  }
+
+  private recordSession(providerMetadata: SharedV3ProviderMetadata | undefined): void {
+    const sessionId = providerMetadata?.['claude-code']?.sessionId;
+    if (typeof sessionId === 'string') {
+      this.recordSessionId(sessionId);
+    }
+  }
+
+  private recordSessionId(sessionId: string): void {
+    if (this.isClosed || sessionId.length === 0) {
+      return;
+    }
+    this.currentSessionId = sessionId;
+    this.pendingFork = false;
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { ModelMessage } from 'ai';
+import { convertToClaudeCodeMessages } from './convert-to-claude-code-messages.js';
+
+const base64 = (text: string) => Buffer.from(text, 'utf8').toString('base64');
+
+describe('convertToClaudeCodeMessages (documents)', () => {
+  it('converts PDF file parts into base64 document blocks', () => {
+    const prompt = [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Summarize this contract.' },
+          {
+            type: 'file',
+            mediaType: 'application/pdf',
+            data: new Uint8Array([0x25, 0x50, 0x44, 0x46]),
+            filename: 'contract.pdf',
+          },
+        ],
+      },
+    ] as ModelMessage[];
+
+    const result = convertToClaudeCodeMessages(prompt);
+
+    expect(result.warnings).toBeUndefined();
+    expect(result.hasDocumentParts).toBe(true);
+    expect(result.hasImageParts).toBe(false);
+    expect(result.streamingContentParts).toEqual([
+      { type: 'text', text: 'Human: Summarize this contract.' },
+      {
+        type: 'document',
+        source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERg==' },
+        title: 'contract.pdf',
+      },
+    ]);
+  });
+
+  it('decodes text and markdown file parts into plain text documents', () => {
+    const prompt = [
+      {
+        role: 'user',
+        content: [
+          { type: 'file', mediaType: 'text/plain', data: base64('Plain notes') },
+          {
+            type: 'file',
+            mediaType: 'text/markdown; charset=utf-8',
+            data: `data:text/markdown;base64,${base64('# Spec\n\nÜber alles')}`,
+            filename: 'spec.md',
+          },
+          { type: 'text', text: 'Compare them.' },
+        ],
+      },
+    ] as ModelMessage[];
+
+    const result = convertToClaudeCodeMessages(prompt);
+
+    expect(result.warnings).toBeUndefined();
+    expect(result.streamingContentParts.slice(1)).toEqual([
+      { type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'Plain notes' } },
+      {
+        type: 'document',
+        source: { type: 'text', media_type: 'text/plain', data: '# Spec\n\nÜber alles' },
+        title: 'spec.md',
+      },
+    ]);
+  });
+
+  it('reads title, context and citations from provider options', () => {
+    const prompt = [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'file',
+            mediaType: 'application/json',
+            data: base64('{"a":1}'),
+            filename: 'data.json',
+            providerOptions: {
+              'claude-code': { title: 'Config', context: 'Production', citations: true },
+            },
+          },
+        ],
+      },
+    ] as ModelMessage[];
+
+    const result = convertToClaudeCodeMessages(prompt, { historyFormat: 'structured' });
+
+    expect(result.hasDocumentParts).toBe(true);
+    expect(result.streamingContentParts).toEqual([
+      {
+        type: 'document',
+        source: { type: 'text', media_type: 'text/plain', data: '{"a":1}' },
+        title: 'Config',
+        context: 'Production',
+        citations: { enabled: true },
+      },
+    ]);
+  });
+
+  it('warns about document URLs and empty data', () => {
+    const prompt = [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Read these.' },
+          {
+            type: 'file',
+            mediaType: 'application/pdf',
+            data: new URL('https://example.com/a.pdf'),
+          },
+          { type: 'file', mediaType: 'text/plain', data: '' },
+        ],
+      },
+    ] as ModelMessage[];
+
+    const result = convertToClaudeCodeMessages(prompt);
+
+    expect(result.hasDocumentParts).toBe(false);
+    expect(result.warnings).toEqual([
+      'File URLs are not supported by this provider; supply base64/data URLs.',
+      'Unable to convert document content; supply base64/data URLs.',
+    ]);
+  });
+});
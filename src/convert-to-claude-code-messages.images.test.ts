@@ -101,4 +101,105 @@ describe('convertToClaudeCodeMessages (images)', () => {
       },
     });
   });
+
+  describe('tool results', () => {
+    const screenshotLoop = [
+      { role: 'user', content: 'Open the page' },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'call_1', toolName: 'screenshot', input: {} }],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call_1',
+            toolName: 'screenshot',
+            output: {
+              type: 'content',
+              value: [
+                { type: 'text', text: 'Captured' },
+                { type: 'image-data', data: 'aGVsbG8=', mediaType: 'image/png' },
+              ],
+            },
+          },
+        ],
+      },
+      { role: 'user', content: 'What do you see?' },
+    ] as ModelMessage[];
+
+    const screenshot = {
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'aGVsbG8=' },
+    };
+
+    it('attaches tool result images after the result in the transcript', () => {
+      const result = convertToClaudeCodeMessages(screenshotLoop);
+
+      expect(result.hasImageParts).toBe(true);
+      expect(result.streamingContentParts).toEqual([
+        {
+          type: 'text',
+          text: 'Human: Open the page\n\nAssistant: \n[Tool calls made]\n\nTool Result (screenshot, id: call_1): Captured',
+        },
+        screenshot,
+        { type: 'text', text: '\n\nHuman: What do you see?' },
+      ]);
+    });
+
+    it('attaches tool result images after the result in structured history', () => {
+      const result = convertToClaudeCodeMessages(screenshotLoop, { historyFormat: 'structured' });
+
+      expect(result.streamingContentParts).toEqual([
+        {
+          type: 'text',
+          text: [
+            '<conversation_history>',
+            '<message role="user">',
+            'Open the page',
+            '</message>',
+            '<message role="tool">',
+            'The screenshot tool (call call_1) was called with {} and returned:',
+            'Captured',
+          ].join('\n'),
+        },
+        screenshot,
+        {
+          type: 'text',
+          text: '\n</message>\n</conversation_history>\n\nWhat do you see?',
+        },
+      ]);
+    });
+
+    it('converts legacy media parts and warns about URLs', () => {
+      const result = convertToClaudeCodeMessages([
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_2',
+              toolName: 'browser',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'media', data: 'aGVsbG8=', mediaType: 'image/png' },
+                  { type: 'image-url', url: 'https://example.com/a.png' },
+                ],
+              },
+            },
+          ],
+        },
+      ] as ModelMessage[]);
+
+      expect(result.streamingContentParts).toEqual([
+        { type: 'text', text: 'Tool Result (browser, id: call_2): ' },
+        screenshot,
+      ]);
+      expect(result.warnings).toEqual([
+        'Image URLs are not supported by this provider; supply base64/data URLs.',
+      ]);
+    });
+  });
 });
@@ -82,13 +82,16 @@ describe('convertToClaudeCodeMessages', () => {
         role: 'user',
         content: [
           { type: 'text', text: 'Check this file:' },
-          { type: 'file', data: 'data:text/plain;base64,AQID', mimeType: 'text/plain' },
+          { type: 'file', data: 'AQID', mediaType: 'application/zip' },
         ],
       },
     ] as any);
 
-    // Unknown content types are filtered out
+    // Unsupported file types are filtered out with a warning
     expect(result.messagesPrompt).toBe('Human: Check this file:');
+    expect(result.warnings).toEqual([
+      'Unsupported file type application/zip; supply images, PDFs or text documents.',
+    ]);
   });
 
   it('should convert tool messages', () => {
@@ -106,7 +109,7 @@ describe('convertToClaudeCodeMessages', () => {
       },
     ] as any);
 
-    expect(result.messagesPrompt).toBe('Tool Result (calculator): {"answer":42}');
+    expect(result.messagesPrompt).toBe('Tool Result (calculator, id: call-123): {"answer":42}');
   });
 
   it('should handle tool error messages', () => {
@@ -124,7 +127,7 @@ describe('convertToClaudeCodeMessages', () => {
       },
     ] as any);
 
-    expect(result.messagesPrompt).toBe('Tool Result (search): Network error');
+    expect(result.messagesPrompt).toBe('Tool Result (search, id: call-456): Network error');
   });
 
   it('should handle empty content array', () => {
@@ -174,7 +177,7 @@ describe('convertToClaudeCodeMessages', () => {
     ] as any);
 
     expect(result.messagesPrompt).toBe(
-      'Tool Result (database): {"users":[{"id":1,"name":"Alice"},{"id":2,"name":"Bob"}],"count":2}'
+      'Tool Result (database, id: call-789): {"users":[{"id":1,"name":"Alice"},{"id":2,"name":"Bob"}],"count":2}'
     );
   });
 
@@ -191,3 +194,174 @@ describe('convertToClaudeCodeMessages', () => {
     );
   });
 });
+
+describe('convertToClaudeCodeMessages with structured history', () => {
+  it('sends a single user message without transcript prefixes', () => {
+    const result = convertToClaudeCodeMessages(
+      [{ role: 'user', content: 'Hello, Claude!' }] as ModelMessage[],
+      { historyFormat: 'structured' }
+    );
+
+    expect(result.messagesPrompt).toBe('Hello, Claude!');
+    expect(result.streamingContentParts).toEqual([{ type: 'text', text: 'Hello, Claude!' }]);
+  });
+
+  it('describes tool results with the call id and input of their call, without tool markup', () => {
+    const result = convertToClaudeCodeMessages(
+      [
+        { role: 'system', content: 'Be helpful.' },
+        { role: 'user', content: 'Weather in Paris?' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me check.' },
+            {
+              type: 'tool-call',
+              toolCallId: 'call_1',
+              toolName: 'getWeather',
+              input: { city: 'Paris' },
+            },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'getWeather',
+              output: { type: 'json', value: { temp: 21 } },
+            },
+          ],
+        },
+        { role: 'user', content: 'And London?' },
+      ] as ModelMessage[],
+      { historyFormat: 'structured' }
+    );
+
+    expect(result.systemPrompt).toBe('Be helpful.');
+    expect(result.messagesPrompt).toBe(
+      [
+        'Be helpful.',
+        '',
+        '<conversation_history>',
+        '<message role="user">',
+        'Weather in Paris?',
+        '</message>',
+        '<message role="assistant">',
+        'Let me check.',
+        '</message>',
+        '<message role="tool">',
+        'The getWeather tool (call call_1) was called with {"city":"Paris"} and returned:',
+        '{"temp":21}',
+        '</message>',
+        '</conversation_history>',
+        '',
+        'And London?',
+      ].join('\n')
+    );
+    expect(result.messagesPrompt).not.toContain('[Tool calls made]');
+    expect(result.messagesPrompt).not.toContain('Human:');
+    expect(result.messagesPrompt).not.toMatch(/<tool_(call|result)/);
+  });
+
+  it('marks error results and asks to continue when the prompt ends with tool results', () => {
+    const result = convertToClaudeCodeMessages(
+      [
+        { role: 'user', content: 'Run it' },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool-call', toolCallId: 'c1', toolName: 'run', input: {} }],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'c1',
+              toolName: 'run',
+              output: { type: 'error-text', value: 'boom' },
+            },
+          ],
+        },
+      ] as ModelMessage[],
+      { historyFormat: 'structured' }
+    );
+
+    expect(result.messagesPrompt).toContain(
+      '<message role="user">\nRun it\n</message>\n<message role="tool">\nThe run tool (call c1) was called with {} and failed:\nboom\n</message>'
+    );
+    expect(result.messagesPrompt).toMatch(
+      /<\/conversation_history>\n\nContinue the conversation from where the history above leaves off\.$/
+    );
+  });
+
+  it('lists tool calls without a result in the assistant turn that made them', () => {
+    const result = convertToClaudeCodeMessages(
+      [
+        { role: 'user', content: 'Search twice' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Searching.' },
+            { type: 'tool-call', toolCallId: 'c1', toolName: 'search', input: { q: 'a' } },
+            { type: 'tool-call', toolCallId: 'c2', toolName: 'search', input: { q: 'b' } },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'c1',
+              toolName: 'search',
+              output: { type: 'text', value: 'found a' },
+            },
+          ],
+        },
+        { role: 'user', content: 'Go on' },
+      ] as ModelMessage[],
+      { historyFormat: 'structured' }
+    );
+
+    expect(result.messagesPrompt).toContain(
+      [
+        '<message role="assistant">',
+        'Searching.',
+        'The search tool (call c2) was called with {"q":"b"} and has no result.',
+        '</message>',
+        '<message role="tool">',
+        'The search tool (call c1) was called with {"q":"a"} and returned:',
+        'found a',
+        '</message>',
+      ].join('\n')
+    );
+  });
+
+  it('keeps images next to the turn they belong to', () => {
+    const result = convertToClaudeCodeMessages(
+      [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image', image: 'data:image/png;base64,aGVsbG8=' },
+          ],
+        },
+        { role: 'assistant', content: 'A greeting.' },
+        { role: 'user', content: 'Thanks' },
+      ] as ModelMessage[],
+      { historyFormat: 'structured' }
+    );
+
+    expect(result.hasImageParts).toBe(true);
+    expect(result.streamingContentParts).toEqual([
+      { type: 'text', text: '<conversation_history>\n<message role="user">\nWhat is this?' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aGVsbG8=' } },
+      {
+        type: 'text',
+        text: '\n</message>\n<message role="assistant">\nA greeting.\n</message>\n</conversation_history>\n\nThanks',
+      },
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
-import type { ModelMessage } from 'ai';
+import type { ModelMessage, ToolCallPart, ToolResultPart, UserModelMessage } from 'ai';
 import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { HistoryFormat } from './types.js';
 
 type SDKUserContentPart = SDKUserMessage['message']['content'][number];
 
@@ -9,6 +10,16 @@ interface StreamingSegment {
 
 const IMAGE_URL_WARNING = 'Image URLs are not supported by this provider; supply base64/data URLs.';
 const IMAGE_CONVERSION_WARNING = 'Unable to convert image content; supply base64/data URLs.';
+const FILE_URL_WARNING = 'File URLs are not supported by this provider; supply base64/data URLs.';
+const DOCUMENT_CONVERSION_WARNING = 'Unable to convert document content; supply base64/data URLs.';
+
+// Non-`text/*` MIME types that are sent as plain text documents
+const TEXT_DOCUMENT_MIME_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+]);
 
 function normalizeBase64(base64: string): string {
   return base64.replace(/\s+/g, '');
@@ -36,6 +47,57 @@ function createImageContent(mediaType: string, data: string): SDKUserContentPart
   } as SDKUserContentPart;
 }
 
+function isTextDocumentMimeType(mimeType: string): boolean {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/') || TEXT_DOCUMENT_MIME_TYPES.has(type);
+}
+
+function isPdfMimeType(mimeType: string): boolean {
+  return mimeType.split(';')[0].trim().toLowerCase() === 'application/pdf';
+}
+
+/**
+ * Document options read from `providerOptions['claude-code']` of a file part.
+ */
+type DocumentOptions = {
+  title?: string;
+  context?: string;
+  citations?: boolean;
+};
+
+function createDocumentContent(
+  source:
+    | { type: 'base64'; media_type: 'application/pdf'; data: string }
+    | {
+        type: 'text';
+        media_type: 'text/plain';
+        data: string;
+      },
+  { title, context, citations }: DocumentOptions
+): SDKUserContentPart {
+  return {
+    type: 'document',
+    source,
+    ...(title && { title }),
+    ...(context && { context }),
+    ...(citations !== undefined && { citations: { enabled: citations } }),
+  } as SDKUserContentPart;
+}
+
+export function decodeBase64(base64: string): Uint8Array | undefined {
+  try {
+    if (typeof Buffer !== 'undefined') {
+      return new Uint8Array(Buffer.from(base64, 'base64'));
+    }
+    if (typeof atob === 'function') {
+      return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+    }
+  } catch {
+    // Invalid base64 is reported as a conversion warning by the caller
+  }
+  return undefined;
+}
+
 function extractMimeType(candidate: unknown): string | undefined {
   if (typeof candidate === 'string' && candidate.trim()) {
     return candidate.trim();
@@ -111,7 +173,7 @@ function parseImagePart(part: unknown): { content?: SDKUserContentPart; warning?
   return { warning: IMAGE_CONVERSION_WARNING };
 }
 
-function convertBinaryToBase64(data: Uint8Array | ArrayBuffer): string | undefined {
+export function convertBinaryToBase64(data: Uint8Array | ArrayBuffer): string | undefined {
   if (typeof Buffer !== 'undefined') {
     const buffer =
       data instanceof Uint8Array ? Buffer.from(data) : Buffer.from(new Uint8Array(data));
@@ -136,12 +198,94 @@ type FileLikePart = {
   mediaType?: unknown;
   mimeType?: unknown;
   data?: unknown;
+  filename?: unknown;
+  providerOptions?: { 'claude-code'?: Record<string, unknown> };
 };
 
+function readDocumentOptions(part: FileLikePart): DocumentOptions {
+  const options = part.providerOptions?.['claude-code'] ?? {};
+  const title = options.title ?? part.filename;
+  return {
+    ...(typeof title === 'string' && { title }),
+    ...(typeof options.context === 'string' && { context: options.context }),
+    ...(typeof options.citations === 'boolean' && { citations: options.citations }),
+  };
+}
+
+/**
+ * Returns the bytes of file data given as base64, a data URL or binary data.
+ * URLs are not fetched and yield undefined.
+ */
+function readFileData(data: unknown): Uint8Array | undefined {
+  if (typeof data === 'string') {
+    const trimmed = data.trim();
+    const dataUrlMatch = trimmed.match(/^data:[^,]*;base64,(.*)$/is);
+    return decodeBase64(normalizeBase64(dataUrlMatch ? dataUrlMatch[1] : trimmed));
+  }
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (typeof ArrayBuffer !== 'undefined' && data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  return undefined;
+}
+
+function isFileUrl(data: unknown): boolean {
+  return (
+    (typeof URL !== 'undefined' && data instanceof URL) ||
+    (typeof data === 'string' && /^https?:\/\//i.test(data.trim()))
+  );
+}
+
+/**
+ * Converts PDF and text file parts into document blocks. Text documents are decoded as
+ * UTF-8 and sent as plain text. The part's `filename` becomes the document title;
+ * `providerOptions['claude-code']` can set `title`, `context` and `citations`.
+ */
+function parseDocumentPart(
+  part: FileLikePart,
+  mimeType: string
+): { content?: SDKUserContentPart; warning?: string } {
+  if (isFileUrl(part.data)) {
+    return { warning: FILE_URL_WARNING };
+  }
+
+  const bytes = readFileData(part.data);
+  if (!bytes || bytes.length === 0) {
+    return { warning: DOCUMENT_CONVERSION_WARNING };
+  }
+
+  const options = readDocumentOptions(part);
+  if (isPdfMimeType(mimeType)) {
+    const data = convertBinaryToBase64(bytes);
+    return data
+      ? {
+          content: createDocumentContent(
+            { type: 'base64', media_type: 'application/pdf', data },
+            options
+          ),
+        }
+      : { warning: DOCUMENT_CONVERSION_WARNING };
+  }
+
+  return {
+    content: createDocumentContent(
+      { type: 'text', media_type: 'text/plain', data: new TextDecoder().decode(bytes) },
+      options
+    ),
+  };
+}
+
 function parseFilePart(part: FileLikePart): { content?: SDKUserContentPart; warning?: string } {
   const mimeType = extractMimeType(part.mediaType ?? part.mimeType);
+  if (mimeType && (isPdfMimeType(mimeType) || isTextDocumentMimeType(mimeType))) {
+    return parseDocumentPart(part, mimeType);
+  }
   if (!mimeType || !isImageMimeType(mimeType)) {
-    return {};
+    return {
+      warning: `Unsupported file type ${mimeType ?? '(unknown)'}; supply images, PDFs or text documents.`,
+    };
   }
 
   const data = part.data;
@@ -165,11 +309,293 @@ function parseFilePart(part: FileLikePart): { content?: SDKUserContentPart; warn
   return { warning: IMAGE_CONVERSION_WARNING };
 }
 
+function formatToolResultOutput(output: ToolResultPart['output']): string {
+  if (output.type === 'text' || output.type === 'error-text') {
+    return output.value;
+  }
+  if (output.type === 'json' || output.type === 'error-json') {
+    return JSON.stringify(output.value);
+  }
+  if (output.type === 'execution-denied') {
+    return `[Execution denied${output.reason ? `: ${output.reason}` : ''}]`;
+  }
+  if (output.type === 'content') {
+    // Media parts are sent as content blocks by parseToolResultMedia
+    return output.value
+      .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+      .map((part) => part.text)
+      .join('\n');
+  }
+  return '[Unknown output type]';
+}
+
+/**
+ * Converts the media of a `content` tool result output (e.g. screenshots returned by a
+ * client tool) into image and document blocks, in their original order. The text parts
+ * are rendered by `formatToolResultOutput`.
+ */
+function parseToolResultMedia(output: ToolResultPart['output']): {
+  media: SDKUserContentPart[];
+  warnings: string[];
+} {
+  const media: SDKUserContentPart[] = [];
+  const warnings: string[] = [];
+  if (output.type !== 'content') {
+    return { media, warnings };
+  }
+
+  for (const part of output.value) {
+    if (part.type === 'text') {
+      continue;
+    }
+    if (part.type === 'media' || part.type === 'image-data' || part.type === 'file-data') {
+      const { content, warning } = parseFilePart(part);
+      if (content) {
+        media.push(content);
+      } else if (warning) {
+        warnings.push(warning);
+      }
+    } else if (part.type === 'image-url') {
+      warnings.push(IMAGE_URL_WARNING);
+    } else if (part.type === 'file-url') {
+      warnings.push(FILE_URL_WARNING);
+    } else {
+      warnings.push(
+        `Unsupported tool result content type ${part.type}; supply base64 image or file data.`
+      );
+    }
+  }
+  return { media, warnings };
+}
+
+function isErrorToolResultOutput(output: ToolResultPart['output']): boolean {
+  return output.type === 'error-text' || output.type === 'error-json';
+}
+
+function formatToolInput(input: unknown): string {
+  return typeof input === 'string' ? input : JSON.stringify(input ?? {});
+}
+
+/**
+ * Describes a tool result in plain words, naming its call id and, when the call is in the
+ * history, its input. Tool calls get no markup of their own so the model has no call
+ * syntax to imitate.
+ */
+function formatToolResult(part: ToolResultPart, toolInputs: Map<string, unknown>): string {
+  const outcome = isErrorToolResultOutput(part.output) ? 'failed' : 'returned';
+  const output = formatToolResultOutput(part.output);
+  const call = `The ${part.toolName} tool (call ${part.toolCallId})`;
+  if (!toolInputs.has(part.toolCallId)) {
+    return `${call} ${outcome}:\n${output}`;
+  }
+  return `${call} was called with ${formatToolInput(toolInputs.get(part.toolCallId))} and ${outcome}:\n${output}`;
+}
+
+/**
+ * Describes a tool call that has no result anywhere in the history.
+ */
+function formatUnansweredToolCall(part: ToolCallPart): string {
+  return `The ${part.toolName} tool (call ${part.toolCallId}) was called with ${formatToolInput(part.input)} and has no result.`;
+}
+
+const HISTORY_CONTINUATION = 'Continue the conversation from where the history above leaves off.';
+
+/**
+ * Structured variant of the conversion used when `historyFormat: 'structured'` is set.
+ *
+ * This is still a rendering of the history inside one user message, not native turns: the
+ * CLI's streaming input only accepts user-role messages, and assistant turns can only be
+ * carried by resuming the session that produced them. Every prior turn becomes its own
+ * `<message role="...">` block inside a `<conversation_history>` section. Assistant turns
+ * keep their text. Tool results are described in plain words with the call id and input of
+ * their call, and calls without a result are listed in the assistant turn that made them.
+ * Images and documents stay in place as content blocks. The latest user message follows
+ * the history unmodified.
+ */
+function convertToStructuredMessages(prompt: readonly ModelMessage[]): {
+  messagesPrompt: string;
+  systemPrompt?: string;
+  warnings?: string[];
+  streamingContentParts: SDKUserMessage['message']['content'];
+  hasImageParts: boolean;
+  hasDocumentParts: boolean;
+} {
+  const warnings: string[] = [];
+  const parts: SDKUserContentPart[] = [];
+  let pendingText = '';
+  let promptText = '';
+  let hasImageParts = false;
+  let hasDocumentParts = false;
+
+  const appendText = (text: string): void => {
+    pendingText += text;
+    promptText += text;
+  };
+
+  const flushText = (): void => {
+    if (pendingText) {
+      parts.push({ type: 'text', text: pendingText });
+      pendingText = '';
+    }
+  };
+
+  const appendMedia = (content: SDKUserContentPart): void => {
+    flushText();
+    parts.push(content);
+    if (content.type === 'document') {
+      hasDocumentParts = true;
+    } else {
+      hasImageParts = true;
+    }
+  };
+
+  const appendUserContent = (content: UserModelMessage['content']): void => {
+    if (typeof content === 'string') {
+      appendText(content);
+      return;
+    }
+
+    let previousWasText = false;
+    for (const part of content) {
+      if (part.type === 'text') {
+        appendText(previousWasText ? `\n${part.text}` : part.text);
+        previousWasText = true;
+        continue;
+      }
+
+      const { content: media, warning } =
+        part.type === 'image' ? parseImagePart(part) : parseFilePart(part);
+      if (media) {
+        appendMedia(media);
+        previousWasText = false;
+      } else if (warning) {
+        warnings.push(warning);
+      }
+    }
+  };
+
+  const systemPrompts: string[] = [];
+  const conversation = prompt.filter((message) => {
+    if (message.role === 'system') {
+      if (message.content.trim().length > 0) {
+        systemPrompts.push(message.content);
+      }
+      return false;
+    }
+    return true;
+  });
+
+  const toolInputs = new Map<string, unknown>();
+  const answeredToolCalls = new Set<string>();
+  for (const message of conversation) {
+    if (typeof message.content === 'string') {
+      continue;
+    }
+    for (const part of message.content) {
+      if (part.type === 'tool-call') {
+        toolInputs.set(part.toolCallId, part.input);
+      } else if (part.type === 'tool-result') {
+        answeredToolCalls.add(part.toolCallId);
+      }
+    }
+  }
+
+  const lastMessage = conversation[conversation.length - 1];
+  const currentMessage = lastMessage?.role === 'user' ? lastMessage : undefined;
+  const history = currentMessage ? conversation.slice(0, -1) : conversation;
+
+  if (systemPrompts.length > 0) {
+    appendText(systemPrompts.join('\n\n'));
+  }
+
+  if (history.length > 0) {
+    appendText(`${promptText ? '\n\n' : ''}<conversation_history>`);
+
+    for (const message of history) {
+      switch (message.role) {
+        case 'user':
+          appendText('\n<message role="user">\n');
+          appendUserContent(message.content);
+          appendText('\n</message>');
+          break;
+
+        case 'assistant': {
+          const lines: string[] = [];
+          if (typeof message.content === 'string') {
+            lines.push(message.content);
+          } else {
+            for (const part of message.content) {
+              if (part.type === 'text') {
+                lines.push(part.text);
+              } else if (part.type === 'tool-call' && !answeredToolCalls.has(part.toolCallId)) {
+                lines.push(formatUnansweredToolCall(part));
+              } else if (part.type === 'tool-result') {
+                // Provider-executed tool results are part of the assistant turn
+                lines.push(formatToolResult(part, toolInputs));
+              }
+            }
+          }
+          if (lines.length > 0) {
+            appendText(`\n<message role="assistant">\n${lines.join('\n')}\n</message>`);
+          }
+          break;
+        }
+
+        case 'tool': {
+          const results = message.content.filter(
+            (part): part is ToolResultPart => part.type === 'tool-result'
+          );
+          if (results.length === 0) {
+            break;
+          }
+          appendText('\n<message role="tool">');
+          for (const result of results) {
+            appendText(`\n${formatToolResult(result, toolInputs)}`);
+            // Images returned by the tool follow its result
+            const { media, warnings: mediaWarnings } = parseToolResultMedia(result.output);
+            media.forEach(appendMedia);
+            warnings.push(...mediaWarnings);
+          }
+          appendText('\n</message>');
+          break;
+        }
+      }
+    }
+
+    appendText('\n</conversation_history>');
+  }
+
+  if (currentMessage) {
+    if (promptText) {
+      appendText('\n\n');
+    }
+    appendUserContent(currentMessage.content);
+  } else if (history.length > 0) {
+    appendText(`\n\n${HISTORY_CONTINUATION}`);
+  }
+
+  flushText();
+
+  return {
+    messagesPrompt: promptText,
+    systemPrompt: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined,
+    ...(warnings.length > 0 && { warnings }),
+    streamingContentParts:
+      parts.length > 0
+        ? (parts as SDKUserMessage['message']['content'])
+        : ([{ type: 'text', text: promptText }] as SDKUserMessage['message']['content']),
+    hasImageParts,
+    hasDocumentParts,
+  };
+}
+
 /**
  * Converts AI SDK prompt format to Claude Code SDK message format.
  * Handles system prompts, user messages, assistant responses, and tool interactions.
  *
  * @param prompt - The AI SDK prompt containing messages
+ * @param options.historyFormat - 'structured' renders each turn as its own block and describes
+ *   tool results with the call id and input of their call
  * @returns An object containing the formatted message prompt and optional system prompt
  *
  * @example
@@ -180,35 +606,51 @@ function parseFilePart(part: FileLikePart): { content?: SDKUserContentPart; warn
  * ```
  *
  * @remarks
- * - Image parts are collected for streaming input; unsupported variants produce warnings
- * - Tool calls are simplified to "[Tool calls made]" notation
+ * - Image parts and PDF/text file parts (as document blocks) are collected for streaming
+ *   input; unsupported variants produce warnings
+ * - Images and files in tool results are attached right after the result they belong to
+ * - In the default transcript format, tool calls are simplified to "[Tool calls made]" notation
+ *   and tool results are labeled with their tool name and call id
  * - JSON schema enforcement is handled natively by the SDK's outputFormat option (v0.1.45+)
  */
-export function convertToClaudeCodeMessages(prompt: readonly ModelMessage[]): {
+export function convertToClaudeCodeMessages(
+  prompt: readonly ModelMessage[],
+  options: { historyFormat?: HistoryFormat } = {}
+): {
   messagesPrompt: string;
   systemPrompt?: string;
   warnings?: string[];
   streamingContentParts: SDKUserMessage['message']['content'];
   hasImageParts: boolean;
+  hasDocumentParts: boolean;
 } {
+  if (options.historyFormat === 'structured') {
+    return convertToStructuredMessages(prompt);
+  }
+
   const messages: string[] = [];
   const warnings: string[] = [];
   let systemPrompt: string | undefined;
   const streamingSegments: StreamingSegment[] = [];
-  const imageMap = new Map<number, SDKUserContentPart[]>();
+  const mediaMap = new Map<number, SDKUserContentPart[]>();
   let hasImageParts = false;
+  let hasDocumentParts = false;
 
   const addSegment = (formatted: string): number => {
     streamingSegments.push({ formatted });
     return streamingSegments.length - 1;
   };
 
-  const addImageForSegment = (segmentIndex: number, content: SDKUserContentPart): void => {
-    hasImageParts = true;
-    if (!imageMap.has(segmentIndex)) {
-      imageMap.set(segmentIndex, []);
+  const addMediaForSegment = (segmentIndex: number, content: SDKUserContentPart): void => {
+    if (content.type === 'document') {
+      hasDocumentParts = true;
+    } else {
+      hasImageParts = true;
     }
-    imageMap.get(segmentIndex)?.push(content);
+    if (!mediaMap.has(segmentIndex)) {
+      mediaMap.set(segmentIndex, []);
+    }
+    mediaMap.get(segmentIndex)?.push(content);
   };
 
   for (const message of prompt) {
@@ -243,14 +685,14 @@ export function convertToClaudeCodeMessages(prompt: readonly ModelMessage[]): {
             if (part.type === 'image') {
               const { content, warning } = parseImagePart(part);
               if (content) {
-                addImageForSegment(segmentIndex, content);
+                addMediaForSegment(segmentIndex, content);
               } else if (warning) {
                 warnings.push(warning);
               }
             } else if (part.type === 'file') {
               const { content, warning } = parseFilePart(part);
               if (content) {
-                addImageForSegment(segmentIndex, content);
+                addMediaForSegment(segmentIndex, content);
               } else if (warning) {
                 warnings.push(warning);
               }
@@ -293,27 +735,14 @@ export function convertToClaudeCodeMessages(prompt: readonly ModelMessage[]): {
           if (tool.type === 'tool-approval-response') {
             continue; // Skip approval responses
           }
-          // Handle different ToolResultOutput types
-          let resultText: string;
-          const output = tool.output;
-          if (output.type === 'text' || output.type === 'error-text') {
-            resultText = output.value;
-          } else if (output.type === 'json' || output.type === 'error-json') {
-            resultText = JSON.stringify(output.value);
-          } else if (output.type === 'execution-denied') {
-            resultText = `[Execution denied${output.reason ? `: ${output.reason}` : ''}]`;
-          } else if (output.type === 'content') {
-            // Handle content array - extract text parts
-            resultText = output.value
-              .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
-              .map((part) => part.text)
-              .join('\n');
-          } else {
-            resultText = '[Unknown output type]';
-          }
-          const formattedToolResult = `Tool Result (${tool.toolName}): ${resultText}`;
+          const resultText = formatToolResultOutput(tool.output);
+          const formattedToolResult = `Tool Result (${tool.toolName}, id: ${tool.toolCallId}): ${resultText}`;
           messages.push(formattedToolResult);
-          addSegment(formattedToolResult);
+          const segmentIndex = addSegment(formattedToolResult);
+
+          const { media, warnings: mediaWarnings } = parseToolResultMedia(tool.output);
+          media.forEach((content) => addMediaForSegment(segmentIndex, content));
+          warnings.push(...mediaWarnings);
         }
         break;
     }
@@ -355,16 +784,16 @@ export function convertToClaudeCodeMessages(prompt: readonly ModelMessage[]): {
 
   // Build streaming parts including text and images
   const streamingParts: SDKUserContentPart[] = [];
-  const imagePartsInOrder: SDKUserContentPart[] = [];
+  const mediaPartsInOrder: SDKUserContentPart[] = [];
 
-  const appendImagesForIndex = (index: number) => {
-    const images = imageMap.get(index);
+  const appendMediaForIndex = (index: number) => {
+    const images = mediaMap.get(index);
     if (!images) {
       return;
     }
     images.forEach((image) => {
       streamingParts.push(image);
-      imagePartsInOrder.push(image);
+      mediaPartsInOrder.push(image);
     });
   };
 
@@ -391,9 +820,9 @@ export function convertToClaudeCodeMessages(prompt: readonly ModelMessage[]): {
         }
       }
 
-      if (imageMap.has(index)) {
+      if (mediaMap.has(index)) {
         flushText();
-        appendImagesForIndex(index);
+        appendMediaForIndex(index);
       }
     });
 
@@ -412,8 +841,9 @@ export function convertToClaudeCodeMessages(prompt: readonly ModelMessage[]): {
         ? (streamingParts as SDKUserMessage['message']['content'])
         : ([
             { type: 'text', text: finalPrompt },
-            ...imagePartsInOrder,
+            ...mediaPartsInOrder,
           ] as SDKUserMessage['message']['content']),
     hasImageParts,
+    hasDocumentParts,
   };
 }
@@ -6,6 +6,14 @@ import {
   isAuthenticationError,
   isTimeoutError,
   getErrorMetadata,
+  createRateLimitError,
+  createUsageLimitError,
+  createOverloadedError,
+  isRateLimitError,
+  isUsageLimitError,
+  isOverloadedError,
+  classifyLimitError,
+  parseLimitResetTime,
 } from './errors.js';
 import { APICallError, LoadAPIKeyError } from '@ai-sdk/provider';
 
@@ -211,3 +219,75 @@ describe('getErrorMetadata', () => {
     expect(metadata).toBeUndefined();
   });
 });
+
+describe('limit errors', () => {
+  it('creates typed limit errors with reset time in metadata', () => {
+    const resetsAt = new Date('2025-01-05T15:00:00.000Z');
+    const usage = createUsageLimitError({ message: '5-hour limit reached', resetsAt });
+    const rate = createRateLimitError({ message: 'Rate limit reached' });
+    const overloaded = createOverloadedError({ message: 'Overloaded' });
+
+    expect(usage.isRetryable).toBe(false);
+    expect(usage.statusCode).toBe(429);
+    expect(getErrorMetadata(usage)).toMatchObject({
+      code: 'USAGE_LIMIT',
+      resetsAt: '2025-01-05T15:00:00.000Z',
+    });
+    expect(rate.isRetryable).toBe(true);
+    expect(overloaded.statusCode).toBe(529);
+
+    expect(isUsageLimitError(usage)).toBe(true);
+    expect(isRateLimitError(usage)).toBe(false);
+    expect(isRateLimitError(rate)).toBe(true);
+    expect(isOverloadedError(overloaded)).toBe(true);
+    expect(isOverloadedError(new Error('Overloaded'))).toBe(false);
+  });
+
+  it('classifies CLI and API limit messages', () => {
+    expect(classifyLimitError('5-hour limit reached ∙ resets 3pm')?.kind).toBe('usage_limit');
+    expect(classifyLimitError('Opus weekly limit reached')?.kind).toBe('usage_limit');
+    expect(classifyLimitError('API Error: 429 {"type":"rate_limit_error"}')?.kind).toBe(
+      'rate_limit'
+    );
+    expect(classifyLimitError('API Error: 529 {"type":"overloaded_error"}')?.kind).toBe(
+      'overloaded'
+    );
+    expect(classifyLimitError('Something else failed')).toBeUndefined();
+  });
+
+  it('does not classify unrelated messages that mention status codes or overloads', () => {
+    expect(classifyLimitError('SyntaxError: unexpected token at line 429')).toBeUndefined();
+    expect(classifyLimitError('Command failed: exit status 529')).toBeUndefined();
+    expect(classifyLimitError('TypeError: function overloaded with incompatible types')).toBe(
+      undefined
+    );
+    expect(classifyLimitError('Configured rate limit of 10 requests')).toBeUndefined();
+    expect(classifyLimitError('API Error: 500 {"type":"api_error"}')).toBeUndefined();
+  });
+
+  it('classifies bare API error types and HTTP status lines', () => {
+    expect(classifyLimitError('{"type":"error","error":{"type":"overloaded_error"}}')?.kind).toBe(
+      'overloaded'
+    );
+    expect(classifyLimitError('HTTP 429 Too Many Requests')?.kind).toBe('rate_limit');
+  });
+
+  it('parses reset times', () => {
+    const now = new Date(2025, 0, 5, 10, 0, 0);
+
+    expect(parseLimitResetTime('Claude AI usage limit reached|1736089200', now)).toEqual(
+      new Date(1736089200 * 1000)
+    );
+    expect(parseLimitResetTime('5-hour limit reached ∙ resets 3:30pm (UTC)', now)).toEqual(
+      new Date(2025, 0, 5, 15, 30)
+    );
+    // A time earlier than now rolls over to the next day
+    expect(parseLimitResetTime('limit reached ∙ resets 9am', now)).toEqual(
+      new Date(2025, 0, 6, 9, 0)
+    );
+    expect(parseLimitResetTime('Weekly limit reached ∙ resets Jan 8, 12am', now)).toEqual(
+      new Date(2025, 0, 8, 0, 0)
+    );
+    expect(parseLimitResetTime('Usage limit reached', now)).toBeUndefined();
+  });
+});
@@ -28,8 +28,27 @@ export interface ClaudeCodeErrorMetadata {
    * Limited to first 200 characters for debugging.
    */
   promptExcerpt?: string;
+
+  /**
+   * Timeout that was exceeded, in milliseconds. Set on timeout errors.
+   */
+  timeoutMs?: number;
+
+  /**
+   * When the rate or usage limit window resets (ISO 8601), if the CLI reported it.
+   * Set on rate-limit and usage-limit errors.
+   */
+  resetsAt?: string;
 }
 
+/**
+ * Kind of limit reported by the CLI or the API.
+ * - 'rate_limit': API rate limit (HTTP 429)
+ * - 'usage_limit': subscription usage cap (e.g. 5-hour or weekly limit)
+ * - 'overloaded': API overloaded (HTTP 529)
+ */
+export type ClaudeCodeLimitKind = 'rate_limit' | 'usage_limit' | 'overloaded';
+
 /**
  * Creates an APICallError with Claude Code specific metadata.
  * Used for general CLI execution errors.
@@ -126,10 +145,10 @@ export function createTimeoutError({
   promptExcerpt?: string;
   timeoutMs?: number;
 }): APICallError {
-  // Store timeoutMs in metadata for potential use by error handlers
   const metadata: ClaudeCodeErrorMetadata = {
     code: 'TIMEOUT',
     promptExcerpt,
+    ...(timeoutMs !== undefined && { timeoutMs }),
   };
 
   return new APICallError({
@@ -137,7 +156,109 @@ export function createTimeoutError({
     isRetryable: true,
     url: 'claude-code-cli://command',
     requestBodyValues: promptExcerpt ? { prompt: promptExcerpt } : undefined,
-    data: timeoutMs !== undefined ? { ...metadata, timeoutMs } : metadata,
+    data: metadata,
+  });
+}
+
+/**
+ * Creates an APICallError for a request that waited longer than `queueTimeoutMs` for a
+ * free slot under the provider's `maxConcurrency`. The CLI was not started. Retrying would
+ * queue the request again, so the error is not retryable.
+ *
+ * @param options - Error details and metadata
+ * @param options.message - Human-readable error message
+ * @param options.timeoutMs - The queue timeout that was exceeded
+ * @returns An APICallError instance with code 'QUEUE_TIMEOUT'
+ */
+export function createQueueTimeoutError({
+  message,
+  timeoutMs,
+}: {
+  message: string;
+  timeoutMs: number;
+}): APICallError {
+  const metadata: ClaudeCodeErrorMetadata = { code: 'QUEUE_TIMEOUT', timeoutMs };
+
+  return new APICallError({
+    message,
+    isRetryable: false,
+    url: 'claude-code-cli://command',
+    requestBodyValues: undefined,
+    data: metadata,
+  });
+}
+
+/**
+ * Creates an APICallError for an API rate limit (HTTP 429).
+ * Rate limits are short-lived, so the error is marked retryable.
+ *
+ * @param options - Error details and metadata
+ * @param options.message - Human-readable error message
+ * @param options.resetsAt - When the limit resets, if known
+ * @param options.promptExcerpt - Excerpt of the prompt that caused the error
+ * @param options.stderr - Standard error output
+ * @returns An APICallError instance with code 'RATE_LIMIT'
+ */
+export function createRateLimitError(options: LimitErrorOptions): APICallError {
+  return createLimitError(options, 'RATE_LIMIT', 429, true);
+}
+
+/**
+ * Creates an APICallError for a subscription usage cap (e.g. "5-hour limit reached").
+ * Retrying before the window resets cannot succeed, so the error is not retryable;
+ * use `resetsAt` from the metadata to schedule the next attempt.
+ *
+ * @param options - Error details and metadata
+ * @param options.message - Human-readable error message
+ * @param options.resetsAt - When the usage window resets, if known
+ * @param options.promptExcerpt - Excerpt of the prompt that caused the error
+ * @param options.stderr - Standard error output
+ * @returns An APICallError instance with code 'USAGE_LIMIT'
+ */
+export function createUsageLimitError(options: LimitErrorOptions): APICallError {
+  return createLimitError(options, 'USAGE_LIMIT', 429, false);
+}
+
+/**
+ * Creates an APICallError for an overloaded API (HTTP 529). The error is retryable.
+ *
+ * @param options - Error details and metadata
+ * @param options.message - Human-readable error message
+ * @param options.promptExcerpt - Excerpt of the prompt that caused the error
+ * @param options.stderr - Standard error output
+ * @returns An APICallError instance with code 'OVERLOADED'
+ */
+export function createOverloadedError(options: Omit<LimitErrorOptions, 'resetsAt'>): APICallError {
+  return createLimitError(options, 'OVERLOADED', 529, true);
+}
+
+type LimitErrorOptions = {
+  message: string;
+  resetsAt?: Date;
+  promptExcerpt?: string;
+  stderr?: string;
+};
+
+function createLimitError(
+  { message, resetsAt, promptExcerpt, stderr }: LimitErrorOptions,
+  code: string,
+  statusCode: number,
+  isRetryable: boolean
+): APICallError {
+  const metadata: ClaudeCodeErrorMetadata = {
+    code,
+    promptExcerpt,
+    ...(stderr !== undefined && { stderr }),
+    ...(resetsAt !== undefined && { resetsAt: resetsAt.toISOString() }),
+  };
+
+  return new APICallError({
+    message,
+    isRetryable,
+    statusCode,
+    url: 'claude-code-cli://command',
+    requestBodyValues: promptExcerpt ? { prompt: promptExcerpt } : undefined,
+    data: metadata,
   });
 }
 
@@ -190,6 +311,59 @@ export function isTimeoutError(error: unknown): boolean {
   return false;
 }
 
+/**
+ * Checks if an error is a queue timeout (code 'QUEUE_TIMEOUT'): the request waited longer
+ * than `queueTimeoutMs` for a slot and was not started.
+ *
+ * @param error - The error to check
+ * @returns True if the error is a queue timeout
+ */
+export function isQueueTimeoutError(error: unknown): boolean {
+  return getErrorMetadata(error)?.code === 'QUEUE_TIMEOUT';
+}
+
+/**
+ * Checks if an error is an API rate-limit error (code 'RATE_LIMIT').
+ *
+ * @param error - The error to check
+ * @returns True if the error is a rate-limit error
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return getErrorMetadata(error)?.code === 'RATE_LIMIT';
+}
+
+/**
+ * Checks if an error is a subscription usage-limit error (code 'USAGE_LIMIT').
+ *
+ * @param error - The error to check
+ * @returns True if the error is a usage-limit error
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await model.generate(...);
+ * } catch (error) {
+ *   if (isUsageLimitError(error)) {
+ *     const resetsAt = getErrorMetadata(error)?.resetsAt;
+ *     scheduleRetry(resetsAt ? new Date(resetsAt) : undefined);
+ *   }
+ * }
+ * ```
+ */
+export function isUsageLimitError(error: unknown): boolean {
+  return getErrorMetadata(error)?.code === 'USAGE_LIMIT';
+}
+
+/**
+ * Checks if an error is an API overloaded error (code 'OVERLOADED').
+ *
+ * @param error - The error to check
+ * @returns True if the error is an overloaded error
+ */
+export function isOverloadedError(error: unknown): boolean {
+  return getErrorMetadata(error)?.code === 'OVERLOADED';
+}
+
 /**
  * Extracts Claude Code error metadata from an error object.
  *
@@ -214,3 +388,98 @@ export function getErrorMetadata(error: unknown): ClaudeCodeErrorMetadata | unde
   }
   return undefined;
 }
+
+const USAGE_LIMIT_PATTERNS = [
+  /usage limit reached/i,
+  /(?:5-hour|weekly) limit reached/i,
+  /you've hit your .*limit/i,
+  /out of extra usage/i,
+];
+// Anchored to the API error shapes the CLI reports (`API Error: 529 {"type":"error","error":
+// {"type":"overloaded_error",...}}`), so unrelated messages mentioning 429 or "overloaded" stay
+// non-retryable
+const OVERLOADED_PATTERNS = [/API Error:\s*529\b/i, /\boverloaded_error\b/];
+const RATE_LIMIT_PATTERNS = [
+  /API Error:\s*429\b/i,
+  /\brate_limit_error\b/,
+  /\b429 Too Many Requests\b/i,
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parses the reset time from a CLI limit message.
+ *
+ * Supports `...limit reached|<unix timestamp>`, ISO timestamps, and the CLI's
+ * human-readable `resets 3pm`, `resets 3:30pm` and `resets Jan 5, 3pm` forms.
+ * Human-readable times are interpreted in the local time zone, which is the
+ * zone the CLI formats them in when it runs on the same machine.
+ *
+ * @param text - The message to parse
+ * @param now - Reference time for resolving times without a date
+ * @returns The reset time, or undefined if none was found
+ */
+export function parseLimitResetTime(text: string, now: Date = new Date()): Date | undefined {
+  const timestamp = text.match(/limit reached\|(\d{10,13})\b/i);
+  if (timestamp) {
+    const value = Number(timestamp[1]);
+    return new Date(timestamp[1].length === 13 ? value : value * 1000);
+  }
+
+  const iso = text.match(/resets(?: at)? (\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)/i);
+  if (iso) {
+    const date = new Date(iso[1]);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+
+  const human = text.match(
+    /resets(?: at)? (?:([a-z]{3})[a-z]* (\d{1,2}),? (?:at )?)?(\d{1,2})(?::(\d{2}))? ?([ap]m)/i
+  );
+  if (!human) {
+    return undefined;
+  }
+
+  const [, monthName, day, hourText, minuteText, meridiem] = human;
+  let hours = Number(hourText) % 12;
+  if (meridiem.toLowerCase() === 'pm') {
+    hours += 12;
+  }
+  const resetsAt = new Date(now);
+  resetsAt.setHours(hours, Number(minuteText ?? 0), 0, 0);
+
+  if (monthName) {
+    const month = MONTHS.indexOf(monthName.toLowerCase());
+    if (month === -1) {
+      return undefined;
+    }
+    resetsAt.setMonth(month, Number(day));
+    if (resetsAt.getTime() < now.getTime()) {
+      resetsAt.setFullYear(resetsAt.getFullYear() + 1);
+    }
+  } else if (resetsAt.getTime() <= now.getTime()) {
+    resetsAt.setDate(resetsAt.getDate() + 1);
+  }
+
+  return resetsAt;
+}
+
+/**
+ * Classifies a CLI or API error message as a rate-limit, usage-limit or overloaded error.
+ *
+ * @param text - Error message and/or stderr output
+ * @returns The limit kind and parsed reset time, or undefined for other errors
+ */
+export function classifyLimitError(
+  text: string
+): { kind: ClaudeCodeLimitKind; resetsAt?: Date } | undefined {
+  if (USAGE_LIMIT_PATTERNS.some((pattern) => pattern.test(text))) {
+    return { kind: 'usage_limit', resetsAt: parseLimitResetTime(text) };
+  }
+  if (OVERLOADED_PATTERNS.some((pattern) => pattern.test(text))) {
+    return { kind: 'overloaded' };
+  }
+  if (RATE_LIMIT_PATTERNS.some((pattern) => pattern.test(text))) {
+    return { kind: 'rate_limit', resetsAt: parseLimitResetTime(text) };
+  }
+  return undefined;
+}
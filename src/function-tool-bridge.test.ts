@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createFunctionToolBridge,
+  jsonSchemaToZodShape,
+  toFunctionToolMcpName,
+} from './function-tool-bridge.js';
+
+describe('jsonSchemaToZodShape', () => {
+  it('converts properties and respects required fields', () => {
+    const shape = jsonSchemaToZodShape({
+      type: 'object',
+      properties: {
+        city: { type: 'string', description: 'City name' },
+        days: { type: 'integer' },
+        unit: { enum: ['c', 'f'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['city', 'unit'],
+    });
+
+    expect(Object.keys(shape)).toEqual(['city', 'days', 'unit', 'tags', 'note']);
+    expect(shape.city.description).toBe('City name');
+    expect(shape.city.safeParse('Paris').success).toBe(true);
+    expect(shape.city.safeParse(undefined).success).toBe(false);
+    expect(shape.days.safeParse(undefined).success).toBe(true);
+    expect(shape.days.safeParse(1.5).success).toBe(false);
+    expect(shape.unit.safeParse('c').success).toBe(true);
+    expect(shape.unit.safeParse('k').success).toBe(false);
+    expect(shape.tags.safeParse(['a', 'b']).success).toBe(true);
+    expect(shape.note.safeParse(null).success).toBe(true);
+  });
+
+  it('converts nested objects and unions', () => {
+    const shape = jsonSchemaToZodShape({
+      type: 'object',
+      properties: {
+        location: {
+          type: 'object',
+          properties: { lat: { type: 'number' }, lng: { type: 'number' } },
+          required: ['lat', 'lng'],
+        },
+        id: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+      },
+      required: ['location', 'id'],
+    });
+
+    expect(shape.location.safeParse({ lat: 1, lng: 2 }).success).toBe(true);
+    expect(shape.location.safeParse({ lat: 1 }).success).toBe(false);
+    expect(shape.id.safeParse('a').success).toBe(true);
+    expect(shape.id.safeParse(1).success).toBe(true);
+    expect(shape.id.safeParse(true).success).toBe(false);
+  });
+
+  it('returns an empty shape for schemas without properties', () => {
+    expect(jsonSchemaToZodShape({ type: 'object' })).toEqual({});
+    expect(jsonSchemaToZodShape(true)).toEqual({});
+  });
+});
+
+describe('createFunctionToolBridge', () => {
+  it('returns undefined when no tools are provided', () => {
+    const bridge = createFunctionToolBridge({
+      tools: [],
+      signal: new AbortController().signal,
+      onToolCall: vi.fn(),
+    });
+    expect(bridge).toBeUndefined();
+  });
+
+  it('creates an sdk MCP server and maps MCP tool names back to AI SDK names', () => {
+    const bridge = createFunctionToolBridge({
+      tools: [
+        {
+          type: 'function',
+          name: 'getWeather',
+          description: 'Get the weather',
+          inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+        },
+      ],
+      signal: new AbortController().signal,
+      onToolCall: vi.fn(),
+    });
+
+    expect(bridge?.server.type).toBe('sdk');
+    expect(bridge?.server.name).toBe('ai-sdk-tools');
+    expect(toFunctionToolMcpName('getWeather')).toBe('mcp__ai-sdk-tools__getWeather');
+    expect(bridge?.toolNames.get('mcp__ai-sdk-tools__getWeather')).toBe('getWeather');
+  });
+});
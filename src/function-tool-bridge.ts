@@ -0,0 +1,212 @@
+import type {
+  JSONSchema7,
+  JSONSchema7Definition,
+  LanguageModelV3FunctionTool,
+} from '@ai-sdk/provider';
+import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
+import type { McpSdkServerConfigWithInstance } from '@anthropic-ai/claude-agent-sdk';
+// The SDK serializes MCP tool schemas with a Zod 3 based converter, so the bridged
+// schemas are built with the Zod 3 API (available as `zod/v3` in zod >= 3.25 and 4.x).
+import { z, type ZodRawShape, type ZodTypeAny } from 'zod/v3';
+
+/**
+ * Name of the in-process MCP server that exposes AI SDK function tools to Claude.
+ * Claude sees each bridged tool as `mcp__ai-sdk-tools__<toolName>`.
+ */
+export const FUNCTION_TOOL_SERVER_NAME = 'ai-sdk-tools';
+
+const DEFERRED_TOOL_RESULT_MESSAGE =
+  'Tool execution was handed back to the AI SDK caller. The result will be provided in the next turn.';
+
+/**
+ * Returns the MCP tool name Claude uses for a bridged AI SDK function tool.
+ */
+export function toFunctionToolMcpName(toolName: string): string {
+  return `mcp__${FUNCTION_TOOL_SERVER_NAME}__${toolName}`;
+}
+
+/**
+ * In-process MCP server plus the lookup table used to map Claude's tool names
+ * back to the AI SDK tool names.
+ */
+export interface FunctionToolBridge {
+  server: McpSdkServerConfigWithInstance;
+  /** MCP tool name (`mcp__ai-sdk-tools__x`) -> AI SDK tool name (`x`) */
+  toolNames: Map<string, string>;
+}
+
+function isSchemaObject(definition: JSONSchema7Definition | undefined): definition is JSONSchema7 {
+  return typeof definition === 'object' && definition !== null;
+}
+
+function withDescription(schema: ZodTypeAny, definition: JSONSchema7): ZodTypeAny {
+  return definition.description ? schema.describe(definition.description) : schema;
+}
+
+function literalUnion(values: unknown[]): ZodTypeAny {
+  const literals = values
+    .filter(
+      (value): value is string | number | boolean | null =>
+        value === null || ['string', 'number', 'boolean'].includes(typeof value)
+    )
+    .map((value) => z.literal(value as string | number | boolean | null));
+
+  if (literals.length === 0) {
+    return z.any();
+  }
+  if (literals.length === 1) {
+    return literals[0];
+  }
+  return z.union(literals as unknown as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
+
+function typedSchemaToZod(type: string, definition: JSONSchema7): ZodTypeAny {
+  switch (type) {
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'array': {
+      const items = Array.isArray(definition.items) ? definition.items[0] : definition.items;
+      return z.array(isSchemaObject(items) ? jsonSchemaToZod(items) : z.any());
+    }
+    case 'object':
+      return z.object(jsonSchemaToZodShape(definition)).passthrough();
+    default:
+      return z.any();
+  }
+}
+
+/**
+ * Converts a JSON Schema definition into an equivalent Zod 3 schema.
+ * Covers the subset of JSON Schema produced by `zodSchema()`/`jsonSchema()` in the AI SDK;
+ * unsupported constructs fall back to `z.any()` so the tool remains callable.
+ */
+export function jsonSchemaToZod(definition: JSONSchema7Definition): ZodTypeAny {
+  if (!isSchemaObject(definition)) {
+    return z.any();
+  }
+
+  let schema: ZodTypeAny;
+
+  if (definition.const !== undefined) {
+    schema = literalUnion([definition.const]);
+  } else if (Array.isArray(definition.enum)) {
+    schema = literalUnion(definition.enum);
+  } else if (definition.anyOf ?? definition.oneOf) {
+    const variants = (definition.anyOf ?? definition.oneOf ?? []).map(jsonSchemaToZod);
+    schema =
+      variants.length === 0
+        ? z.any()
+        : variants.length === 1
+          ? variants[0]
+          : z.union(variants as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+  } else if (Array.isArray(definition.type)) {
+    const types = definition.type.filter((type) => type !== 'null');
+    const base =
+      types.length === 1
+        ? typedSchemaToZod(types[0], definition)
+        : types.length > 1
+          ? z.union(
+              types.map((type) => typedSchemaToZod(type, definition)) as [
+                ZodTypeAny,
+                ZodTypeAny,
+                ...ZodTypeAny[],
+              ]
+            )
+          : z.any();
+    schema = definition.type.includes('null') ? base.nullable() : base;
+  } else if (typeof definition.type === 'string') {
+    schema = typedSchemaToZod(definition.type, definition);
+  } else if (definition.properties) {
+    schema = typedSchemaToZod('object', definition);
+  } else {
+    schema = z.any();
+  }
+
+  return withDescription(schema, definition);
+}
+
+/**
+ * Converts the top-level object schema of a function tool into a Zod raw shape,
+ * which is the input format expected by the SDK's `tool()` helper.
+ */
+export function jsonSchemaToZodShape(definition: JSONSchema7Definition): ZodRawShape {
+  if (!isSchemaObject(definition) || !definition.properties) {
+    return {};
+  }
+
+  const required = new Set(definition.required ?? []);
+  const shape: ZodRawShape = {};
+  for (const [key, property] of Object.entries(definition.properties)) {
+    const schema = jsonSchemaToZod(property);
+    shape[key] = required.has(key) ? schema : schema.optional();
+  }
+  return shape;
+}
+
+/**
+ * Exposes AI SDK function tools to Claude through an in-process SDK MCP server.
+ *
+ * The bridged tools are never executed inside the CLI. When Claude invokes one,
+ * `onToolCall` is notified so the caller can stop the query and hand the tool call
+ * back to the AI SDK, which runs the user's `execute` handler and sends the result
+ * in the next request. The MCP handler stays pending until `signal` aborts.
+ *
+ * @param options.tools - Function tools from the AI SDK call options
+ * @param options.signal - Abort signal of the running query
+ * @param options.onToolCall - Invoked with the AI SDK tool name when Claude calls a bridged tool
+ * @returns The MCP server config and tool name mapping, or undefined when no tools are given
+ */
+export function createFunctionToolBridge({
+  tools,
+  signal,
+  onToolCall,
+}: {
+  tools: LanguageModelV3FunctionTool[];
+  signal: AbortSignal;
+  onToolCall: (toolName: string) => void;
+}): FunctionToolBridge | undefined {
+  if (tools.length === 0) {
+    return undefined;
+  }
+
+  const waitForAbort = () =>
+    new Promise<void>((resolve) => {
+      if (signal.aborted) {
+        resolve();
+      } else {
+        signal.addEventListener('abort', () => resolve(), { once: true });
+      }
+    });
+
+  const toolNames = new Map<string, string>();
+  const defs = tools.map((functionTool) => {
+    toolNames.set(toFunctionToolMcpName(functionTool.name), functionTool.name);
+    return tool(
+      functionTool.name,
+      functionTool.description ?? '',
+      // SDK typings follow the installed zod major; the runtime converter needs Zod 3 shapes
+      jsonSchemaToZodShape(functionTool.inputSchema) as unknown as Parameters<typeof tool>[2],
+      async () => {
+        onToolCall(functionTool.name);
+        await waitForAbort();
+        return {
+          content: [{ type: 'text' as const, text: DEFERRED_TOOL_RESULT_MESSAGE }],
+          isError: true,
+        };
+      }
+    );
+  });
+
+  return {
+    server: createSdkMcpServer({ name: FUNCTION_TOOL_SERVER_NAME, tools: defs }),
+    toolNames,
+  };
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  preprocessImages,
+  readImageDimensions,
+  sniffImageMediaType,
+} from './image-preprocessing.js';
+
+type Content = SDKUserMessage['message']['content'];
+
+// Image headers are enough for sniffing and dimensions; the pixel data is never decoded
+function png(width: number, height: number, extraBytes = 0): Uint8Array {
+  const bytes = new Uint8Array(24 + extraBytes);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+function jpeg(width: number, height: number): Uint8Array {
+  // SOI, an APP0 segment, then SOF0 with height and width
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe0,
+    0x00,
+    0x04,
+    0x4a,
+    0x46,
+    0xff,
+    0xc0,
+    0x00,
+    0x11,
+    0x08,
+    height >> 8,
+    height & 0xff,
+    width >> 8,
+    width & 0xff,
+    0x03,
+  ]);
+}
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+const imageBlock = (mediaType: string, bytes: Uint8Array) =>
+  ({
+    type: 'image',
+    source: { type: 'base64', media_type: mediaType, data: toBase64(bytes) },
+  }) as Content[number];
+
+describe('sniffImageMediaType', () => {
+  it('detects PNG, JPEG, GIF and WebP from magic bytes', () => {
+    expect(sniffImageMediaType(png(1, 1))).toBe('image/png');
+    expect(sniffImageMediaType(jpeg(1, 1))).toBe('image/jpeg');
+    expect(sniffImageMediaType(new Uint8Array(ascii('GIF89a\x01\x00\x01\x00')))).toBe('image/gif');
+    expect(sniffImageMediaType(new Uint8Array(ascii('RIFF\x00\x00\x00\x00WEBPVP8L')))).toBe(
+      'image/webp'
+    );
+    expect(sniffImageMediaType(new Uint8Array(ascii('%PDF-1.7')))).toBeUndefined();
+    expect(sniffImageMediaType(new Uint8Array([0x89, 0x50]))).toBeUndefined();
+  });
+});
+
+describe('readImageDimensions', () => {
+  it('reads dimensions from PNG, JPEG, GIF and WebP headers', () => {
+    expect(readImageDimensions(png(3840, 2160), 'image/png')).toEqual({
+      width: 3840,
+      height: 2160,
+    });
+    expect(readImageDimensions(jpeg(1920, 1080), 'image/jpeg')).toEqual({
+      width: 1920,
+      height: 1080,
+    });
+    expect(
+      readImageDimensions(new Uint8Array(ascii('GIF89a\x40\x01\xf0\x00')), 'image/gif')
+    ).toEqual({ width: 320, height: 240 });
+
+    const webp = new Uint8Array(30);
+    webp.set(ascii('RIFF'), 0);
+    webp.set(ascii('WEBPVP8X'), 8);
+    webp.set([0x7f, 0x07, 0x00, 0x37, 0x04, 0x00], 24); // 1920 - 1, 1080 - 1
+    expect(readImageDimensions(webp, 'image/webp')).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('returns undefined for truncated headers', () => {
+    expect(readImageDimensions(png(1, 1).subarray(0, 18), 'image/png')).toBeUndefined();
+    expect(readImageDimensions(jpeg(1, 1).subarray(0, 10), 'image/jpeg')).toBeUndefined();
+  });
+});
+
+describe('preprocessImages', () => {
+  it('keeps valid images and other parts unchanged', async () => {
+    const content: Content = [
+      { type: 'text', text: 'Look' },
+      imageBlock('image/png', png(800, 600)),
+    ];
+
+    const result = await preprocessImages(content);
+
+    expect(result).toEqual({ content, warnings: [], invalid: [] });
+  });
+
+  it('corrects mislabeled MIME types with a warning', async () => {
+    const result = await preprocessImages([imageBlock('image/png', jpeg(10, 10))]);
+
+    expect((result.content[0] as any).source.media_type).toBe('image/jpeg');
+    expect(result.warnings).toEqual([
+      'Image 1 is declared as image/png but is image/jpeg; sending it as image/jpeg.',
+    ]);
+
+    const jpg = await preprocessImages([imageBlock('image/jpg', jpeg(10, 10))]);
+    expect(jpg.warnings).toEqual([]);
+  });
+
+  it('removes unsupported formats and images over the limits', async () => {
+    const result = await preprocessImages(
+      [
+        imageBlock('image/bmp', new Uint8Array(ascii('BM......'))),
+        imageBlock('image/png', png(100, 100, 2048)),
+        imageBlock('image/png', png(3840, 2160)),
+        imageBlock('image/png', png(100, 100)),
+      ],
+      { maxBytes: 1024, maxDimension: 2000 }
+    );
+
+    expect(result.content).toHaveLength(1);
+    expect(result.invalid).toEqual([
+      'Image 1: unsupported image format; supply PNG, JPEG, GIF or WebP images (declared as image/bmp)',
+      'Image 2: image is 2072 bytes, which exceeds maxBytes (1024)',
+      'Image 3: image is 3840x2160 pixels, which exceeds maxDimension (2000)',
+    ]);
+  });
+
+  it('passes images through the preprocess hook before validation', async () => {
+    const preprocess = vi.fn((image: { width?: number; height?: number }) =>
+      (image.width ?? 0) > 2000 ? { data: png(1568, 882), mediaType: 'image/png' } : undefined
+    );
+
+    const result = await preprocessImages(
+      [imageBlock('image/png', png(3840, 2160)), imageBlock('image/png', png(800, 600))],
+      { maxDimension: 2000, preprocess }
+    );
+
+    expect(preprocess).toHaveBeenCalledWith(
+      expect.objectContaining({ mediaType: 'image/png', width: 3840, height: 2160 })
+    );
+    expect(result.invalid).toEqual([]);
+    expect((result.content[0] as any).source.data).toBe(toBase64(png(1568, 882)));
+    expect((result.content[1] as any).source.data).toBe(toBase64(png(800, 600)));
+  });
+
+  it('rejects images the preprocess hook fails on', async () => {
+    const result = await preprocessImages([imageBlock('image/png', png(10, 10))], {
+      preprocess: async () => {
+        throw new Error('resize failed');
+      },
+    });
+
+    expect(result.content).toEqual([]);
+    expect(result.invalid).toEqual(['Image 1: resize failed']);
+  });
+});
@@ -0,0 +1,210 @@
+import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import { convertBinaryToBase64, decodeBase64 } from './convert-to-claude-code-messages.js';
+import type { ClaudeCodeImage, ClaudeCodeImageSettings } from './types.js';
+
+type SDKUserContentPart = SDKUserMessage['message']['content'][number];
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_DIMENSION = 8000;
+
+const UNSUPPORTED_FORMAT = 'unsupported image format; supply PNG, JPEG, GIF or WebP images';
+
+const startsWith = (bytes: Uint8Array, signature: readonly number[], offset = 0): boolean =>
+  bytes.length >= offset + signature.length &&
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string): number[] => [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * Detects the MIME type of an image from its magic bytes.
+ *
+ * @returns `image/png`, `image/jpeg`, `image/gif` or `image/webp`, or undefined for other data
+ */
+export function sniffImageMediaType(bytes: Uint8Array): string | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  return undefined;
+}
+
+/**
+ * Reads the width and height of a PNG, JPEG, GIF or WebP image from its header.
+ *
+ * @returns The dimensions, or undefined when the header is truncated or not recognized
+ */
+export function readImageDimensions(
+  bytes: Uint8Array,
+  mediaType: string
+): { width: number; height: number } | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    switch (mediaType) {
+      case 'image/png':
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+      case 'image/gif':
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+      case 'image/webp':
+        return readWebpDimensions(bytes, view);
+      case 'image/jpeg':
+        return readJpegDimensions(bytes, view);
+    }
+  } catch {
+    // Truncated headers throw a RangeError; the dimensions are unknown
+  }
+  return undefined;
+}
+
+function readWebpDimensions(
+  bytes: Uint8Array,
+  view: DataView
+): { width: number; height: number } | undefined {
+  if (startsWith(bytes, ascii('VP8 '), 12)) {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  }
+  if (startsWith(bytes, ascii('VP8L'), 12)) {
+    const bits = view.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (startsWith(bytes, ascii('VP8X'), 12)) {
+    const uint24 = (offset: number) =>
+      view.getUint16(offset, true) | (view.getUint8(offset + 2) << 16);
+    return { width: uint24(24) + 1, height: uint24(27) + 1 };
+  }
+  return undefined;
+}
+
+// Walks the JPEG segments up to the first start-of-frame marker, which holds the dimensions
+function readJpegDimensions(
+  bytes: Uint8Array,
+  view: DataView
+): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // Fill byte
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2; // Markers without a segment
+      continue;
+    }
+    const isStartOfFrame =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return undefined;
+}
+
+// `image/jpg` is a common mislabel of JPEG that is not worth a warning
+function normalizeMediaType(mediaType: string): string {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  return type === 'image/jpg' ? 'image/jpeg' : type;
+}
+
+/**
+ * Validates and preprocesses the base64 image blocks of a streaming prompt.
+ *
+ * Each image's format is detected from its magic bytes, and mislabeled MIME types are
+ * corrected with a warning. The `preprocess` hook then gets the image, and the (possibly
+ * replaced) image is checked against `maxBytes` and `maxDimension`. Images that fail are
+ * removed and their problems returned as `invalid`, for the caller to report as warnings
+ * or errors depending on `onInvalid`.
+ *
+ * @param content - Streaming content parts from `convertToClaudeCodeMessages`
+ * @param settings - The `images` setting
+ * @returns The content with validated images, warnings for corrected images and the
+ *   problems of removed images
+ */
+export async function preprocessImages(
+  content: SDKUserMessage['message']['content'],
+  settings: ClaudeCodeImageSettings = {}
+): Promise<{
+  content: SDKUserContentPart[];
+  warnings: string[];
+  invalid: string[];
+}> {
+  const maxBytes = settings.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxDimension = settings.maxDimension ?? DEFAULT_MAX_DIMENSION;
+  const warnings: string[] = [];
+  const invalid: string[] = [];
+  const parts: SDKUserContentPart[] = [];
+  let imageNumber = 0;
+
+  const processImage = async (
+    source: { media_type: string; data: string },
+    label: string
+  ): Promise<{ media_type: string; data: string }> => {
+    const declared = normalizeMediaType(source.media_type);
+    let bytes = decodeBase64(source.data);
+    let mediaType = bytes && sniffImageMediaType(bytes);
+    if (!bytes || !mediaType) {
+      throw new Error(`${UNSUPPORTED_FORMAT} (declared as ${source.media_type})`);
+    }
+    if (mediaType !== declared) {
+      warnings.push(
+        `${label} is declared as ${source.media_type} but is ${mediaType}; sending it as ${mediaType}.`
+      );
+    }
+
+    let replaced = false;
+    if (settings.preprocess) {
+      const image: ClaudeCodeImage = {
+        data: bytes,
+        mediaType,
+        ...readImageDimensions(bytes, mediaType),
+      };
+      const result = await settings.preprocess(image);
+      if (result) {
+        bytes = result.data;
+        mediaType = sniffImageMediaType(bytes);
+        if (!mediaType) {
+          throw new Error(`preprocess returned an ${UNSUPPORTED_FORMAT}`);
+        }
+        replaced = true;
+      }
+    }
+
+    if (bytes.byteLength > maxBytes) {
+      throw new Error(`image is ${bytes.byteLength} bytes, which exceeds maxBytes (${maxBytes})`);
+    }
+    const dimensions = readImageDimensions(bytes, mediaType);
+    if (dimensions && Math.max(dimensions.width, dimensions.height) > maxDimension) {
+      throw new Error(
+        `image is ${dimensions.width}x${dimensions.height} pixels, which exceeds maxDimension (${maxDimension})`
+      );
+    }
+
+    const data = replaced ? convertBinaryToBase64(bytes) : source.data;
+    if (data === undefined) {
+      throw new Error('unable to encode the preprocessed image');
+    }
+    return { media_type: mediaType, data };
+  };
+
+  for (const part of content) {
+    const source = part.type === 'image' ? (part.source as { type: string }) : undefined;
+    if (source?.type !== 'base64') {
+      parts.push(part);
+      continue;
+    }
+
+    const label = `Image ${++imageNumber}`;
+    try {
+      const processed = await processImage(
+        source as { type: 'base64'; media_type: string; data: string },
+        label
+      );
+      parts.push({ ...part, source: { ...source, ...processed } } as SDKUserContentPart);
+    } catch (error) {
+      invalid.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { content: parts, warnings, invalid };
+}
@@ -13,12 +13,18 @@ describe('index exports', () => {
     // Language model exports
     expect(exports.ClaudeCodeLanguageModel).toBeDefined();
     expect(typeof exports.ClaudeCodeLanguageModel).toBe('function');
+    expect(exports.ClaudeCodeSession).toBeDefined();
+    expect(typeof exports.ClaudeCodeSession).toBe('function');
 
     // Error handling exports
     expect(exports.isAuthenticationError).toBeDefined();
     expect(typeof exports.isAuthenticationError).toBe('function');
     expect(exports.isTimeoutError).toBeDefined();
     expect(typeof exports.isTimeoutError).toBe('function');
+    expect(typeof exports.isQueueTimeoutError).toBe('function');
+    expect(typeof exports.isRateLimitError).toBe('function');
+    expect(typeof exports.isUsageLimitError).toBe('function');
+    expect(typeof exports.isOverloadedError).toBe('function');
     expect(exports.getErrorMetadata).toBeDefined();
     expect(typeof exports.getErrorMetadata).toBe('function');
     expect(exports.createAPICallError).toBeDefined();
@@ -27,6 +33,22 @@ describe('index exports', () => {
     expect(typeof exports.createAuthenticationError).toBe('function');
     expect(exports.createTimeoutError).toBeDefined();
     expect(typeof exports.createTimeoutError).toBe('function');
+    expect(typeof exports.createRateLimitError).toBe('function');
+    expect(typeof exports.createUsageLimitError).toBe('function');
+    expect(typeof exports.createOverloadedError).toBe('function');
+    expect(typeof exports.classifyLimitError).toBe('function');
+
+    // Record and replay
+    expect(typeof exports.createRecordingQuery).toBe('function');
+    expect(typeof exports.createReplayQuery).toBe('function');
+    expect(typeof exports.loadCassette).toBe('function');
+
+    // Remote execution bridge
+    expect(typeof exports.createClaudeCodeBridgeServer).toBe('function');
+    expect(typeof exports.createClaudeCodeBridgeQuery).toBe('function');
+
+    // Process pool
+    expect(typeof exports.createClaudeCodePool).toBe('function');
 
     // SDK passthroughs
     expect(exports.createSdkMcpServer).toBeDefined();
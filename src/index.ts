@@ -33,11 +33,93 @@ export type {
   ClaudeCodeLanguageModelOptions,
 } from './claude-code-language-model.js';
 
+/**
+ * Session-scoped language model handle with an explicit session lifecycle.
+ * @see {@link ClaudeCodeProvider.session} for creating session handles
+ */
+export { ClaudeCodeSession } from './claude-code-session.js';
+export type { ClaudeCodeSessionOptions } from './claude-code-session.js';
+
 /**
  * Settings for configuring Claude Code behavior.
  * Includes options for customizing the CLI execution, permissions, and tool usage.
  */
-export type { ClaudeCodeSettings, Logger } from './types.js';
+export type {
+  ClaudeCodeSettings,
+  ClaudeCodeProviderOptions,
+  ClaudeCodeRetrySettings,
+  ClaudeCodeFetchRemoteFilesSettings,
+  ClaudeCodeImageSettings,
+  ClaudeCodeImage,
+  ClaudeCodeQueryFunction,
+  Logger,
+} from './types.js';
+
+/**
+ * Typed shapes of `usageDetails` and `modelUsage` in `providerMetadata['claude-code']`.
+ */
+export type { ClaudeCodeUsageDetails, ClaudeCodeModelUsage } from './map-claude-code-usage.js';
+
+/**
+ * Typed shape of `budget` in `providerMetadata['claude-code']` when `maxCostUsd`,
+ * `maxTotalTokens` or `maxOutputTokens` is set.
+ */
+export type { ClaudeCodeBudgetSpend, ClaudeCodeBudgetLimit } from './budget-guard.js';
+
+/**
+ * Usage ledger exposed as `provider.usage`, and the records passed to `onUsage`.
+ */
+export type {
+  ClaudeCodeUsageLedger,
+  ClaudeCodeUsageRecord,
+  ClaudeCodeUsageSnapshot,
+  ClaudeCodeUsageTotals,
+  ClaudeCodeToolUsage,
+} from './usage-ledger.js';
+
+/**
+ * Record and replay Agent SDK message streams through `queryFunction`, for offline tests.
+ * @see {@link createRecordingQuery} to record a cassette against the real CLI
+ * @see {@link createReplayQuery} to replay a cassette
+ */
+export {
+  createRecordingQuery,
+  createReplayQuery,
+  loadCassette,
+  parseCassette,
+  serializeCassette,
+} from './query-cassette.js';
+export type {
+  ClaudeCodeCassette,
+  ClaudeCodeRecordingQuery,
+  ClaudeCodeReplayQuery,
+} from './query-cassette.js';
+
+/**
+ * Run queries on a remote worker: the server runs the CLI, the client is a `queryFunction`.
+ * @see {@link createClaudeCodeBridgeServer} to serve queries from a worker
+ * @see {@link createClaudeCodeBridgeQuery} to run queries through a bridge server
+ */
+export { createClaudeCodeBridgeServer } from './bridge-server.js';
+export type {
+  ClaudeCodeBridgeClientOption,
+  ClaudeCodeBridgeServer,
+  ClaudeCodeBridgeServerOptions,
+} from './bridge-server.js';
+export { createClaudeCodeBridgeQuery } from './bridge-client.js';
+export type { ClaudeCodeBridgeClientOptions } from './bridge-client.js';
+
+/**
+ * Keep warm CLI processes ready and run requests on them through `queryFunction`.
+ * @see {@link createClaudeCodePool} to create a pool
+ */
+export { createClaudeCodePool } from './process-pool.js';
+export type { ClaudeCodePool, ClaudeCodePoolOptions, ClaudeCodePoolStats } from './process-pool.js';
+
+/**
+ * Request queue exposed as `provider.queue`, which enforces `maxConcurrency`.
+ */
+export type { ClaudeCodeRequestQueue, ClaudeCodeRequestQueueSnapshot } from './request-queue.js';
 
 // Convenience re-exports from the SDK for custom tools and hooks
 export { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
@@ -69,6 +151,9 @@ export type {
  *
  * @see {@link isAuthenticationError} to check for authentication failures
  * @see {@link isTimeoutError} to check for timeout errors
+ * @see {@link isRateLimitError} to check for API rate limits
+ * @see {@link isUsageLimitError} to check for subscription usage limits
+ * @see {@link isOverloadedError} to check for an overloaded API
  * @see {@link getErrorMetadata} to extract error metadata
  * @see {@link createAPICallError} to create general API errors
  * @see {@link createAuthenticationError} to create authentication errors
@@ -77,14 +162,24 @@ export type {
 export {
   isAuthenticationError,
   isTimeoutError,
+  isQueueTimeoutError,
+  isRateLimitError,
+  isUsageLimitError,
+  isOverloadedError,
   getErrorMetadata,
+  classifyLimitError,
+  parseLimitResetTime,
   createAPICallError,
   createAuthenticationError,
   createTimeoutError,
+  createQueueTimeoutError,
+  createRateLimitError,
+  createUsageLimitError,
+  createOverloadedError,
 } from './errors.js';
 
 /**
  * Metadata associated with Claude Code errors.
  * Contains additional context about CLI execution failures.
  */
-export type { ClaudeCodeErrorMetadata } from './errors.js';
+export type { ClaudeCodeErrorMetadata, ClaudeCodeLimitKind } from './errors.js';
@@ -0,0 +1,47 @@
+/**
+ * Async iterable fed by pushed values. Used as the streaming prompt of long-lived queries,
+ * so user messages can be added after the query has started.
+ */
+export interface InputQueue<T> extends AsyncIterable<T> {
+  /**
+   * Adds a value. Values pushed after `end()` are ignored.
+   */
+  push(value: T): void;
+
+  /**
+   * Ends the iteration once the queued values have been consumed.
+   */
+  end(): void;
+}
+
+export function createInputQueue<T>(): InputQueue<T> {
+  const values: T[] = [];
+  let ended = false;
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+  return {
+    push(value) {
+      if (ended) return;
+      values.push(value);
+      notify();
+    },
+    end() {
+      ended = true;
+      notify();
+    },
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        if (values.length > 0) {
+          yield values.shift() as T;
+        } else if (ended) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      }
+    },
+  };
+}
@@ -14,24 +14,44 @@ describe('mapClaudeCodeFinishReason', () => {
     expect(mapClaudeCodeFinishReason('error_during_execution')).toBe('error');
   });
 
-  it('should map unknown subtypes to stop', () => {
-    expect(mapClaudeCodeFinishReason('unknown_subtype')).toBe('stop');
-    expect(mapClaudeCodeFinishReason('custom')).toBe('stop');
+  it('should map the remaining error subtypes', () => {
+    expect(mapClaudeCodeFinishReason('error_max_budget_usd')).toBe('length');
+    expect(mapClaudeCodeFinishReason('error_something_new')).toBe('error');
+  });
+
+  it('should map unknown subtypes to other', () => {
+    expect(mapClaudeCodeFinishReason('unknown_subtype')).toBe('other');
+    expect(mapClaudeCodeFinishReason('custom')).toBe('other');
     expect(mapClaudeCodeFinishReason('')).toBe('stop');
   });
 
+  it('should map stop reasons of successful results', () => {
+    expect(mapClaudeCodeFinishReason('success', 'end_turn')).toBe('stop');
+    expect(mapClaudeCodeFinishReason('success', 'stop_sequence')).toBe('stop');
+    expect(mapClaudeCodeFinishReason('success', 'max_tokens')).toBe('length');
+    expect(mapClaudeCodeFinishReason('success', 'refusal')).toBe('content-filter');
+    expect(mapClaudeCodeFinishReason('success', 'tool_use')).toBe('tool-calls');
+    expect(mapClaudeCodeFinishReason('success', 'pause_turn')).toBe('other');
+    expect(mapClaudeCodeFinishReason('success', null)).toBe('stop');
+  });
+
+  it('should let error subtypes take precedence over stop reasons', () => {
+    expect(mapClaudeCodeFinishReason('error_max_turns', 'end_turn')).toBe('length');
+    expect(mapClaudeCodeFinishReason('error_during_execution', 'refusal')).toBe('error');
+  });
+
   it('should handle undefined subtype', () => {
     expect(mapClaudeCodeFinishReason(undefined)).toBe('stop');
   });
 
   it('should handle null subtype', () => {
-    expect(mapClaudeCodeFinishReason(null as any)).toBe('stop');
+    expect(mapClaudeCodeFinishReason(null as unknown as string)).toBe('stop');
   });
 
   it('should be case sensitive', () => {
-    // These should map to default 'stop' as they don't match exactly
-    expect(mapClaudeCodeFinishReason('Success')).toBe('stop');
-    expect(mapClaudeCodeFinishReason('ERROR_MAX_TURNS')).toBe('stop');
-    expect(mapClaudeCodeFinishReason('Error_During_Execution')).toBe('stop');
+    // These should map to 'other' as they don't match exactly
+    expect(mapClaudeCodeFinishReason('Success')).toBe('other');
+    expect(mapClaudeCodeFinishReason('ERROR_MAX_TURNS')).toBe('other');
+    expect(mapClaudeCodeFinishReason('Error_During_Execution')).toBe('other');
   });
 });
@@ -1,33 +1,74 @@
 import type { LanguageModelV3FinishReason } from '@ai-sdk/provider';
 
 /**
- * Maps Claude Code SDK result subtypes to AI SDK finish reasons.
+ * Maps Claude Code SDK result subtypes and Anthropic stop reasons to AI SDK finish reasons.
  *
  * @param subtype - The result subtype from Claude Code SDK
+ * @param stopReason - The `stop_reason` of the last assistant message, if known
  * @returns The corresponding AI SDK finish reason
  *
  * @example
  * ```typescript
  * const finishReason = mapClaudeCodeFinishReason('error_max_turns');
  * // Returns: 'length'
+ *
+ * mapClaudeCodeFinishReason('success', 'refusal');
+ * // Returns: 'content-filter'
  * ```
  *
  * @remarks
- * Mappings:
- * - 'success' -> 'stop' (normal completion)
+ * Result subtypes:
+ * - 'success' -> mapped from the stop reason ('stop' when there is none)
  * - 'error_max_turns' -> 'length' (hit turn limit)
+ * - 'error_max_budget_usd' -> 'length' (hit `maxBudgetUsd`)
  * - 'error_during_execution' -> 'error' (execution error)
- * - default -> 'stop' (unknown subtypes treated as normal completion)
+ * - other 'error_*' subtypes -> 'error'
+ * - other subtypes -> 'other'
+ *
+ * 'error_max_structured_output_retries' never reaches this function: the model throws an
+ * error for it instead of finishing.
+ *
+ * Stop reasons:
+ * - 'end_turn', 'stop_sequence' -> 'stop'
+ * - 'max_tokens', 'model_context_window_exceeded' -> 'length'
+ * - 'refusal' -> 'content-filter'
+ * - 'tool_use' -> 'tool-calls'
+ * - 'pause_turn' and unknown stop reasons -> 'other'
  */
-export function mapClaudeCodeFinishReason(subtype?: string): LanguageModelV3FinishReason {
+export function mapClaudeCodeFinishReason(
+  subtype?: string,
+  stopReason?: string | null
+): LanguageModelV3FinishReason {
+  if (!subtype || subtype === 'success') {
+    return mapStopReason(stopReason);
+  }
+
   switch (subtype) {
-    case 'success':
-      return 'stop';
     case 'error_max_turns':
+    case 'error_max_budget_usd':
       return 'length';
     case 'error_during_execution':
       return 'error';
     default:
+      return subtype.startsWith('error_') ? 'error' : 'other';
+  }
+}
+
+function mapStopReason(stopReason?: string | null): LanguageModelV3FinishReason {
+  switch (stopReason) {
+    case undefined:
+    case null:
+    case 'end_turn':
+    case 'stop_sequence':
       return 'stop';
+    case 'max_tokens':
+    case 'model_context_window_exceeded':
+      return 'length';
+    case 'refusal':
+      return 'content-filter';
+    case 'tool_use':
+      return 'tool-calls';
+    default:
+      return 'other';
   }
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapClaudeCodeModelUsage,
+  mapClaudeCodeUsage,
+  mapClaudeCodeUsageDetails,
+} from './map-claude-code-usage.js';
+
+describe('mapClaudeCodeUsage', () => {
+  it('includes cache reads and writes in input tokens', () => {
+    expect(
+      mapClaudeCodeUsage({
+        input_tokens: 4,
+        output_tokens: 7,
+        cache_creation_input_tokens: 5924,
+        cache_read_input_tokens: 10075,
+      })
+    ).toEqual({
+      inputTokens: 16003,
+      outputTokens: 7,
+      totalTokens: 16010,
+      cachedInputTokens: 10075,
+    });
+  });
+
+  it('treats missing counts as zero', () => {
+    expect(mapClaudeCodeUsage({})).toEqual({
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      cachedInputTokens: 0,
+    });
+  });
+});
+
+describe('mapClaudeCodeUsageDetails', () => {
+  it('splits input tokens by cache usage', () => {
+    expect(
+      mapClaudeCodeUsageDetails({
+        input_tokens: 4,
+        output_tokens: 7,
+        cache_creation_input_tokens: 5924,
+        cache_read_input_tokens: null,
+      })
+    ).toEqual({
+      inputTokens: { total: 5928, noCache: 4, cacheRead: 0, cacheWrite: 5924 },
+      outputTokens: { total: 7 },
+    });
+  });
+});
+
+describe('mapClaudeCodeModelUsage', () => {
+  it('maps per-model usage and defaults missing fields', () => {
+    expect(
+      mapClaudeCodeModelUsage({
+        'claude-haiku-4-5': { inputTokens: 3, outputTokens: 2, costUSD: 0.0001 },
+      })
+    ).toEqual({
+      'claude-haiku-4-5': {
+        inputTokens: 3,
+        outputTokens: 2,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+        webSearchRequests: 0,
+        costUsd: 0.0001,
+        contextWindow: 0,
+      },
+    });
+  });
+});
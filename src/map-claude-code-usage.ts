@@ -0,0 +1,109 @@
+import type { LanguageModelV3Usage } from '@ai-sdk/provider';
+
+/**
+ * Token usage as reported by the Anthropic API in Claude Code SDK result messages.
+ */
+export interface ClaudeCodeRawUsage {
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+/**
+ * Breakdown of the token usage of a request, returned as
+ * `providerMetadata['claude-code'].usageDetails`.
+ */
+export interface ClaudeCodeUsageDetails {
+  inputTokens: {
+    /** All input tokens: `noCache + cacheRead + cacheWrite`. */
+    total: number;
+    /** Input tokens that were neither read from nor written to the prompt cache. */
+    noCache: number;
+    /** Input tokens read from the prompt cache. */
+    cacheRead: number;
+    /** Input tokens written to the prompt cache. */
+    cacheWrite: number;
+  };
+  outputTokens: {
+    /** All output tokens, including extended thinking. */
+    total: number;
+  };
+}
+
+/**
+ * Usage of a single model within a request, returned per model name as
+ * `providerMetadata['claude-code'].modelUsage`. A request can use several models,
+ * e.g. with `fallbackModel` or subagents that run on a different model.
+ */
+export interface ClaudeCodeModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+  webSearchRequests: number;
+  costUsd: number;
+  contextWindow: number;
+}
+
+/**
+ * Maps Claude Code SDK usage to AI SDK usage.
+ *
+ * `inputTokens` includes cache reads and writes, and `cachedInputTokens` is the cache reads.
+ * The API does not report thinking tokens separately, so `reasoningTokens` is left undefined
+ * and thinking is counted in `outputTokens`.
+ *
+ * @param usage - The `usage` field of a result message
+ * @returns The AI SDK usage
+ */
+export function mapClaudeCodeUsage(usage: ClaudeCodeRawUsage): LanguageModelV3Usage {
+  const { inputTokens, outputTokens } = mapClaudeCodeUsageDetails(usage);
+  return {
+    inputTokens: inputTokens.total,
+    outputTokens: outputTokens.total,
+    totalTokens: inputTokens.total + outputTokens.total,
+    cachedInputTokens: inputTokens.cacheRead,
+  };
+}
+
+/**
+ * Maps Claude Code SDK usage to the input/output token breakdown.
+ *
+ * @param usage - The `usage` field of a result message
+ * @returns Token counts split by cache usage
+ */
+export function mapClaudeCodeUsageDetails(usage: ClaudeCodeRawUsage): ClaudeCodeUsageDetails {
+  const noCache = usage.input_tokens ?? 0;
+  const cacheRead = usage.cache_read_input_tokens ?? 0;
+  const cacheWrite = usage.cache_creation_input_tokens ?? 0;
+  return {
+    inputTokens: { total: noCache + cacheRead + cacheWrite, noCache, cacheRead, cacheWrite },
+    outputTokens: { total: usage.output_tokens ?? 0 },
+  };
+}
+
+/**
+ * Maps the `modelUsage` field of a result message, keyed by model name.
+ *
+ * @param modelUsage - Per-model usage reported by the SDK
+ * @returns Per-model usage with numeric fields defaulted to 0
+ */
+export function mapClaudeCodeModelUsage(
+  modelUsage: Record<string, Partial<Record<string, unknown>>>
+): Record<string, ClaudeCodeModelUsage> {
+  const count = (value: unknown) => (typeof value === 'number' ? value : 0);
+  return Object.fromEntries(
+    Object.entries(modelUsage).map(([model, usage]) => [
+      model,
+      {
+        inputTokens: count(usage.inputTokens),
+        outputTokens: count(usage.outputTokens),
+        cacheReadInputTokens: count(usage.cacheReadInputTokens),
+        cacheCreationInputTokens: count(usage.cacheCreationInputTokens),
+        webSearchRequests: count(usage.webSearchRequests),
+        costUsd: count(usage.costUSD),
+        contextWindow: count(usage.contextWindow),
+      },
+    ])
+  );
+}
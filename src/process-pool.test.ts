@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AbortError,
+  type McpServerConfig,
+  type SDKMessage,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import { createClaudeCode } from './claude-code-provider.js';
+import { createClaudeCodePool, type ClaudeCodePool } from './process-pool.js';
+import type { ClaudeCodeQueryFunction } from './types.js';
+
+const assistant = (text: string) =>
+  ({
+    type: 'assistant',
+    message: { content: [{ type: 'text', text }] },
+    parent_tool_use_id: null,
+  }) as unknown as SDKMessage;
+
+const result = (processId: number) =>
+  ({
+    type: 'result',
+    subtype: 'success',
+    session_id: `session-${processId}`,
+    result: '',
+    usage: { input_tokens: 1, output_tokens: 1 },
+  }) as unknown as SDKMessage;
+
+/**
+ * Fake CLI: every query is a process that answers each input message with
+ * "<prompt> from <process id>" and a result.
+ */
+const createFakeCli = () => {
+  const state = { healthy: true, failingProcesses: new Set<number>() };
+  const processes: { id: number; prompts: string[]; aborted: boolean }[] = [];
+  const query = vi.fn<ClaudeCodeQueryFunction>(({ prompt, options }) => {
+    const cliProcess = { id: processes.length + 1, prompts: [] as string[], aborted: false };
+    processes.push(cliProcess);
+    options?.abortController?.signal.addEventListener('abort', () => (cliProcess.aborted = true));
+    const stream = (async function* () {
+      if (state.failingProcesses.has(cliProcess.id)) {
+        throw new Error('CLI failed to start');
+      }
+      for await (const message of prompt as AsyncIterable<SDKUserMessage>) {
+        const text = (message.message.content as [{ text: string }])[0].text;
+        cliProcess.prompts.push(text);
+        yield assistant(`${text} from ${cliProcess.id}`);
+        yield result(cliProcess.id);
+      }
+    })();
+    return Object.assign(stream, {
+      supportedCommands: async () => {
+        if (!state.healthy) throw new Error('no response');
+        return [];
+      },
+    });
+  });
+  return { query, processes, state };
+};
+
+const collect = async (stream: AsyncIterable<SDKMessage>) => {
+  const messages: SDKMessage[] = [];
+  for await (const message of stream) messages.push(message);
+  return messages;
+};
+
+const textOf = (messages: SDKMessage[]) =>
+  messages.flatMap((message) =>
+    message.type === 'assistant'
+      ? (message.message.content as { text: string }[]).map((part) => part.text)
+      : []
+  );
+
+describe('createClaudeCodePool', () => {
+  let pool: ClaudeCodePool | undefined;
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = undefined;
+  });
+
+  it('serves requests on warm workers started ahead of time', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+
+    expect(textOf(await collect(pool({ prompt: 'a', options: { model: 'haiku' } })))).toEqual([
+      'a from 1',
+    ]);
+    expect(cli.query).toHaveBeenCalledTimes(2);
+    expect(cli.processes[0].aborted).toBe(true);
+
+    expect(textOf(await collect(pool({ prompt: 'b', options: { model: 'haiku' } })))).toEqual([
+      'b from 2',
+    ]);
+    expect(cli.query.mock.calls[1][0].options).toMatchObject({ model: 'haiku' });
+    expect(pool.stats).toMatchObject({ idle: 1, busy: 0, coldStarts: 1, warmStarts: 1 });
+  });
+
+  it('forwards streaming input to the worker input queue', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+    let finish = () => {};
+    const prompt = (async function* () {
+      yield {
+        type: 'user',
+        message: { role: 'user', content: [{ type: 'text', text: 'streamed' }] },
+        parent_tool_use_id: null,
+        session_id: '',
+      } as SDKUserMessage;
+      await new Promise<void>((resolve) => (finish = resolve));
+    })();
+
+    const messages = await collect(pool({ prompt }));
+    finish();
+
+    expect(textOf(messages)).toEqual(['streamed from 1']);
+  });
+
+  it('reuses a worker for up to maxRequestsPerWorker requests', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({
+      size: 1,
+      maxRequestsPerWorker: 2,
+      query: cli.query,
+      logger: false,
+    });
+
+    await collect(pool({ prompt: 'a' }));
+    expect(cli.query).toHaveBeenCalledTimes(1);
+    expect(textOf(await collect(pool({ prompt: 'b' })))).toEqual(['b from 1']);
+    expect(cli.processes[0]).toMatchObject({ prompts: ['a', 'b'], aborted: true });
+    expect(textOf(await collect(pool({ prompt: 'c' })))).toEqual(['c from 2']);
+  });
+
+  it('only dispatches requests to workers started with the same options', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+    const canUseTool = async () => ({ behavior: 'allow' as const, updatedInput: {} });
+
+    await collect(pool({ prompt: 'a', options: { model: 'haiku', canUseTool } }));
+    expect(textOf(await collect(pool({ prompt: 'b', options: { model: 'opus' } })))).toEqual([
+      'b from 3',
+    ]);
+    // The idle haiku worker made room for an opus worker
+    expect(cli.processes[1].aborted).toBe(true);
+    expect(
+      textOf(await collect(pool({ prompt: 'c', options: { model: 'haiku', canUseTool } })))
+    ).toEqual(['c from 5']);
+    expect(pool.stats).toMatchObject({ coldStarts: 3, warmStarts: 0 });
+  });
+
+  it('runs requests that resume sessions or use in-process MCP servers directly', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ query: cli.query, logger: false });
+    const prompt = (async function* () {})();
+
+    pool({ prompt, options: { resume: 'session-1' } });
+    const tools = { type: 'sdk', name: 'tools' } as unknown as McpServerConfig;
+    pool({ prompt, options: { mcpServers: { tools } } });
+
+    expect(cli.query).toHaveBeenCalledTimes(2);
+    expect(cli.query.mock.calls[0][0]).toEqual({ prompt, options: { resume: 'session-1' } });
+    expect(pool.stats).toMatchObject({ bypassed: 2, idle: 0 });
+  });
+
+  it('stops the worker when a request is aborted', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+    const abortController = new AbortController();
+    const iterator = pool({ prompt: 'a', options: { abortController } })[Symbol.asyncIterator]();
+
+    expect((await iterator.next()).value).toEqual(assistant('a from 1'));
+    abortController.abort();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(AbortError);
+    expect(cli.processes[0].aborted).toBe(true);
+    expect(pool.stats).toMatchObject({ busy: 0, idle: 1 });
+  });
+
+  it('retires workers that stay idle past idleTimeoutMs', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, idleTimeoutMs: 20, query: cli.query, logger: false });
+
+    await collect(pool({ prompt: 'a' }));
+    expect(pool.stats.idle).toBe(1);
+
+    await expect.poll(() => pool!.stats.idle).toBe(0);
+    expect(cli.processes[1].aborted).toBe(true);
+    expect(cli.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('retires workers past maxLifetimeMs once their request finishes', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({
+      size: 1,
+      maxRequestsPerWorker: 10,
+      maxLifetimeMs: 0,
+      query: cli.query,
+      logger: false,
+    });
+
+    await collect(pool({ prompt: 'a' }));
+
+    expect(cli.processes[0].aborted).toBe(true);
+    expect(pool.stats).toMatchObject({ idle: 1, retired: 1 });
+  });
+
+  it('replaces idle workers that fail the health check', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({
+      size: 1,
+      healthCheckIntervalMs: 10,
+      query: cli.query,
+      logger: false,
+    });
+    await collect(pool({ prompt: 'a' }));
+
+    cli.state.healthy = false;
+    await expect.poll(() => cli.processes[1].aborted).toBe(true);
+    cli.state.healthy = true;
+
+    await expect.poll(() => pool!.stats.idle).toBe(1);
+    expect(cli.query.mock.calls.length).toBeGreaterThan(2);
+  });
+
+  it('drops idle workers whose process fails', async () => {
+    const cli = createFakeCli();
+    cli.state.failingProcesses.add(2).add(3);
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+
+    await collect(pool({ prompt: 'a' }));
+    await expect.poll(() => pool!.stats.idle).toBe(0);
+
+    expect(textOf(await collect(pool({ prompt: 'b' })))).toEqual(['b from 4']);
+    expect(pool.stats).toMatchObject({ coldStarts: 2, warmStarts: 0 });
+  });
+
+  it('stops idle workers and rejects requests once closed', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+    await collect(pool({ prompt: 'a' }));
+
+    await pool.close();
+
+    expect(cli.processes[1].aborted).toBe(true);
+    expect(pool.stats.idle).toBe(0);
+    await expect(collect(pool({ prompt: 'b' }))).rejects.toThrow('The Claude Code pool is closed');
+  });
+
+  it('runs model requests as the provider queryFunction', async () => {
+    const cli = createFakeCli();
+    pool = createClaudeCodePool({ size: 1, query: cli.query, logger: false });
+    const model = createClaudeCode({ queryFunction: pool })('haiku');
+    const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }];
+
+    const first = await model.doGenerate({ prompt });
+    const second = await model.doGenerate({ prompt });
+
+    expect(first.content).toEqual([{ type: 'text', text: expect.stringMatching(/Hi from 1$/) }]);
+    expect(second.content).toEqual([{ type: 'text', text: expect.stringMatching(/Hi from 2$/) }]);
+    expect(pool.stats).toMatchObject({ coldStarts: 1, warmStarts: 1 });
+  });
+});
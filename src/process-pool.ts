@@ -0,0 +1,431 @@
+import {
+  AbortError,
+  query,
+  type Options,
+  type Query,
+  type SDKMessage,
+  type SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import { createInputQueue, type InputQueue } from './input-queue.js';
+import { getLogger } from './logger.js';
+import type { ClaudeCodeQueryFunction, Logger } from './types.js';
+
+const DEFAULT_SIZE = 2;
+const DEFAULT_MAX_REQUESTS_PER_WORKER = 1;
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_LIFETIME_MS = 30 * 60 * 1000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 10 * 1000;
+
+export interface ClaudeCodePoolOptions {
+  /**
+   * Number of warm idle workers to keep ready. Defaults to 2.
+   */
+  size?: number;
+
+  /**
+   * Requests a worker serves before it is retired. Defaults to 1: every request gets a
+   * fresh, already started process. With higher values, requests on the same worker share
+   * one conversation, so later requests see the earlier ones.
+   */
+  maxRequestsPerWorker?: number;
+
+  /**
+   * Idle workers are stopped after this long without a request. Defaults to 5 minutes.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Workers are retired after this long, once their current request has finished.
+   * Defaults to 30 minutes.
+   */
+  maxLifetimeMs?: number;
+
+  /**
+   * Interval of the health checks of idle workers. Set to 0 to disable. Defaults to
+   * 30 seconds.
+   */
+  healthCheckIntervalMs?: number;
+
+  /**
+   * Query function that starts the workers (defaults to the SDK's `query()`).
+   */
+  query?: ClaudeCodeQueryFunction;
+
+  /**
+   * Logger for pool activity. Set to `false` to disable logging.
+   */
+  logger?: Logger | false;
+}
+
+export interface ClaudeCodePoolStats {
+  /** Workers started and waiting for a request. */
+  idle: number;
+  /** Workers serving a request. */
+  busy: number;
+  /** Requests served by a warm worker. */
+  warmStarts: number;
+  /** Requests that had to start a worker. */
+  coldStarts: number;
+  /** Requests that bypassed the pool (`resume`, `continue`, in-process MCP servers). */
+  bypassed: number;
+  /** Workers retired so far. */
+  retired: number;
+}
+
+/**
+ * Query function that runs requests on pooled CLI processes. Pass it as `queryFunction`.
+ */
+export interface ClaudeCodePool extends ClaudeCodeQueryFunction {
+  /**
+   * Current worker counts and request statistics.
+   */
+  readonly stats: ClaudeCodePoolStats;
+
+  /**
+   * Stops the idle workers and the health checks. Busy workers are stopped when their
+   * request finishes; later requests fail.
+   */
+  close(): Promise<void>;
+}
+
+interface Worker {
+  key: string;
+  options: Options;
+  input: InputQueue<SDKUserMessage>;
+  abortController: AbortController;
+  query: AsyncIterable<SDKMessage> & Partial<Pick<Query, 'supportedCommands'>>;
+  stream: AsyncIterator<SDKMessage>;
+  /** Pending read started while the worker was idle. */
+  pending?: Promise<IteratorResult<SDKMessage>>;
+  /** Messages that arrived while the worker was idle. */
+  buffered: SDKMessage[];
+  startedAt: number;
+  requests: number;
+  state: 'idle' | 'busy' | 'retired';
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Requests that resume or continue a session, or that use in-process MCP servers (such as
+ * the bridge for AI SDK function tools, which is created per request), cannot run on a
+ * shared process.
+ */
+function isPoolable(options: Options): boolean {
+  return (
+    !options.resume &&
+    !options.continue &&
+    !Object.values(options.mcpServers ?? {}).some((server) => server.type === 'sdk')
+  );
+}
+
+/**
+ * Creates a query function that keeps warm CLI processes ready, so requests skip the
+ * process startup that dominates the latency of short prompts. Pass it as the provider's
+ * `queryFunction`.
+ *
+ * Workers are streaming-input queries fed by a long-lived input queue. Each request goes
+ * to an idle worker started with the same options (model, tools, system prompt, `cwd`,
+ * ...), or starts one when none is idle, and the pool starts replacements in the
+ * background to keep `size` workers warm. Callbacks such as `canUseTool` and hooks match
+ * by identity, so define them once rather than per request.
+ *
+ * Aborting a request stops its worker. Requests with `resume`, `continue` or in-process
+ * MCP servers, including requests with AI SDK function tools, bypass the pool.
+ *
+ * @param options - Pool options
+ * @returns The pooling query function
+ *
+ * @example
+ * ```typescript
+ * const pool = createClaudeCodePool({ size: 4 });
+ * const provider = createClaudeCode({ queryFunction: pool });
+ *
+ * // ... run the jobs, then
+ * await pool.close();
+ * ```
+ */
+export function createClaudeCodePool(options: ClaudeCodePoolOptions = {}): ClaudeCodePool {
+  const run = options.query ?? query;
+  const logger = getLogger(options.logger);
+  const size = options.size ?? DEFAULT_SIZE;
+  const maxRequestsPerWorker = options.maxRequestsPerWorker ?? DEFAULT_MAX_REQUESTS_PER_WORKER;
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  const maxLifetimeMs = options.maxLifetimeMs ?? DEFAULT_MAX_LIFETIME_MS;
+  const healthCheckIntervalMs = options.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+
+  const workers = new Set<Worker>();
+  const stats = { warmStarts: 0, coldStarts: 0, bypassed: 0, retired: 0 };
+  let closed = false;
+
+  // Options are matched by value, callbacks by identity
+  const objectIds = new WeakMap<object, number>();
+  let nextObjectId = 0;
+  const identity = (value: object) => {
+    if (!objectIds.has(value)) objectIds.set(value, ++nextObjectId);
+    return `#${objectIds.get(value)}`;
+  };
+  const optionsKey = (requestOptions: Options) =>
+    JSON.stringify({ ...requestOptions, abortController: undefined }, (_key, value) =>
+      typeof value === 'function' ? identity(value) : value
+    );
+
+  const idleWorkers = (key?: string) =>
+    [...workers].filter((worker) => worker.state === 'idle' && (!key || worker.key === key));
+
+  const retire = (worker: Worker, reason: string) => {
+    if (worker.state === 'retired') return;
+    logger.debug(`[claude-code] Retiring pooled worker (${reason})`);
+    worker.state = 'retired';
+    clearTimeout(worker.idleTimer);
+    workers.delete(worker);
+    stats.retired++;
+    worker.input.end();
+    worker.abortController.abort();
+  };
+
+  // Reads ahead while the worker is idle, so a process that exits is noticed before it
+  // gets a request
+  const watch = (worker: Worker) => {
+    const pending = worker.stream.next();
+    worker.pending = pending;
+    pending.then(
+      (result) => {
+        if (worker.state !== 'idle' || worker.pending !== pending) return;
+        worker.pending = undefined;
+        if (result.done) {
+          retire(worker, 'process exited');
+        } else {
+          worker.buffered.push(result.value);
+          watch(worker);
+        }
+      },
+      (error: unknown) => {
+        if (worker.state !== 'idle' || worker.pending !== pending) return;
+        worker.pending = undefined;
+        logger.warn(
+          `[claude-code] Pooled worker failed while idle: ${error instanceof Error ? error.message : String(error)}`
+        );
+        retire(worker, 'failed');
+      }
+    );
+  };
+
+  const read = (worker: Worker): Promise<IteratorResult<SDKMessage>> => {
+    const buffered = worker.buffered.shift();
+    if (buffered) return Promise.resolve({ done: false, value: buffered });
+    const pending = worker.pending;
+    worker.pending = undefined;
+    return pending ?? worker.stream.next();
+  };
+
+  const setIdle = (worker: Worker) => {
+    worker.state = 'idle';
+    worker.idleTimer = setTimeout(() => retire(worker, 'idle timeout'), idleTimeoutMs);
+    worker.idleTimer.unref?.();
+    if (!worker.pending) watch(worker);
+  };
+
+  const startWorker = (key: string, workerOptions: Options, state: 'idle' | 'busy'): Worker => {
+    const input = createInputQueue<SDKUserMessage>();
+    const abortController = new AbortController();
+    const workerQuery = run({ prompt: input, options: { ...workerOptions, abortController } });
+    const worker: Worker = {
+      key,
+      options: workerOptions,
+      input,
+      abortController,
+      query: workerQuery,
+      stream: workerQuery[Symbol.asyncIterator](),
+      buffered: [],
+      startedAt: Date.now(),
+      requests: 0,
+      state,
+    };
+    workers.add(worker);
+    if (state === 'idle') setIdle(worker);
+    return worker;
+  };
+
+  // Keeps `size` workers with the given options warm, stopping idle workers with other
+  // options (oldest first) to make room
+  const replenish = (key: string, workerOptions: Options) => {
+    while (!closed && idleWorkers(key).length < size) {
+      if (idleWorkers().length >= size) {
+        const other = idleWorkers().find((worker) => worker.key !== key);
+        if (!other) return;
+        retire(other, 'evicted for other options');
+      }
+      try {
+        startWorker(key, workerOptions, 'idle');
+      } catch (error) {
+        logger.warn(
+          `[claude-code] Unable to start a pooled worker: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return;
+      }
+    }
+  };
+
+  const acquire = (key: string, requestOptions: Options): Worker => {
+    const worker = idleWorkers(key)[0];
+    if (worker) {
+      clearTimeout(worker.idleTimer);
+      worker.state = 'busy';
+      stats.warmStarts++;
+    }
+    const acquired = worker ?? startWorker(key, requestOptions, 'busy');
+    if (!worker) stats.coldStarts++;
+    acquired.requests++;
+    // Start a replacement now if the worker will not come back after this request
+    if (acquired.requests >= maxRequestsPerWorker) {
+      replenish(key, requestOptions);
+    }
+    return acquired;
+  };
+
+  const release = (worker: Worker) => {
+    if (worker.state !== 'busy') return;
+    if (closed) {
+      retire(worker, 'pool closed');
+    } else if (worker.requests >= maxRequestsPerWorker) {
+      retire(worker, 'max requests reached');
+    } else if (Date.now() - worker.startedAt >= maxLifetimeMs) {
+      retire(worker, 'max lifetime reached');
+    } else if (idleWorkers().length >= size) {
+      retire(worker, 'enough idle workers');
+    } else {
+      setIdle(worker);
+      return;
+    }
+    replenish(worker.key, worker.options);
+  };
+
+  const checkHealth = async (worker: Worker) => {
+    if (Date.now() - worker.startedAt >= maxLifetimeMs) {
+      retire(worker, 'max lifetime reached');
+      replenish(worker.key, worker.options);
+      return;
+    }
+    if (typeof worker.query.supportedCommands !== 'function') return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        worker.query.supportedCommands(),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error('health check timed out')),
+            HEALTH_CHECK_TIMEOUT_MS
+          );
+        }),
+      ]);
+    } catch (error) {
+      if (worker.state !== 'idle') return;
+      logger.warn(
+        `[claude-code] Pooled worker failed its health check: ${error instanceof Error ? error.message : String(error)}`
+      );
+      retire(worker, 'unhealthy');
+      replenish(worker.key, worker.options);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const healthTimer =
+    healthCheckIntervalMs > 0
+      ? setInterval(
+          () => idleWorkers().forEach((worker) => void checkHealth(worker)),
+          healthCheckIntervalMs
+        )
+      : undefined;
+  healthTimer?.unref?.();
+
+  const pooled: ClaudeCodeQueryFunction = ({ prompt, options: requestOptions = {} }) => {
+    if (!isPoolable(requestOptions)) {
+      stats.bypassed++;
+      return run({ prompt, options: requestOptions });
+    }
+
+    return (async function* (): AsyncGenerator<SDKMessage> {
+      const signal = requestOptions.abortController?.signal;
+      if (signal?.aborted) {
+        throw new AbortError('Claude Code process aborted by user');
+      }
+      if (closed) {
+        throw new Error('The Claude Code pool is closed');
+      }
+
+      const worker = acquire(optionsKey(requestOptions), requestOptions);
+      let finished = false;
+      const onAbort = () => retire(worker, 'request aborted');
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        if (typeof prompt === 'string') {
+          worker.input.push({
+            type: 'user',
+            message: { role: 'user', content: [{ type: 'text', text: prompt }] },
+            parent_tool_use_id: null,
+            session_id: '',
+          });
+        } else {
+          // The request's prompt stays open until its result; only its messages are forwarded
+          void (async () => {
+            for await (const message of prompt) {
+              if (finished || worker.state !== 'busy') return;
+              worker.input.push(message);
+            }
+          })().catch((error: unknown) =>
+            logger.warn(`[claude-code] Pooled request input failed: ${String(error)}`)
+          );
+        }
+
+        while (true) {
+          let result: IteratorResult<SDKMessage>;
+          try {
+            result = await read(worker);
+          } catch (error) {
+            if (signal?.aborted) throw new AbortError('Claude Code process aborted by user');
+            throw error;
+          }
+          if (signal?.aborted) {
+            throw new AbortError('Claude Code process aborted by user');
+          }
+          if (result.done) {
+            throw new Error('Claude Code process exited before the request finished');
+          }
+          if (result.value.type === 'result') {
+            finished = true;
+            yield result.value;
+            return;
+          }
+          yield result.value;
+        }
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (finished) {
+          release(worker);
+        } else {
+          retire(worker, 'request did not finish');
+        }
+      }
+    })();
+  };
+
+  return Object.defineProperties(pooled, {
+    stats: {
+      get: (): ClaudeCodePoolStats => ({
+        idle: idleWorkers().length,
+        busy: [...workers].filter((worker) => worker.state === 'busy').length,
+        ...stats,
+      }),
+    },
+    close: {
+      value: async () => {
+        closed = true;
+        clearInterval(healthTimer);
+        idleWorkers().forEach((worker) => retire(worker, 'pool closed'));
+      },
+    },
+  }) as ClaudeCodePool;
+}
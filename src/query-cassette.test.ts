@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AbortError, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import {
+  createRecordingQuery,
+  createReplayQuery,
+  loadCassette,
+  parseCassette,
+  serializeCassette,
+} from './query-cassette.js';
+
+const init = {
+  type: 'system',
+  subtype: 'init',
+  session_id: 'session-1',
+  apiKeySource: 'user',
+} as unknown as SDKMessage;
+
+const result = (text: string) =>
+  ({
+    type: 'result',
+    subtype: 'success',
+    session_id: 'session-1',
+    result: text,
+    usage: { input_tokens: 10, output_tokens: 5 },
+  }) as unknown as SDKMessage;
+
+const collect = async (stream: AsyncIterable<SDKMessage>) => {
+  const messages: SDKMessage[] = [];
+  for await (const message of stream) messages.push(message);
+  return messages;
+};
+
+describe('createRecordingQuery', () => {
+  it('passes messages through and records them per query', async () => {
+    const streams = [[init, result('first')], [result('second')]];
+    const recorder = createRecordingQuery({
+      query: async function* () {
+        yield* streams.shift()!;
+      },
+    });
+
+    expect(await collect(recorder({ prompt: 'a' }))).toEqual([init, result('first')]);
+    await collect(recorder({ prompt: 'b' }));
+
+    expect(recorder.cassette.interactions).toEqual([[init, result('first')], [result('second')]]);
+    expect(recorder.toJSONL().trim().split('\n')).toHaveLength(3);
+  });
+
+  it('scrubs secrets from recorded messages only', async () => {
+    const message = {
+      type: 'assistant',
+      message: {
+        content: [{ type: 'text', text: 'key sk-ant-api03-abc_DEF-123 in /home/alice/app' }],
+        usage: { input_tokens: 3 },
+      },
+      headers: { authorization: 'Bearer abc.def', access_token: 'xyz' },
+    } as unknown as SDKMessage;
+    const recorder = createRecordingQuery({
+      query: async function* () {
+        yield message;
+      },
+      redact: ['/home/alice'],
+      scrub: (recorded) => ({ ...recorded, scrubbed: true }) as unknown as SDKMessage,
+    });
+
+    const [passed] = await collect(recorder({ prompt: 'a' }));
+
+    expect(passed).toBe(message);
+    expect(recorder.cassette.interactions[0][0]).toEqual({
+      type: 'assistant',
+      message: {
+        content: [{ type: 'text', text: 'key [REDACTED] in [REDACTED]/app' }],
+        usage: { input_tokens: 3 },
+      },
+      headers: { authorization: '[REDACTED]', access_token: '[REDACTED]' },
+      scrubbed: true,
+    });
+  });
+
+  it('saves JSONL that loadCassette reads back', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+    try {
+      const recorder = createRecordingQuery({
+        query: async function* () {
+          yield init;
+          yield result('done');
+        },
+      });
+      await collect(recorder({ prompt: 'a' }));
+
+      const path = join(dir, 'flow.jsonl');
+      await recorder.save(path);
+
+      expect(await readFile(path, 'utf8')).toBe(recorder.toJSONL());
+      expect(await loadCassette(path)).toEqual(recorder.cassette);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createReplayQuery', () => {
+  it('replays interactions in order and throws when they run out', async () => {
+    const replay = createReplayQuery({
+      interactions: [[init, result('first')], [result('second')]],
+    });
+
+    expect(replay.remaining).toBe(2);
+    expect(await collect(replay({ prompt: 'a' }))).toEqual([init, result('first')]);
+    expect(await collect(replay({ prompt: 'b' }))).toEqual([result('second')]);
+    expect(replay.remaining).toBe(0);
+    expect(() => replay({ prompt: 'c' })).toThrow(
+      'Cassette has no recorded interaction 3 (2 recorded)'
+    );
+  });
+
+  it('accepts JSONL and returns copies of the recorded messages', async () => {
+    const jsonl = serializeCassette({ interactions: [[result('done')]] });
+    const replay = createReplayQuery(jsonl);
+
+    const [message] = await collect(replay({ prompt: 'a' }));
+
+    expect(message).toEqual(result('done'));
+    expect(parseCassette(jsonl).interactions[0][0]).not.toBe(message);
+  });
+
+  it('ends the stream with an AbortError once aborted', async () => {
+    const abortController = new AbortController();
+    const replay = createReplayQuery({ interactions: [[init, result('done')]] });
+    const stream = replay({ prompt: 'a', options: { abortController } });
+
+    const iterator = stream[Symbol.asyncIterator]();
+    expect((await iterator.next()).value).toEqual(init);
+    abortController.abort();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('parseCassette', () => {
+  it('rejects lines that are not recorded messages', () => {
+    expect(() => parseCassette('{"interaction":0,"message":{"type":"result"}}\nnope')).toThrow(
+      'Invalid cassette line 2: not JSON'
+    );
+    expect(() => parseCassette('{"message":{}}')).toThrow(
+      'Invalid cassette line 1: expected { interaction, message }'
+    );
+  });
+});
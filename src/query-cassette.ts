@@ -0,0 +1,240 @@
+import { readFile, writeFile } from 'fs/promises';
+import { AbortError, query, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { ClaudeCodeQueryFunction } from './types.js';
+
+/**
+ * Recorded Agent SDK message streams, one per query, in the order the queries ran.
+ *
+ * Cassettes are stored as JSONL with one line per message:
+ * `{"interaction":0,"message":{"type":"system",...}}`.
+ */
+export interface ClaudeCodeCassette {
+  interactions: SDKMessage[][];
+}
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are always secret. Token counters such as `input_tokens` do not match.
+const SECRET_KEY =
+  /^(api[_-]?key|x-api-key|authorization|password|secret|client[_-]?secret|(access|refresh|auth|bearer|session|oauth)[_-]?token)$/i;
+
+const SECRET_VALUES = [/sk-ant-[\w-]+/g, /\bBearer\s+[\w.~+/-]+=*/g];
+
+/**
+ * Redacts secrets from a message before it is written to a cassette: values of secret
+ * keys (API keys, tokens, passwords), Anthropic API keys and bearer tokens in any string,
+ * and the given extra values.
+ */
+function scrubSecrets<T>(value: T, redact: readonly (string | RegExp)[]): T {
+  const scrubString = (text: string): string => {
+    let scrubbed = text;
+    for (const pattern of [...SECRET_VALUES, ...redact]) {
+      if (typeof pattern === 'string') {
+        if (pattern) scrubbed = scrubbed.split(pattern).join(REDACTED);
+      } else {
+        const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+        scrubbed = scrubbed.replace(new RegExp(pattern.source, flags), REDACTED);
+      }
+    }
+    return scrubbed;
+  };
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') return scrubString(node);
+    if (Array.isArray(node)) return node.map(walk);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [
+          key,
+          SECRET_KEY.test(key) && typeof child === 'string' ? REDACTED : walk(child),
+        ])
+      );
+    }
+    return node;
+  };
+
+  return walk(value) as T;
+}
+
+/**
+ * Serializes a cassette to JSONL.
+ */
+export function serializeCassette(cassette: ClaudeCodeCassette): string {
+  return cassette.interactions
+    .flatMap((messages, interaction) =>
+      messages.map((message) => `${JSON.stringify({ interaction, message })}\n`)
+    )
+    .join('');
+}
+
+/**
+ * Parses a cassette from JSONL. Blank lines are ignored.
+ *
+ * @throws {Error} When a line is not a recorded message
+ */
+export function parseCassette(jsonl: string): ClaudeCodeCassette {
+  const interactions: SDKMessage[][] = [];
+  jsonl.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    let entry: { interaction?: unknown; message?: unknown };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid cassette line ${index + 1}: not JSON`);
+    }
+    if (
+      typeof entry.interaction !== 'number' ||
+      !Number.isInteger(entry.interaction) ||
+      entry.interaction < 0 ||
+      !entry.message ||
+      typeof entry.message !== 'object'
+    ) {
+      throw new Error(`Invalid cassette line ${index + 1}: expected { interaction, message }`);
+    }
+    (interactions[entry.interaction] ??= []).push(entry.message as SDKMessage);
+  });
+  return { interactions: Array.from(interactions, (messages) => messages ?? []) };
+}
+
+/**
+ * Reads a JSONL cassette file.
+ */
+export async function loadCassette(path: string): Promise<ClaudeCodeCassette> {
+  return parseCassette(await readFile(path, 'utf8'));
+}
+
+/**
+ * Query function that records the messages of every query it runs. Pass it as
+ * `queryFunction`, run the flow once against the real CLI, then `save()` the cassette.
+ */
+export interface ClaudeCodeRecordingQuery extends ClaudeCodeQueryFunction {
+  /**
+   * The scrubbed messages recorded so far.
+   */
+  readonly cassette: ClaudeCodeCassette;
+
+  /**
+   * Returns the recorded cassette as JSONL.
+   */
+  toJSONL(): string;
+
+  /**
+   * Writes the recorded cassette to a JSONL file.
+   */
+  save(path: string): Promise<void>;
+}
+
+/**
+ * Creates a query function that runs queries through the Agent SDK and records the
+ * streamed messages. Secrets are scrubbed before messages are recorded; the messages
+ * passed to the provider are unchanged.
+ *
+ * @param options.query - Query function to record (defaults to the SDK's `query()`)
+ * @param options.redact - Extra strings or patterns to replace with `[REDACTED]`
+ * @param options.scrub - Runs on every message after the built-in redaction, e.g. to
+ *   remove local paths
+ * @returns The recording query function
+ *
+ * @example
+ * ```typescript
+ * const recorder = createRecordingQuery({ redact: [process.env.HOME!] });
+ * const model = claudeCode('sonnet', { queryFunction: recorder });
+ *
+ * await generateText({ model, prompt: 'Summarize README.md' });
+ * await recorder.save('test/cassettes/summarize.jsonl');
+ * ```
+ */
+export function createRecordingQuery(
+  options: {
+    query?: ClaudeCodeQueryFunction;
+    redact?: readonly (string | RegExp)[];
+    scrub?: (message: SDKMessage) => SDKMessage;
+  } = {}
+): ClaudeCodeRecordingQuery {
+  const run = options.query ?? query;
+  const interactions: SDKMessage[][] = [];
+
+  const record = (message: SDKMessage): SDKMessage => {
+    const scrubbed = scrubSecrets(message, options.redact ?? []);
+    return options.scrub ? options.scrub(scrubbed) : scrubbed;
+  };
+
+  const recording: ClaudeCodeQueryFunction = (params) => {
+    const messages: SDKMessage[] = [];
+    interactions.push(messages);
+    const source = run(params);
+    return (async function* () {
+      for await (const message of source) {
+        messages.push(record(message));
+        yield message;
+      }
+    })();
+  };
+
+  const toJSONL = () => serializeCassette({ interactions });
+  return Object.defineProperties(recording, {
+    cassette: {
+      get: (): ClaudeCodeCassette => ({ interactions: interactions.map((m) => [...m]) }),
+    },
+    toJSONL: { value: toJSONL },
+    save: { value: (path: string) => writeFile(path, toJSONL(), 'utf8') },
+  }) as ClaudeCodeRecordingQuery;
+}
+
+/**
+ * Query function that replays a cassette. Each query gets the next recorded interaction.
+ */
+export interface ClaudeCodeReplayQuery extends ClaudeCodeQueryFunction {
+  /**
+   * Number of recorded interactions that have not been replayed yet.
+   */
+  readonly remaining: number;
+}
+
+/**
+ * Creates a query function that replays recorded message streams instead of starting
+ * the CLI, so flows can be tested offline and deterministically. Queries replay the
+ * recorded interactions in order; a query beyond the last interaction throws.
+ *
+ * The replay honors the query's `abortController` like the CLI: once it is aborted, the
+ * stream ends with an `AbortError`.
+ *
+ * @param cassette - A cassette, or its JSONL text
+ * @returns The replaying query function
+ *
+ * @example
+ * ```typescript
+ * const model = claudeCode('sonnet', {
+ *   queryFunction: createReplayQuery(await loadCassette('test/cassettes/summarize.jsonl')),
+ * });
+ *
+ * const { text } = await generateText({ model, prompt: 'Summarize README.md' });
+ * ```
+ */
+export function createReplayQuery(cassette: ClaudeCodeCassette | string): ClaudeCodeReplayQuery {
+  const { interactions } = typeof cassette === 'string' ? parseCassette(cassette) : cassette;
+  let next = 0;
+
+  const replay: ClaudeCodeQueryFunction = ({ options }) => {
+    const interaction = next++;
+    const messages = interactions[interaction];
+    if (!messages) {
+      throw new Error(
+        `Cassette has no recorded interaction ${interaction + 1} (${interactions.length} recorded)`
+      );
+    }
+    const signal = options?.abortController?.signal;
+    return (async function* () {
+      for (const message of messages) {
+        if (signal?.aborted) {
+          throw new AbortError('Claude Code process aborted by user');
+        }
+        yield structuredClone(message);
+      }
+    })();
+  };
+
+  return Object.defineProperties(replay, {
+    remaining: { get: () => Math.max(interactions.length - next, 0) },
+  }) as ClaudeCodeReplayQuery;
+}
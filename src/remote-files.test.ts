@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { lookup } from 'dns/promises';
+import type { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import { inlineRemoteFiles } from './remote-files.js';
+
+vi.mock('dns/promises', () => ({ lookup: vi.fn() }));
+
+// Resolves hosts from a fixed table; everything else gets a public address
+const hostAddresses: Record<string, string[]> = {
+  'internal.example.com': ['10.0.0.7'],
+  'dual.example.com': ['93.184.216.34', 'fd00:ec2::254'],
+};
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+// Serves fixed responses by URL instead of going to the network
+function createFetchStub(
+  routes: Record<string, { body?: BodyInit; status?: number; headers?: Record<string, string> }>
+) {
+  return vi.fn(async (input: string | URL | Request) => {
+    const route = routes[String(input)];
+    if (!route) {
+      return new Response('not found', { status: 404 });
+    }
+    return new Response(route.body ?? null, {
+      status: route.status ?? 200,
+      headers: route.headers,
+    });
+  });
+}
+
+const imagePrompt = (url: string | URL): LanguageModelV3Prompt => [
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'What is this?' },
+      { type: 'file', mediaType: 'image/*', data: typeof url === 'string' ? new URL(url) : url },
+    ],
+  },
+];
+
+describe('inlineRemoteFiles', () => {
+  beforeEach(() => {
+    vi.mocked(lookup).mockClear();
+    vi.mocked(lookup).mockImplementation((async (hostname: string) => {
+      if (hostname.endsWith('.invalid')) {
+        throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+      }
+      return (hostAddresses[hostname] ?? ['93.184.216.34']).map((address) => ({
+        address,
+        family: address.includes(':') ? 6 : 4,
+      }));
+    }) as unknown as typeof lookup);
+  });
+
+  it('downloads URLs and inlines the bytes with the server MIME type', async () => {
+    const fetch = createFetchStub({
+      'https://cdn.example.com/cat.png': {
+        body: PNG_BYTES,
+        headers: { 'content-type': 'image/png; charset=binary' },
+      },
+    });
+
+    const result = await inlineRemoteFiles(imagePrompt('https://cdn.example.com/cat.png'), {
+      fetch,
+    });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.prompt[0].content[1]).toEqual({
+      type: 'file',
+      mediaType: 'image/png',
+      data: PNG_BYTES,
+    });
+    expect(fetch).toHaveBeenCalledWith('https://cdn.example.com/cat.png', expect.any(Object));
+  });
+
+  it('leaves inline data and non-user messages untouched', async () => {
+    const fetch = createFetchStub({});
+    const prompt: LanguageModelV3Prompt = [
+      { role: 'system', content: 'https://example.com/not-a-file' },
+      {
+        role: 'user',
+        content: [{ type: 'file', mediaType: 'image/png', data: 'iVBORw0KGgo=' }],
+      },
+    ];
+
+    const result = await inlineRemoteFiles(prompt, { fetch });
+
+    expect(result.prompt).toEqual(prompt);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('rejects hosts outside the allowlist without fetching', async () => {
+    const fetch = createFetchStub({});
+
+    const result = await inlineRemoteFiles(imagePrompt('https://evil.test/a.png'), {
+      fetch,
+      allowedHosts: ['*.example.com'],
+    });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(result.prompt[0].content).toHaveLength(1);
+    expect(result.warnings).toEqual([
+      'Unable to fetch https://evil.test/a.png: host evil.test is not in allowedHosts',
+    ]);
+  });
+
+  it('checks redirects against the allowlist', async () => {
+    const fetch = createFetchStub({
+      'https://img.example.com/a.png': {
+        status: 302,
+        headers: { location: 'https://img2.example.com/a.png' },
+      },
+      'https://img2.example.com/a.png': {
+        status: 301,
+        headers: { location: 'http://169.254.169.254/latest' },
+      },
+    });
+
+    const result = await inlineRemoteFiles(imagePrompt('https://img.example.com/a.png'), {
+      fetch,
+      allowedHosts: ['*.example.com'],
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.warnings).toEqual([
+      'Unable to fetch https://img.example.com/a.png: redirect to 169.254.169.254 is not allowed',
+    ]);
+  });
+
+  it('refuses loopback, private, link-local and metadata addresses without fetching', async () => {
+    const fetch = createFetchStub({});
+    const urls = [
+      'http://localhost:8080/a.png',
+      'http://app.localhost/a.png',
+      'http://127.0.0.1/a.png',
+      'http://2130706433/a.png',
+      'http://10.1.2.3/a.png',
+      'http://172.16.0.1/a.png',
+      'http://192.168.1.1/a.png',
+      'http://169.254.169.254/latest/meta-data',
+      'http://100.100.100.200/a.png',
+      'http://0.0.0.0/a.png',
+      'http://[::1]/a.png',
+      'http://[::]/a.png',
+      'http://[fe80::1]/a.png',
+      'http://[fd00:ec2::254]/a.png',
+      'http://[::ffff:127.0.0.1]/a.png',
+      'http://[::ffff:a9fe:a9fe]/a.png',
+      'http://[64:ff9b::10.0.0.1]/a.png',
+    ];
+
+    for (const url of urls) {
+      const result = await inlineRemoteFiles(imagePrompt(url), { fetch });
+      expect(result.warnings, url).toEqual([
+        expect.stringMatching(/is a private network address$/),
+      ]);
+    }
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses hosts that resolve to a private address', async () => {
+    const fetch = createFetchStub({});
+
+    const internal = await inlineRemoteFiles(imagePrompt('https://internal.example.com/a.png'), {
+      fetch,
+    });
+    const dual = await inlineRemoteFiles(imagePrompt('https://dual.example.com/a.png'), {
+      fetch,
+      allowedHosts: ['*.example.com'],
+    });
+    const unresolvable = await inlineRemoteFiles(imagePrompt('https://cdn.invalid/a.png'), {
+      fetch,
+    });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(internal.warnings).toEqual([
+      'Unable to fetch https://internal.example.com/a.png: host internal.example.com resolves to private network address 10.0.0.7',
+    ]);
+    expect(dual.warnings).toEqual([
+      'Unable to fetch https://dual.example.com/a.png: host dual.example.com resolves to private network address fd00:ec2::254',
+    ]);
+    expect(unresolvable.warnings).toEqual([
+      'Unable to fetch https://cdn.invalid/a.png: host cdn.invalid could not be resolved: getaddrinfo ENOTFOUND cdn.invalid',
+    ]);
+  });
+
+  it('refuses redirects to private addresses', async () => {
+    const fetch = createFetchStub({
+      'https://cdn.example.com/a.png': {
+        status: 302,
+        headers: { location: 'http://169.254.169.254/latest/meta-data' },
+      },
+      'https://cdn.example.com/b.png': {
+        status: 302,
+        headers: { location: 'https://internal.example.com/b.png' },
+      },
+    });
+
+    const metadata = await inlineRemoteFiles(imagePrompt('https://cdn.example.com/a.png'), {
+      fetch,
+    });
+    const internal = await inlineRemoteFiles(imagePrompt('https://cdn.example.com/b.png'), {
+      fetch,
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(metadata.warnings).toEqual([
+      'Unable to fetch https://cdn.example.com/a.png: host 169.254.169.254 is a private network address',
+    ]);
+    expect(internal.warnings).toEqual([
+      'Unable to fetch https://cdn.example.com/b.png: host internal.example.com resolves to private network address 10.0.0.7',
+    ]);
+  });
+
+  it('allows private addresses with allowPrivateNetwork', async () => {
+    const fetch = createFetchStub({
+      'http://127.0.0.1:9000/a.png': { body: PNG_BYTES, headers: { 'content-type': 'image/png' } },
+    });
+
+    const result = await inlineRemoteFiles(imagePrompt('http://127.0.0.1:9000/a.png'), {
+      fetch,
+      allowPrivateNetwork: true,
+    });
+
+    expect(result.warnings).toEqual([]);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('enforces content type and size limits', async () => {
+    const fetch = createFetchStub({
+      'https://example.com/page': { body: '<html>', headers: { 'content-type': 'text/html' } },
+      'https://example.com/big.png': {
+        body: new Uint8Array(2048),
+        headers: { 'content-type': 'image/png', 'content-length': '2048' },
+      },
+      'https://example.com/chunked.png': {
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array(600));
+            controller.enqueue(new Uint8Array(600));
+            controller.close();
+          },
+        }),
+        headers: { 'content-type': 'image/png' },
+      },
+    });
+    const prompt: LanguageModelV3Prompt = [
+      {
+        role: 'user',
+        content: ['page', 'big.png', 'chunked.png'].map((name) => ({
+          type: 'file' as const,
+          mediaType: 'image/*',
+          data: new URL(`https://example.com/${name}`),
+        })),
+      },
+    ];
+
+    const result = await inlineRemoteFiles(prompt, {
+      fetch,
+      maxBytes: 1024,
+      allowedContentTypes: ['image/*'],
+    });
+
+    expect(result.prompt[0].content).toEqual([]);
+    expect(result.warnings).toEqual([
+      'Unable to fetch https://example.com/page: content type text/html is not allowed',
+      'Unable to fetch https://example.com/big.png: file size 2048 exceeds maxBytes (1024)',
+      'Unable to fetch https://example.com/chunked.png: file exceeds maxBytes (1024)',
+    ]);
+  });
+
+  it('reports failed downloads and rethrows aborts', async () => {
+    const failing = createFetchStub({});
+    const result = await inlineRemoteFiles(imagePrompt('https://example.com/missing.png'), {
+      fetch: failing,
+    });
+    expect(result.warnings).toEqual(['Unable to fetch https://example.com/missing.png: HTTP 404']);
+
+    const abortController = new AbortController();
+    abortController.abort(new Error('cancelled'));
+    const aborting = vi.fn(async () => {
+      throw abortController.signal.reason;
+    });
+    await expect(
+      inlineRemoteFiles(
+        imagePrompt('https://example.com/a.png'),
+        { fetch: aborting },
+        abortController.signal
+      )
+    ).rejects.toThrow('cancelled');
+  });
+});
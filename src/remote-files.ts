@@ -0,0 +1,324 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import type { LanguageModelV3Prompt } from '@ai-sdk/provider';
+import type { ClaudeCodeFetchRemoteFilesSettings } from './types.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ALLOWED_CONTENT_TYPES = ['image/*', 'application/pdf', 'text/*'];
+const MAX_REDIRECTS = 5;
+
+/**
+ * URL patterns reported as `supportedUrls` when `fetchRemoteFiles` is enabled, so the
+ * AI SDK passes http(s) URLs through instead of downloading them itself.
+ */
+export const REMOTE_FILE_URLS: Record<string, RegExp[]> = {
+  'image/*': [/^https?:\/\//i],
+  'application/pdf': [/^https?:\/\//i],
+  'text/*': [/^https?:\/\//i],
+};
+
+type PromptPart = {
+  type: string;
+  data?: unknown;
+  image?: unknown;
+  mediaType?: string;
+  mimeType?: string;
+  filename?: string;
+  providerOptions?: unknown;
+};
+
+/**
+ * Downloads http(s) URLs of image and file parts in user messages and replaces them with
+ * file parts holding the downloaded bytes and the MIME type reported by the server.
+ *
+ * Parts whose URL fails the host, content type or size limits, points to a private network
+ * address, or fails to download, are removed and reported as warnings.
+ *
+ * @param prompt - The AI SDK prompt
+ * @param settings - The `fetchRemoteFiles` setting (`true` uses the defaults)
+ * @param abortSignal - Aborts pending downloads
+ * @returns The prompt with inlined files and the warnings for skipped URLs
+ */
+export async function inlineRemoteFiles(
+  prompt: LanguageModelV3Prompt,
+  settings: true | ClaudeCodeFetchRemoteFilesSettings,
+  abortSignal?: AbortSignal
+): Promise<{ prompt: LanguageModelV3Prompt; warnings: string[] }> {
+  const options = settings === true ? {} : settings;
+  const warnings: string[] = [];
+
+  const inlinePart = async (part: PromptPart): Promise<PromptPart | undefined> => {
+    const url = getRemoteUrl(part);
+    if (!url) {
+      return part;
+    }
+    try {
+      const { data, mediaType } = await downloadFile(url, options, abortSignal);
+      return {
+        type: 'file',
+        data,
+        mediaType,
+        ...(part.filename !== undefined && { filename: part.filename }),
+        ...(part.providerOptions !== undefined && { providerOptions: part.providerOptions }),
+      };
+    } catch (error) {
+      if (abortSignal?.aborted) {
+        throw error;
+      }
+      warnings.push(
+        `Unable to fetch ${url.href}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+  };
+
+  const inlined = await Promise.all(
+    prompt.map(async (message) => {
+      if (message.role !== 'user' || typeof message.content === 'string') {
+        return message;
+      }
+      const content = await Promise.all(
+        (message.content as PromptPart[]).map((part) => inlinePart(part))
+      );
+      return { ...message, content: content.filter(Boolean) } as typeof message;
+    })
+  );
+
+  return { prompt: inlined, warnings };
+}
+
+function getRemoteUrl(part: PromptPart): URL | undefined {
+  const value = part.type === 'file' ? part.data : part.type === 'image' ? part.image : undefined;
+  const href = value instanceof URL ? value.href : typeof value === 'string' ? value.trim() : '';
+  if (!/^https?:\/\//i.test(href)) {
+    return undefined;
+  }
+  try {
+    return new URL(href);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Matches a host against an allowlist. `*.example.com` matches subdomains of example.com.
+ */
+function isAllowedHost(host: string, allowedHosts: readonly string[] | undefined): boolean {
+  if (!allowedHosts) {
+    return true;
+  }
+  const hostname = host.toLowerCase();
+  return allowedHosts.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    return pattern.startsWith('*.') ? hostname.endsWith(pattern.slice(1)) : hostname === pattern;
+  });
+}
+
+/**
+ * Returns whether an IPv4 address is loopback, private, link-local (including cloud
+ * metadata endpoints), carrier-grade NAT, multicast or otherwise reserved.
+ */
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+// Expands a valid IPv6 address into its eight 16-bit groups
+function parseIPv6(address: string): number[] {
+  let text = address;
+  const tail: number[] = [];
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    tail.push((a << 8) | b, (c << 8) | d);
+    text = text.slice(0, -dotted[0].length);
+    if (!text.endsWith('::')) {
+      text = text.slice(0, -1);
+    }
+  }
+  const parse = (part: string | undefined) =>
+    part ? part.split(':').map((group) => parseInt(group, 16)) : [];
+  const [head, rest] = text.split('::');
+  const before = parse(head);
+  if (rest === undefined) {
+    return [...before, ...tail];
+  }
+  const after = [...parse(rest), ...tail];
+  return [...before, ...new Array<number>(8 - before.length - after.length).fill(0), ...after];
+}
+
+/**
+ * Returns whether an IPv6 address is unspecified, loopback, unique local, link-local or
+ * multicast, or embeds a private IPv4 address (IPv4-mapped, -compatible or NAT64).
+ */
+function isPrivateIPv6(address: string): boolean {
+  const groups = parseIPv6(address.toLowerCase().split('%')[0]);
+  const [first] = groups;
+  if ((first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00) {
+    return true;
+  }
+  const embedsIPv4 =
+    groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff);
+  const nat64 =
+    first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (embedsIPv4 || nat64) {
+    // Covers :: and ::1 as 0.0.0.0 and 0.0.0.1
+    const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+    return isPrivateIPv4(ipv4);
+  }
+  return false;
+}
+
+function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  return version === 4 ? isPrivateIPv4(address) : version === 6 ? isPrivateIPv6(address) : true;
+}
+
+/**
+ * Rejects hosts that are, or resolve to, loopback, private, link-local or other
+ * non-public addresses, so user-supplied URLs cannot reach internal services.
+ *
+ * The address is not pinned for the download: `fetch` resolves the host again, so a DNS
+ * server that answers differently the second time (DNS rebinding) gets past this check.
+ * `allowedHosts` or a `fetch` going through an egress proxy closes that gap.
+ */
+async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new Error(`host ${hostname} is a private network address`);
+  }
+  if (isIP(host)) {
+    if (isPrivateAddress(host)) {
+      throw new Error(`host ${hostname} is a private network address`);
+    }
+    return;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch (error) {
+    throw new Error(
+      `host ${hostname} could not be resolved: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(`host ${hostname} resolves to private network address ${blocked.address}`);
+  }
+}
+
+/**
+ * Matches a MIME type against allowed content types. `image/*` matches any image type.
+ */
+function isAllowedContentType(mediaType: string, allowedContentTypes: readonly string[]): boolean {
+  const type = mediaType.toLowerCase();
+  return allowedContentTypes.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+  });
+}
+
+function isRedirect(status: number): boolean {
+  return status >= 300 && status < 400;
+}
+
+async function downloadFile(
+  url: URL,
+  options: ClaudeCodeFetchRemoteFilesSettings,
+  abortSignal: AbortSignal | undefined
+): Promise<{ data: Uint8Array; mediaType: string }> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const allowedContentTypes = options.allowedContentTypes ?? DEFAULT_ALLOWED_CONTENT_TYPES;
+  const fetchFn = options.fetch ?? globalThis.fetch;
+
+  if (!isAllowedHost(url.hostname, options.allowedHosts)) {
+    throw new Error(`host ${url.hostname} is not in allowedHosts`);
+  }
+  if (!options.allowPrivateNetwork) {
+    await assertPublicHost(url.hostname);
+  }
+
+  // Redirects are followed manually so every hop is checked against the allowlist
+  let target = url;
+  let response = await fetchFn(target.href, { signal: abortSignal, redirect: 'manual' });
+  for (let redirects = 0; isRedirect(response.status); redirects++) {
+    const location = response.headers.get('location');
+    if (!location || redirects >= MAX_REDIRECTS) {
+      throw new Error(location ? 'too many redirects' : `HTTP ${response.status} without location`);
+    }
+    target = new URL(location, target);
+    if (
+      !/^https?:$/.test(target.protocol) ||
+      !isAllowedHost(target.hostname, options.allowedHosts)
+    ) {
+      throw new Error(`redirect to ${target.host} is not allowed`);
+    }
+    if (!options.allowPrivateNetwork) {
+      await assertPublicHost(target.hostname);
+    }
+    response = await fetchFn(target.href, { signal: abortSignal, redirect: 'manual' });
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const mediaType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase();
+  if (!mediaType) {
+    throw new Error('missing content type');
+  }
+  if (!isAllowedContentType(mediaType, allowedContentTypes)) {
+    throw new Error(`content type ${mediaType} is not allowed`);
+  }
+
+  const contentLength = Number(response.headers.get('content-length'));
+  if (contentLength > maxBytes) {
+    throw new Error(`file size ${contentLength} exceeds maxBytes (${maxBytes})`);
+  }
+
+  return { data: await readBody(response, maxBytes), mediaType };
+}
+
+// Reads the body incrementally so oversized responses without content-length are cut off
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`file exceeds maxBytes (${maxBytes})`);
+
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (data.byteLength > maxBytes) throw tooLarge();
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
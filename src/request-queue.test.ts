@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import { createClaudeCode } from './claude-code-provider.js';
+import { isQueueTimeoutError } from './errors.js';
+import { createRequestQueue, releaseWhenDone } from './request-queue.js';
+import type { ClaudeCodeQueryFunction } from './types.js';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }];
+
+/**
+ * Fake CLI whose queries, named by their system prompt, wait until `finish(name)` is called.
+ */
+const createBlockingCli = () => {
+  const running: string[] = [];
+  const waiting = new Map<string, () => void>();
+  const query: ClaudeCodeQueryFunction = async function* ({ options }) {
+    const name = String(options?.systemPrompt);
+    running.push(name);
+    await new Promise<void>((resolve) => waiting.set(name, resolve));
+    yield {
+      type: 'assistant',
+      message: { content: [{ type: 'text', text: name }] },
+      parent_tool_use_id: null,
+    } as unknown as SDKMessage;
+    yield {
+      type: 'result',
+      subtype: 'success',
+      session_id: `session-${name}`,
+      result: '',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    } as unknown as SDKMessage;
+  };
+  const finish = async (name: string) => {
+    await expect.poll(() => waiting.has(name)).toBe(true);
+    waiting.get(name)!();
+  };
+  return { query, running, finish };
+};
+
+describe('createRequestQueue', () => {
+  it('limits running requests to maxConcurrency', async () => {
+    const queue = createRequestQueue({ maxConcurrency: 2 });
+    const first = await queue.acquire();
+    await queue.acquire();
+    let third: (() => void) | undefined;
+    void queue.acquire().then((release) => (third = release));
+
+    await tick();
+    expect(third).toBeUndefined();
+    expect(queue.snapshot()).toMatchObject({ active: 2, queued: 1 });
+
+    first();
+    first();
+    await tick();
+    expect(third).toBeTypeOf('function');
+    expect(queue.snapshot()).toMatchObject({ active: 2, queued: 0, started: 3, peakQueued: 1 });
+  });
+
+  it('serves higher priorities first, then in arrival order', async () => {
+    const queue = createRequestQueue({ maxConcurrency: 1 });
+    const release = await queue.acquire();
+    const order: string[] = [];
+    const enqueue = (name: string, priority?: number) =>
+      queue.acquire({ priority }).then((next) => {
+        order.push(name);
+        next();
+      });
+
+    const done = Promise.all([
+      enqueue('low', -1),
+      enqueue('first'),
+      enqueue('high', 5),
+      enqueue('second'),
+    ]);
+    expect(queue.snapshot().queuedByPriority).toEqual({ '-1': 1, '0': 2, '5': 1 });
+    release();
+    await done;
+
+    expect(order).toEqual(['high', 'first', 'second', 'low']);
+  });
+
+  it('rejects with a queue timeout error after timeoutMs', async () => {
+    const queue = createRequestQueue({ maxConcurrency: 1 });
+    await queue.acquire();
+
+    const error = await queue.acquire({ timeoutMs: 10 }).catch((e) => e);
+
+    expect(isQueueTimeoutError(error)).toBe(true);
+    expect(error.isRetryable).toBe(false);
+    expect(error.data).toEqual({ code: 'QUEUE_TIMEOUT', timeoutMs: 10 });
+    expect(queue.snapshot()).toMatchObject({ queued: 0, timedOut: 1 });
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const queue = createRequestQueue({ maxConcurrency: 1 });
+    const release = await queue.acquire();
+    const controller = new AbortController();
+    const waiting = queue.acquire({ signal: controller.signal });
+
+    controller.abort(new Error('user cancelled'));
+
+    await expect(waiting).rejects.toThrow('user cancelled');
+    expect(queue.snapshot()).toMatchObject({ queued: 0, aborted: 1 });
+    await expect(queue.acquire({ signal: controller.signal })).rejects.toThrow('user cancelled');
+    release();
+    expect(queue.snapshot()).toMatchObject({ active: 0, started: 1 });
+  });
+
+  it('does not queue requests without a limit', async () => {
+    const queue = createRequestQueue();
+    await Promise.all(Array.from({ length: 50 }, () => queue.acquire()));
+
+    expect(queue.snapshot()).toMatchObject({ maxConcurrency: Infinity, active: 50, queued: 0 });
+  });
+
+  it('rejects an invalid maxConcurrency', () => {
+    expect(() => createRequestQueue({ maxConcurrency: 0 })).toThrow(
+      'maxConcurrency must be a positive integer, got 0'
+    );
+    expect(() => createRequestQueue({ maxConcurrency: 1.5 })).toThrow();
+  });
+});
+
+describe('releaseWhenDone', () => {
+  it('releases once the stream is read to the end', async () => {
+    let released = 0;
+    const stream = releaseWhenDone(new Response('data').body!, () => released++);
+
+    await new Response(stream).text();
+
+    expect(released).toBe(1);
+  });
+
+  it('releases when the stream is cancelled', async () => {
+    let released = 0;
+    const stream = releaseWhenDone(new ReadableStream({ pull() {} }), () => released++);
+
+    await stream.cancel();
+
+    expect(released).toBe(1);
+  });
+
+  it('releases only after the cancel of the wrapped stream settles', async () => {
+    let released = 0;
+    let stopped = () => {};
+    const source = new ReadableStream({
+      cancel: () => new Promise<void>((resolve) => (stopped = resolve)),
+    });
+    const cancelling = releaseWhenDone(source, () => released++).cancel();
+
+    await tick();
+    expect(released).toBe(0);
+    stopped();
+    await cancelling;
+    expect(released).toBe(1);
+  });
+});
+
+describe('provider maxConcurrency', () => {
+  it('shares the limit between all models of the provider', async () => {
+    const cli = createBlockingCli();
+    const provider = createClaudeCode({ maxConcurrency: 1, queryFunction: cli.query });
+
+    const first = provider('sonnet', { systemPrompt: 'first' }).doGenerate({ prompt });
+    const second = provider('haiku', { systemPrompt: 'second' }).doStream({ prompt });
+
+    await expect.poll(() => provider.queue.snapshot()).toMatchObject({ active: 1, queued: 1 });
+    await expect.poll(() => cli.running).toEqual(['first']);
+
+    await cli.finish('first');
+    await first;
+    await cli.finish('second');
+    const { stream } = await second;
+    expect(cli.running).toEqual(['first', 'second']);
+    expect(provider.queue.snapshot().active).toBe(1);
+
+    const reader = stream.getReader();
+    while (!(await reader.read()).done);
+    expect(provider.queue.snapshot()).toMatchObject({ active: 0, started: 2 });
+  });
+
+  it('takes the priority and queue timeout from providerOptions', async () => {
+    const cli = createBlockingCli();
+    const provider = createClaudeCode({ maxConcurrency: 1, queryFunction: cli.query });
+    const model = provider('sonnet');
+    const call = (name: string, options: Record<string, number>) =>
+      model.doGenerate({
+        prompt,
+        providerOptions: { 'claude-code': { systemPrompt: name, ...options } },
+      });
+
+    const busy = call('busy', {});
+    await expect.poll(() => cli.running).toEqual(['busy']);
+    const low = call('low', {});
+    const high = call('high', { priority: 1 });
+    const expiring = call('expiring', { queueTimeoutMs: 10 });
+
+    await expect(expiring).rejects.toSatisfy(isQueueTimeoutError);
+    await cli.finish('busy');
+    await cli.finish('high');
+    await cli.finish('low');
+    await Promise.all([busy, low, high]);
+
+    expect(cli.running).toEqual(['busy', 'high', 'low']);
+  });
+
+  it('aborts a cancelled stream and frees its slot once the query stops', async () => {
+    let signal: AbortSignal | undefined;
+    let stop = () => {};
+    const started: string[] = [];
+    const query: ClaudeCodeQueryFunction = async function* ({ options }) {
+      const name = String(options?.systemPrompt);
+      started.push(name);
+      if (name === 'second') {
+        yield {
+          type: 'result',
+          subtype: 'success',
+          session_id: 'second',
+          result: '',
+          usage: { input_tokens: 1, output_tokens: 1 },
+        } as unknown as SDKMessage;
+        return;
+      }
+      signal = options!.abortController!.signal;
+      yield { type: 'system', subtype: 'init', session_id: 'first' } as unknown as SDKMessage;
+      // The process takes a moment to exit after the abort
+      await new Promise((resolve) => signal!.addEventListener('abort', resolve));
+      await new Promise<void>((resolve) => (stop = resolve));
+      throw new Error('aborted');
+    };
+    const provider = createClaudeCode({ maxConcurrency: 1, queryFunction: query });
+    const { stream } = await provider('sonnet', { systemPrompt: 'first' }).doStream({ prompt });
+    const reader = stream.getReader();
+    await reader.read();
+
+    const second = provider('sonnet', { systemPrompt: 'second' }).doStream({ prompt });
+    const cancelled = reader.cancel();
+    await expect.poll(() => signal?.aborted).toBe(true);
+    await tick();
+    expect(started).toEqual(['first']);
+    expect(provider.queue.snapshot()).toMatchObject({ active: 1, queued: 1 });
+
+    stop();
+    await cancelled;
+    await second;
+    expect(started).toEqual(['first', 'second']);
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    const cli = createBlockingCli();
+    const provider = createClaudeCode({ maxConcurrency: 1, queryFunction: cli.query });
+    const busy = provider('sonnet', { systemPrompt: 'busy' }).doGenerate({ prompt });
+    const controller = new AbortController();
+
+    const queued = provider('sonnet').doGenerate({ prompt, abortSignal: controller.signal });
+    await expect.poll(() => provider.queue.snapshot().queued).toBe(1);
+    controller.abort(new Error('cancelled'));
+
+    await expect(queued).rejects.toThrow('cancelled');
+    expect(provider.queue.snapshot()).toMatchObject({ queued: 0, aborted: 1 });
+    await cli.finish('busy');
+    await busy;
+  });
+});
@@ -0,0 +1,219 @@
+import { createQueueTimeoutError } from './errors.js';
+import type { Logger } from './types.js';
+
+/**
+ * Queue state and statistics since the provider was created.
+ */
+export interface ClaudeCodeRequestQueueSnapshot {
+  /** Maximum number of requests running at once (`Infinity` when unlimited). */
+  maxConcurrency: number;
+  /** Requests running. */
+  active: number;
+  /** Requests waiting for a slot. */
+  queued: number;
+  /** Waiting requests by priority. */
+  queuedByPriority: Record<string, number>;
+  /** Highest number of requests that waited at the same time. */
+  peakQueued: number;
+  /** Requests that got a slot. */
+  started: number;
+  /** Requests that gave up after waiting `queueTimeoutMs`. */
+  timedOut: number;
+  /** Requests aborted while waiting. */
+  aborted: number;
+  /** Average time requests waited for a slot, in milliseconds. */
+  averageWaitMs: number;
+}
+
+/**
+ * Limits how many requests of a provider's models run at once. Requests beyond the limit
+ * wait in a queue ordered by priority, then arrival.
+ */
+export interface ClaudeCodeRequestQueue {
+  /**
+   * Waits for a slot.
+   *
+   * @param options.priority - Higher priorities get a slot first (default 0)
+   * @param options.timeoutMs - Maximum wait, after which a queue timeout error is thrown
+   * @param options.signal - Aborts the wait, rejecting with the signal's reason
+   * @returns A function that gives the slot back; calling it more than once has no effect
+   */
+  acquire(options?: {
+    priority?: number;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+  }): Promise<() => void>;
+
+  /**
+   * Returns the current queue depth and statistics.
+   */
+  snapshot(): ClaudeCodeRequestQueueSnapshot;
+}
+
+interface Waiter {
+  priority: number;
+  sequence: number;
+  enqueuedAt: number;
+  grant(): void;
+}
+
+/**
+ * Creates the request queue shared by the models of a provider.
+ *
+ * @param options.maxConcurrency - Maximum number of running requests (default: unlimited)
+ * @param options.logger - Logger for queueing activity
+ * @returns The request queue
+ * @throws {Error} When `maxConcurrency` is not a positive integer
+ */
+export function createRequestQueue({
+  maxConcurrency = Infinity,
+  logger,
+}: {
+  maxConcurrency?: number;
+  logger?: Logger;
+} = {}): ClaudeCodeRequestQueue {
+  if (maxConcurrency !== Infinity && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+    throw new Error(`maxConcurrency must be a positive integer, got ${maxConcurrency}`);
+  }
+
+  const waiters: Waiter[] = [];
+  let active = 0;
+  let sequence = 0;
+  const stats = { peakQueued: 0, started: 0, timedOut: 0, aborted: 0, totalWaitMs: 0 };
+
+  const start = (enqueuedAt: number) => {
+    active++;
+    stats.started++;
+    stats.totalWaitMs += Date.now() - enqueuedAt;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      active--;
+      next();
+    };
+  };
+
+  // Grants free slots to the highest priority waiters, oldest first
+  const next = () => {
+    while (active < maxConcurrency && waiters.length > 0) {
+      let best = 0;
+      for (let i = 1; i < waiters.length; i++) {
+        const waiter = waiters[i];
+        const current = waiters[best];
+        if (
+          waiter.priority > current.priority ||
+          (waiter.priority === current.priority && waiter.sequence < current.sequence)
+        ) {
+          best = i;
+        }
+      }
+      const [waiter] = waiters.splice(best, 1);
+      waiter.grant();
+    }
+  };
+
+  return {
+    acquire({ priority = 0, timeoutMs, signal } = {}) {
+      if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+      }
+      const enqueuedAt = Date.now();
+      if (active < maxConcurrency && waiters.length === 0) {
+        return Promise.resolve(start(enqueuedAt));
+      }
+
+      return new Promise((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const leave = () => {
+          const index = waiters.indexOf(waiter);
+          if (index !== -1) waiters.splice(index, 1);
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+          leave();
+          stats.aborted++;
+          reject(signal?.reason);
+        };
+        const waiter: Waiter = {
+          priority,
+          sequence: sequence++,
+          enqueuedAt,
+          grant: () => {
+            leave();
+            resolve(start(enqueuedAt));
+          },
+        };
+
+        waiters.push(waiter);
+        stats.peakQueued = Math.max(stats.peakQueued, waiters.length);
+        logger?.debug(
+          `[claude-code] Request queued with priority ${priority} (${waiters.length} waiting, ${active} running)`
+        );
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (timeoutMs !== undefined) {
+          timer = setTimeout(() => {
+            leave();
+            stats.timedOut++;
+            reject(
+              createQueueTimeoutError({
+                message: `Request waited ${timeoutMs}ms for a free slot (maxConcurrency: ${maxConcurrency}, ${active} running) and was not started`,
+                timeoutMs,
+              })
+            );
+          }, timeoutMs);
+        }
+      });
+    },
+
+    snapshot() {
+      const queuedByPriority: Record<string, number> = {};
+      for (const waiter of waiters) {
+        queuedByPriority[waiter.priority] = (queuedByPriority[waiter.priority] ?? 0) + 1;
+      }
+      return {
+        maxConcurrency,
+        active,
+        queued: waiters.length,
+        queuedByPriority,
+        peakQueued: stats.peakQueued,
+        started: stats.started,
+        timedOut: stats.timedOut,
+        aborted: stats.aborted,
+        averageWaitMs: stats.started > 0 ? stats.totalWaitMs / stats.started : 0,
+      };
+    },
+  };
+}
+
+/**
+ * Wraps a stream so `release` is called once the stream finishes, fails or is cancelled.
+ * On cancel, `release` waits for the wrapped stream's cancel to settle, so a source that
+ * stops its work there keeps the slot until the work has stopped.
+ */
+export function releaseWhenDone<T>(
+  stream: ReadableStream<T>,
+  release: () => void
+): ReadableStream<T> {
+  const reader = stream.getReader();
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason).finally(release);
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { startRequestTimeout } from './request-timeout.js';
+import { getErrorMetadata, isTimeoutError } from './errors.js';
+
+describe('startRequestTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('aborts with a timeout error after the total timeout', () => {
+    vi.useFakeTimers();
+    const abortController = new AbortController();
+    const timeout = startRequestTimeout({ abortController, timeoutMs: 1000 });
+
+    vi.advanceTimersByTime(999);
+    timeout.touch();
+    expect(abortController.signal.aborted).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(abortController.signal.aborted).toBe(true);
+    expect(abortController.signal.reason).toBe(timeout.error);
+    expect(isTimeoutError(timeout.error)).toBe(true);
+    expect(timeout.error?.message).toBe('Claude Code request timed out after 1000ms');
+    expect(getErrorMetadata(timeout.error)).toMatchObject({ code: 'TIMEOUT', timeoutMs: 1000 });
+  });
+
+  it('restarts the idle timer on every message', () => {
+    vi.useFakeTimers();
+    const abortController = new AbortController();
+    const timeout = startRequestTimeout({
+      abortController,
+      idleTimeoutMs: 100,
+      promptExcerpt: 'hello',
+    });
+
+    vi.advanceTimersByTime(90);
+    timeout.touch();
+    vi.advanceTimersByTime(90);
+    expect(timeout.error).toBeUndefined();
+
+    vi.advanceTimersByTime(10);
+    expect(abortController.signal.aborted).toBe(true);
+    expect(timeout.error?.message).toBe(
+      'Claude Code request timed out: no message received for 100ms'
+    );
+    expect(getErrorMetadata(timeout.error)).toMatchObject({
+      timeoutMs: 100,
+      promptExcerpt: 'hello',
+    });
+  });
+
+  it('does nothing after being cleared or when the request was already aborted', () => {
+    vi.useFakeTimers();
+    const cleared = new AbortController();
+    const timeout = startRequestTimeout({
+      abortController: cleared,
+      timeoutMs: 10,
+      idleTimeoutMs: 10,
+    });
+    timeout.clear();
+    timeout.touch();
+    vi.advanceTimersByTime(100);
+    expect(cleared.signal.aborted).toBe(false);
+
+    const aborted = new AbortController();
+    const other = startRequestTimeout({ abortController: aborted, timeoutMs: 10 });
+    aborted.abort(new Error('user abort'));
+    vi.advanceTimersByTime(100);
+    expect(other.error).toBeUndefined();
+  });
+});
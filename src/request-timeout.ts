@@ -0,0 +1,98 @@
+import type { APICallError } from '@ai-sdk/provider';
+import { createTimeoutError } from './errors.js';
+
+/**
+ * Wall-clock and idle timers for a single request.
+ */
+export interface RequestTimeout {
+  /**
+   * Restarts the idle timer. Call whenever an SDK message is received.
+   */
+  touch(): void;
+
+  /**
+   * Stops both timers.
+   */
+  clear(): void;
+
+  /**
+   * The timeout error once a timer has fired, otherwise undefined.
+   */
+  readonly error: APICallError | undefined;
+}
+
+/**
+ * Starts the request timers. When one fires, `abortController` is aborted with a
+ * timeout error (created with `createTimeoutError`) as the reason, and the same
+ * error is exposed as `error` so the caller can surface it instead of the AbortError.
+ *
+ * @param options.abortController - Controller of the running query
+ * @param options.timeoutMs - Total time allowed for the request
+ * @param options.idleTimeoutMs - Time allowed between SDK messages
+ * @param options.promptExcerpt - Prompt excerpt stored in the error metadata
+ * @returns Handle to reset and clear the timers
+ */
+export function startRequestTimeout({
+  abortController,
+  timeoutMs,
+  idleTimeoutMs,
+  promptExcerpt,
+}: {
+  abortController: AbortController;
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+  promptExcerpt?: string;
+}): RequestTimeout {
+  let error: APICallError | undefined;
+  let stopped = false;
+  let totalTimer: ReturnType<typeof setTimeout> | undefined;
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const clear = () => {
+    stopped = true;
+    clearTimeout(totalTimer);
+    clearTimeout(idleTimer);
+    totalTimer = undefined;
+    idleTimer = undefined;
+  };
+
+  const expire = (message: string, ms: number) => {
+    if (error || abortController.signal.aborted) {
+      return;
+    }
+    clear();
+    error = createTimeoutError({ message, promptExcerpt, timeoutMs: ms });
+    abortController.abort(error);
+  };
+
+  const startIdleTimer = () => {
+    if (idleTimeoutMs === undefined || stopped) {
+      return;
+    }
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(
+      () =>
+        expire(
+          `Claude Code request timed out: no message received for ${idleTimeoutMs}ms`,
+          idleTimeoutMs
+        ),
+      idleTimeoutMs
+    );
+  };
+
+  if (timeoutMs !== undefined) {
+    totalTimer = setTimeout(
+      () => expire(`Claude Code request timed out after ${timeoutMs}ms`, timeoutMs),
+      timeoutMs
+    );
+  }
+  startIdleTimer();
+
+  return {
+    touch: startIdleTimer,
+    clear,
+    get error() {
+      return error;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRetryDelay, resolveRetryPolicy, shouldRetryAttempt } from './retry.js';
+import { createAPICallError, createAuthenticationError, createTimeoutError } from './errors.js';
+
+describe('resolveRetryPolicy', () => {
+  it('is disabled without settings or with a single attempt', () => {
+    expect(resolveRetryPolicy(undefined)).toBeUndefined();
+    expect(resolveRetryPolicy({ maxAttempts: 1 })).toBeUndefined();
+  });
+
+  it('applies defaults', () => {
+    expect(resolveRetryPolicy({})).toEqual({
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 30_000,
+      backoffFactor: 2,
+      jitter: 0.2,
+      shouldRetry: undefined,
+    });
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('grows exponentially up to maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 350, jitter: 0 })!;
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(200);
+    expect(getRetryDelay(policy, 3)).toBe(350);
+  });
+
+  it('randomizes the configured fraction of the delay', () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 1000, jitter: 0.5 })!;
+    expect(getRetryDelay(policy, 1, () => 0)).toBe(1000);
+    expect(getRetryDelay(policy, 1, () => 0.5)).toBe(750);
+    expect(getRetryDelay(policy, 1, () => 0.99)).toBe(505);
+  });
+});
+
+describe('shouldRetryAttempt', () => {
+  it('retries retryable errors until maxAttempts is reached', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 2 })!;
+    const error = createAPICallError({ message: 'reset', code: 'ECONNRESET', isRetryable: true });
+
+    expect(shouldRetryAttempt(policy, error, 1)).toBe(true);
+    expect(shouldRetryAttempt(policy, error, 2)).toBe(false);
+    expect(shouldRetryAttempt(policy, createTimeoutError({ message: 'slow' }), 1)).toBe(true);
+  });
+
+  it('does not retry non-retryable errors by default', () => {
+    const policy = resolveRetryPolicy({})!;
+
+    expect(shouldRetryAttempt(policy, createAPICallError({ message: 'bad' }), 1)).toBe(false);
+    expect(shouldRetryAttempt(policy, createAuthenticationError({ message: 'login' }), 1)).toBe(
+      false
+    );
+    expect(shouldRetryAttempt(policy, new Error('plain'), 1)).toBe(false);
+  });
+
+  it('delegates to the shouldRetry predicate with the error metadata', () => {
+    const shouldRetry = vi.fn((metadata) => metadata?.exitCode === 1);
+    const policy = resolveRetryPolicy({ shouldRetry })!;
+    const error = createAPICallError({ message: 'crash', exitCode: 1 });
+
+    expect(shouldRetryAttempt(policy, error, 1)).toBe(true);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.objectContaining({ exitCode: 1 }), {
+      error,
+      attempt: 1,
+    });
+  });
+});
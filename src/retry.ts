@@ -0,0 +1,74 @@
+import { APICallError } from '@ai-sdk/provider';
+import { getErrorMetadata } from './errors.js';
+import type { ClaudeCodeRetrySettings } from './types.js';
+
+/**
+ * Retry settings with defaults applied.
+ */
+export type RetryPolicy = Required<Omit<ClaudeCodeRetrySettings, 'shouldRetry'>> &
+  Pick<ClaudeCodeRetrySettings, 'shouldRetry'>;
+
+const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'shouldRetry'> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  backoffFactor: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Applies defaults to the `retry` setting.
+ *
+ * @param settings - The `retry` setting, if any
+ * @returns The retry policy, or undefined when retries are disabled
+ */
+export function resolveRetryPolicy(settings?: ClaudeCodeRetrySettings): RetryPolicy | undefined {
+  if (!settings) {
+    return undefined;
+  }
+  const policy: RetryPolicy = {
+    maxAttempts: settings.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    initialDelayMs: settings.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: settings.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    backoffFactor: settings.backoffFactor ?? DEFAULT_RETRY_POLICY.backoffFactor,
+    jitter: settings.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    shouldRetry: settings.shouldRetry,
+  };
+  return policy.maxAttempts > 1 ? policy : undefined;
+}
+
+/**
+ * Decides whether a failed attempt should be retried.
+ *
+ * @param policy - The retry policy
+ * @param error - The error of the failed attempt
+ * @param attempt - Number of the failed attempt (1-based)
+ * @returns True if another attempt should be made
+ */
+export function shouldRetryAttempt(policy: RetryPolicy, error: unknown, attempt: number): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+  if (policy.shouldRetry) {
+    return policy.shouldRetry(getErrorMetadata(error), { error, attempt });
+  }
+  return APICallError.isInstance(error) && error.isRetryable;
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with jitter.
+ *
+ * @param policy - The retry policy
+ * @param attempt - Number of the failed attempt (1-based)
+ * @param random - Random number source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.initialDelayMs * policy.backoffFactor ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * (1 - policy.jitter * random()));
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createStopSequenceMatcher } from './stop-sequences.js';
+
+describe('createStopSequenceMatcher', () => {
+  it('passes text through without stop sequences', () => {
+    const matcher = createStopSequenceMatcher(undefined);
+
+    expect(matcher.enabled).toBe(false);
+    expect(matcher.push('Hello END')).toBe('Hello END');
+    expect(matcher.matched).toBeUndefined();
+  });
+
+  it('cuts the text at a stop sequence within a chunk', () => {
+    const matcher = createStopSequenceMatcher(['END']);
+
+    expect(matcher.push('Hello END world')).toBe('Hello ');
+    expect(matcher.matched).toBe('END');
+    expect(matcher.push('more')).toBe('');
+    expect(matcher.flush()).toBe('');
+  });
+
+  it('matches stop sequences split across chunks', () => {
+    const matcher = createStopSequenceMatcher(['\n\nHuman:']);
+
+    expect(matcher.push('Answer.\n')).toBe('Answer.');
+    expect(matcher.push('\nHu')).toBe('');
+    expect(matcher.push('man: next')).toBe('');
+    expect(matcher.matched).toBe('\n\nHuman:');
+  });
+
+  it('releases held-back text when the partial match does not continue', () => {
+    const matcher = createStopSequenceMatcher(['END']);
+
+    expect(matcher.push('The EN')).toBe('The ');
+    expect(matcher.push('D')).toBe('');
+    expect(matcher.matched).toBe('END');
+
+    const other = createStopSequenceMatcher(['END']);
+    expect(other.push('The EN')).toBe('The ');
+    expect(other.push('TRY')).toBe('ENTRY');
+    expect(other.push('E')).toBe('');
+    expect(other.flush()).toBe('E');
+    expect(other.matched).toBeUndefined();
+  });
+
+  it('uses the earliest match across stop sequences', () => {
+    const matcher = createStopSequenceMatcher(['STOP', 'END', '']);
+
+    expect(matcher.push('a END b STOP')).toBe('a ');
+    expect(matcher.matched).toBe('END');
+  });
+});
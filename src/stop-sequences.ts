@@ -0,0 +1,105 @@
+/**
+ * Emulates stop sequences on streamed text, which the Claude Code SDK does not support.
+ */
+export interface StopSequenceMatcher {
+  /**
+   * Whether any stop sequence is configured.
+   */
+  readonly enabled: boolean;
+
+  /**
+   * The stop sequence that ended the text, or undefined.
+   */
+  readonly matched: string | undefined;
+
+  /**
+   * Adds a text chunk and returns the text that can be emitted. Text that may be the start
+   * of a stop sequence is held back until the next chunk decides it. Once a stop sequence
+   * matched, the text before it is returned and all later chunks are dropped.
+   */
+  push(chunk: string): string;
+
+  /**
+   * Returns the held-back text when the text ends without a match.
+   */
+  flush(): string;
+}
+
+/**
+ * Creates a stop sequence matcher for the text of a single response.
+ *
+ * @param stopSequences - Stop sequences from the call options. Empty strings are ignored.
+ * @returns The matcher
+ */
+export function createStopSequenceMatcher(
+  stopSequences: readonly string[] | undefined
+): StopSequenceMatcher {
+  const sequences = (stopSequences ?? []).filter((sequence) => sequence.length > 0);
+  let pending = '';
+  let matched: string | undefined;
+
+  return {
+    enabled: sequences.length > 0,
+
+    get matched() {
+      return matched;
+    },
+
+    push(chunk) {
+      if (matched !== undefined) return '';
+      if (sequences.length === 0) return chunk;
+
+      const text = pending + chunk;
+      const match = findStopSequence(text, sequences);
+      if (match) {
+        matched = match.sequence;
+        pending = '';
+        return text.slice(0, match.index);
+      }
+
+      const held = longestPartialMatch(text, sequences);
+      pending = text.slice(text.length - held);
+      return text.slice(0, text.length - held);
+    },
+
+    flush() {
+      const text = pending;
+      pending = '';
+      return text;
+    },
+  };
+}
+
+// Earliest match wins. At the same position, the longest sequence wins.
+function findStopSequence(
+  text: string,
+  sequences: readonly string[]
+): { index: number; sequence: string } | undefined {
+  let best: { index: number; sequence: string } | undefined;
+  for (const sequence of sequences) {
+    const index = text.indexOf(sequence);
+    if (
+      index !== -1 &&
+      (!best ||
+        index < best.index ||
+        (index === best.index && sequence.length > best.sequence.length))
+    ) {
+      best = { index, sequence };
+    }
+  }
+  return best;
+}
+
+// Length of the longest suffix of text that is a proper prefix of a stop sequence
+function longestPartialMatch(text: string, sequences: readonly string[]): number {
+  let longest = 0;
+  for (const sequence of sequences) {
+    for (let length = Math.min(sequence.length - 1, text.length); length > longest; length--) {
+      if (text.endsWith(sequence.slice(0, length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+  return longest;
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { createSubagentTracker, withSubagentMetadata } from './subagent-activity.js';
+
+describe('createSubagentTracker', () => {
+  it('resolves agent names from Task tool calls', () => {
+    const subagents = createSubagentTracker();
+    subagents.recordToolUse({
+      id: 'task-1',
+      name: 'Task',
+      input: { description: 'Review', prompt: 'Review the diff', subagent_type: 'reviewer' },
+    });
+    subagents.recordToolUse({ id: 'bash-1', name: 'Bash', input: { subagent_type: 'x' } });
+
+    expect(subagents.resolve('task-1')).toEqual({
+      parentToolCallId: 'task-1',
+      agentName: 'reviewer',
+    });
+    expect(subagents.resolve('bash-1')).toEqual({ parentToolCallId: 'bash-1' });
+    expect(subagents.resolve(null)).toBeUndefined();
+    expect(subagents.resolve(undefined)).toBeUndefined();
+  });
+
+  it('tags parts assigned to a subagent and keeps existing metadata', () => {
+    const subagents = createSubagentTracker();
+    subagents.assign('tool-1', { parentToolCallId: 'task-1', agentName: 'reviewer' });
+
+    expect(
+      subagents.tag({
+        type: 'tool-result',
+        toolCallId: 'tool-1',
+        providerMetadata: { 'claude-code': { rawResult: 'ok' } },
+      })
+    ).toEqual({
+      type: 'tool-result',
+      toolCallId: 'tool-1',
+      providerMetadata: {
+        'claude-code': { rawResult: 'ok', parentToolCallId: 'task-1', agentName: 'reviewer' },
+      },
+    });
+    expect(subagents.tag({ type: 'text-delta', id: 'other', delta: 'hi' })).toEqual({
+      type: 'text-delta',
+      id: 'other',
+      delta: 'hi',
+    });
+  });
+});
+
+describe('withSubagentMetadata', () => {
+  it('returns main agent parts unchanged', () => {
+    const part = { type: 'text', text: 'hi' };
+    expect(withSubagentMetadata(part, undefined)).toBe(part);
+  });
+});
@@ -0,0 +1,113 @@
+import type { SharedV3ProviderMetadata } from '@ai-sdk/provider';
+
+/**
+ * Name of the built-in tool Claude uses to delegate work to a subagent.
+ */
+const TASK_TOOL_NAME = 'Task';
+
+/**
+ * Identifies the subagent that produced a message.
+ */
+export interface SubagentInfo {
+  /**
+   * ID of the Task tool call that started the subagent.
+   */
+  parentToolCallId: string;
+
+  /**
+   * Subagent type from the Task tool input (e.g. a key of the `agents` setting), if known.
+   */
+  agentName?: string;
+}
+
+/**
+ * Attributes SDK messages and the parts emitted for them to subagents.
+ */
+export interface SubagentTracker {
+  /**
+   * Records a tool use so Task tool calls can later be resolved to their agent name.
+   */
+  recordToolUse(tool: { id: string; name: string; input: unknown }): void;
+
+  /**
+   * Resolves the `parent_tool_use_id` of an SDK message. Returns undefined for messages
+   * of the main agent.
+   */
+  resolve(parentToolUseId: string | null | undefined): SubagentInfo | undefined;
+
+  /**
+   * Marks a part ID (text, reasoning or tool call ID) as belonging to a subagent.
+   */
+  assign(partId: string, subagent: SubagentInfo): void;
+
+  /**
+   * Adds subagent metadata to a part whose ID (or `toolCallId`) was assigned to a subagent.
+   */
+  tag<PART extends object>(part: PART): PART;
+}
+
+/**
+ * Returns the part with `parentToolCallId` and `agentName` added to its `claude-code`
+ * provider metadata. Parts of the main agent (no subagent) are returned unchanged.
+ */
+export function withSubagentMetadata<PART extends object>(
+  part: PART,
+  subagent: SubagentInfo | undefined
+): PART {
+  if (!subagent) {
+    return part;
+  }
+  const { providerMetadata } = part as { providerMetadata?: SharedV3ProviderMetadata };
+  return {
+    ...part,
+    providerMetadata: {
+      ...providerMetadata,
+      'claude-code': {
+        ...providerMetadata?.['claude-code'],
+        parentToolCallId: subagent.parentToolCallId,
+        ...(subagent.agentName !== undefined && { agentName: subagent.agentName }),
+      },
+    },
+  };
+}
+
+/**
+ * Creates a tracker for the subagent activity of a single request.
+ */
+export function createSubagentTracker(): SubagentTracker {
+  const agentNames = new Map<string, string>();
+  const parts = new Map<string, SubagentInfo>();
+
+  return {
+    recordToolUse({ id, name, input }) {
+      if (name !== TASK_TOOL_NAME || typeof input !== 'object' || input === null) {
+        return;
+      }
+      const { subagent_type } = input as { subagent_type?: unknown };
+      if (typeof subagent_type === 'string' && subagent_type.length > 0) {
+        agentNames.set(id, subagent_type);
+      }
+    },
+
+    resolve(parentToolUseId) {
+      if (typeof parentToolUseId !== 'string' || parentToolUseId.length === 0) {
+        return undefined;
+      }
+      const agentName = agentNames.get(parentToolUseId);
+      return {
+        parentToolCallId: parentToolUseId,
+        ...(agentName !== undefined && { agentName }),
+      };
+    },
+
+    assign(partId, subagent) {
+      parts.set(partId, subagent);
+    },
+
+    tag(part) {
+      const { toolCallId, id } = part as { toolCallId?: unknown; id?: unknown };
+      const key = typeof toolCallId === 'string' ? toolCallId : id;
+      return withSubagentMetadata(part, typeof key === 'string' ? parts.get(key) : undefined);
+    },
+  };
+}
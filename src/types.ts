@@ -1,8 +1,206 @@
 // Import types from the SDK
-import type { PermissionMode, McpServerConfig, CanUseTool } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  PermissionMode,
+  McpServerConfig,
+  CanUseTool,
+  Options,
+  SDKMessage,
+  SDKUserMessage,
+} from '@anthropic-ai/claude-agent-sdk';
+import type { ClaudeCodeErrorMetadata } from './errors.js';
 
 export type StreamingInputMode = 'auto' | 'always' | 'off';
 
+export type HistoryFormat = 'transcript' | 'structured';
+
+export type SubagentTextMode = 'include' | 'exclude';
+
+/**
+ * Function that runs a Claude Agent SDK query, with the contract of the SDK's `query()`:
+ * it receives the prompt and SDK options and returns the stream of SDK messages. The
+ * provider only iterates the stream.
+ *
+ * Set as `queryFunction` to replay recorded sessions in tests (see `createReplayQuery`)
+ * or to wrap the SDK, e.g. for recording or instrumentation.
+ */
+export type ClaudeCodeQueryFunction = (params: {
+  prompt: string | AsyncIterable<SDKUserMessage>;
+  options?: Options;
+}) => AsyncIterable<SDKMessage>;
+
+/**
+ * Retry policy for failed requests.
+ *
+ * A request is only retried while nothing has been emitted to the caller yet. If a
+ * session was already started, the retry resumes it.
+ *
+ * @example
+ * ```typescript
+ * const model = claudeCode('sonnet', {
+ *   retry: {
+ *     maxAttempts: 4,
+ *     initialDelayMs: 2000,
+ *     shouldRetry: (metadata) => metadata?.code === 'ECONNRESET',
+ *   },
+ * });
+ * ```
+ */
+export interface ClaudeCodeRetrySettings {
+  /**
+   * Total number of attempts, including the first one.
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds.
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds.
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Multiplier applied to the delay after each failed attempt.
+   * @default 2
+   */
+  backoffFactor?: number;
+
+  /**
+   * Fraction of each delay that is randomized (0 disables jitter, 1 is full jitter).
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Decides whether a failed attempt is retried. Receives the error metadata
+   * (`getErrorMetadata(error)`), the error itself and the number of the failed attempt.
+   * Defaults to retrying errors marked `isRetryable`.
+   */
+  shouldRetry?: (
+    metadata: ClaudeCodeErrorMetadata | undefined,
+    context: { error: unknown; attempt: number }
+  ) => boolean;
+}
+
+/**
+ * Limits for downloading http(s) image and file URLs with `fetchRemoteFiles`.
+ *
+ * @example
+ * ```typescript
+ * const model = claudeCode('sonnet', {
+ *   streamingInput: 'always',
+ *   fetchRemoteFiles: {
+ *     allowedHosts: ['cdn.example.com', '*.githubusercontent.com'],
+ *     allowedContentTypes: ['image/png', 'image/jpeg'],
+ *     maxBytes: 5 * 1024 * 1024,
+ *   },
+ * });
+ * ```
+ */
+export interface ClaudeCodeFetchRemoteFilesSettings {
+  /**
+   * Hosts files may be downloaded from. An entry matches the exact host name, and
+   * `*.example.com` matches any subdomain of example.com. All public hosts are allowed by
+   * default.
+   */
+  allowedHosts?: string[];
+
+  /**
+   * Allows downloads from hosts that are, or resolve to, loopback, private (RFC 1918),
+   * link-local, cloud metadata or other non-public addresses. These are blocked by default,
+   * on the initial URL and on every redirect, because prompt URLs usually come from end users.
+   * Enable only when all URLs are trusted, or when a custom `fetch` sends them through a proxy
+   * that cannot reach internal services.
+   * @default false
+   */
+  allowPrivateNetwork?: boolean;
+
+  /**
+   * Content types (from the response's `content-type` header) that may be inlined.
+   * `image/*` matches any image type.
+   * @default ['image/*', 'application/pdf', 'text/*']
+   */
+  allowedContentTypes?: string[];
+
+  /**
+   * Maximum size of a downloaded file in bytes.
+   * @default 10485760 (10 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Fetch implementation used for downloads, e.g. to add authentication or a proxy.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof globalThis.fetch;
+}
+
+/**
+ * An image passed to the `images.preprocess` hook. `mediaType` is detected from the
+ * image bytes; `width` and `height` are read from the image header when possible.
+ */
+export interface ClaudeCodeImage {
+  data: Uint8Array;
+  mediaType: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Validation limits and preprocessing for image inputs.
+ *
+ * @example
+ * ```typescript
+ * import sharp from 'sharp';
+ *
+ * const model = claudeCode('sonnet', {
+ *   streamingInput: 'always',
+ *   images: {
+ *     // Downscale large screenshots before they are validated and sent
+ *     preprocess: async (image) => {
+ *       if ((image.width ?? 0) <= 1568 && (image.height ?? 0) <= 1568) return;
+ *       const data = await sharp(image.data).resize(1568, 1568, { fit: 'inside' }).png().toBuffer();
+ *       return { data: new Uint8Array(data), mediaType: 'image/png' };
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface ClaudeCodeImageSettings {
+  /**
+   * Called for every image before validation, e.g. to downscale or re-encode it. Return a
+   * replacement image, or nothing to keep the image as is. An error thrown by the hook
+   * rejects the image like a failed validation.
+   */
+  preprocess?: (
+    image: ClaudeCodeImage
+  ) => ClaudeCodeImage | void | undefined | Promise<ClaudeCodeImage | void | undefined>;
+
+  /**
+   * Maximum decoded size of an image in bytes.
+   * @default 5242880 (5 MB)
+   */
+  maxBytes?: number;
+
+  /**
+   * Maximum width and height of an image in pixels.
+   * @default 8000
+   */
+  maxDimension?: number;
+
+  /**
+   * What happens to images that fail validation: `'warn'` drops them with a warning,
+   * `'error'` rejects the request with an `InvalidPromptError`.
+   * @default 'warn'
+   */
+  onInvalid?: 'warn' | 'error';
+}
+
 /**
  * Logger interface for custom logging.
  * Allows consumers to provide their own logging implementation
@@ -92,6 +290,58 @@ export interface ClaudeCodeSettings {
    */
   maxThinkingTokens?: number;
 
+  /**
+   * Maximum wall-clock time for a request in milliseconds.
+   * When exceeded, the CLI process is aborted and the request fails with a timeout
+   * error (`isTimeoutError()`), whose metadata carries `timeoutMs`.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Maximum time in milliseconds to wait for the next SDK message (including the first).
+   * Catches hung CLI processes on long requests where `timeoutMs` would have to be large.
+   * Fails the same way as `timeoutMs`.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Priority of the request in the provider's queue when `maxConcurrency` is set. Higher
+   * priorities get a free slot first; equal priorities are served in arrival order.
+   * Defaults to 0. Usually set per request through `providerOptions['claude-code']`.
+   */
+  priority?: number;
+
+  /**
+   * Maximum time a request waits in the provider's queue for a free slot when
+   * `maxConcurrency` is set. Requests that wait longer fail with a queue timeout error
+   * (`isQueueTimeoutError()`) without starting the CLI. Waits indefinitely by default.
+   */
+  queueTimeoutMs?: number;
+
+  /**
+   * Retry policy for retryable failures (e.g. `ECONNRESET`, `ETIMEDOUT`, timeouts).
+   * Disabled by default.
+   */
+  retry?: ClaudeCodeRetrySettings;
+
+  /**
+   * Maximum estimated cost of a request in USD. Usage is tracked from assistant
+   * messages and `message_delta` events as the response streams, and the request is
+   * stopped as soon as the estimate crosses the limit. It then finishes with
+   * finish reason 'other' and `providerMetadata['claude-code'].budget.exceeded`
+   * set to 'maxCostUsd'; check `budget.exceeded` to tell a budget stop from other causes.
+   *
+   * The estimate uses list prices per model; `costUsd` from the result message
+   * remains the authoritative cost when the request completes.
+   */
+  maxCostUsd?: number;
+
+  /**
+   * Maximum input (including cached) plus output tokens of a request. Enforced the
+   * same way as `maxCostUsd`, with `budget.exceeded` set to 'maxTotalTokens'.
+   */
+  maxTotalTokens?: number;
+
   /**
    * Working directory for CLI operations
    */
@@ -177,6 +427,59 @@ export interface ClaudeCodeSettings {
    */
   streamingInput?: StreamingInputMode;
 
+  /**
+   * Controls how prior conversation turns are sent to Claude.
+   * - 'transcript' (default): flatten history into `Human:` / `Assistant:` text
+   * - 'structured': render each prior turn as a `<message role="...">` block with images
+   *   and documents in place, and describe tool results in plain words with the call id
+   *   and input of their call. Tool calls without a result are listed in the turn that
+   *   made them. The latest user message is sent as-is. Enables streaming input when
+   *   `streamingInput` is 'auto'.
+   *
+   * Both formats render the history as text of a single user message. The CLI only accepts
+   * user-role input messages, and assistant turns can only be carried by resuming the
+   * session that produced them (see `provider.session()`).
+   */
+  historyFormat?: HistoryFormat;
+
+  /**
+   * Controls text written by subagents (messages with a `parent_tool_use_id`).
+   * - 'include' (default): emit it as separate text parts
+   * - 'exclude': leave it out of the response text
+   *
+   * Subagent text, reasoning and tool parts are tagged with `parentToolCallId` (the
+   * Task tool call that started the subagent) and `agentName` in
+   * `providerMetadata['claude-code']`.
+   */
+  subagentText?: SubagentTextMode;
+
+  /**
+   * Downloads http(s) URLs of image and file parts and inlines them as base64 with the
+   * MIME type reported by the server. Disabled by default, so URLs are dropped with a
+   * warning. Pass `true` for the default limits or an object to set them.
+   *
+   * When enabled, the model reports http(s) URLs for images, PDFs and text files as
+   * supported, so the AI SDK passes them to the provider instead of downloading them.
+   * URLs that fail the limits are dropped with a warning.
+   */
+  fetchRemoteFiles?: boolean | ClaudeCodeFetchRemoteFilesSettings;
+
+  /**
+   * Image validation and preprocessing. Images are always checked: the format is detected
+   * from the image bytes (PNG, JPEG, GIF and WebP are supported, mislabeled MIME types are
+   * corrected with a warning) and the size and dimensions are checked against the limits.
+   */
+  images?: ClaudeCodeImageSettings;
+
+  /**
+   * Runs the Agent SDK query instead of the SDK's `query()`. Use `createReplayQuery` to
+   * replay a recorded cassette in tests without a Claude login, or `createRecordingQuery`
+   * to record one.
+   *
+   * @default query from '@anthropic-ai/claude-agent-sdk'
+   */
+  queryFunction?: ClaudeCodeQueryFunction;
+
   /**
    * Enable verbose logging for debugging
    */
@@ -258,3 +561,27 @@ export interface ClaudeCodeSettings {
    */
   extraArgs?: Record<string, string | null>;
 }
+
+/**
+ * Per-request options accepted under `providerOptions['claude-code']`.
+ * Settings given here are merged over the model's settings for a single call
+ * (shallow merge, so e.g. `mcpServers` replaces the model's servers).
+ * `logger` and `verbose` are fixed when the model is created and cannot be overridden.
+ *
+ * @example
+ * ```typescript
+ * await generateText({
+ *   model: claudeCode('sonnet'),
+ *   prompt: 'Run the test suite',
+ *   providerOptions: {
+ *     'claude-code': { cwd: '/repos/api', allowedTools: ['Read', 'Bash(npm test)'] },
+ *   },
+ * });
+ * ```
+ */
+export interface ClaudeCodeProviderOptions extends Omit<ClaudeCodeSettings, 'logger' | 'verbose'> {
+  /**
+   * Session to resume for this request. Takes precedence over the `resume` setting.
+   */
+  sessionId?: string;
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  countToolPart,
+  createUsageLedger,
+  createUsageRecord,
+  type ClaudeCodeToolUsage,
+  type ClaudeCodeUsageRecord,
+} from './usage-ledger.js';
+
+const record = (overrides: Partial<ClaudeCodeUsageRecord> = {}): ClaudeCodeUsageRecord => ({
+  modelId: 'sonnet',
+  sessionId: 'session-1',
+  inputTokens: 100,
+  outputTokens: 50,
+  cachedInputTokens: 20,
+  costUsd: 0.01,
+  durationMs: 1000,
+  tools: {},
+  timestamp: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('createUsageLedger', () => {
+  it('aggregates usage per session, model and tool', () => {
+    const ledger = createUsageLedger();
+
+    ledger.record(record({ tools: { Read: { calls: 2, errors: 0 } } }));
+    ledger.record(
+      record({ sessionId: 'session-2', modelId: 'opus', tools: { Read: { calls: 1, errors: 1 } } })
+    );
+    ledger.record(record({ sessionId: undefined }));
+
+    const snapshot = ledger.snapshot();
+    expect(snapshot.total).toEqual({
+      requests: 3,
+      inputTokens: 300,
+      outputTokens: 150,
+      cachedInputTokens: 60,
+      costUsd: 0.03,
+      durationMs: 3000,
+    });
+    expect(snapshot.bySession['session-1']).toMatchObject({ requests: 1, inputTokens: 100 });
+    expect(snapshot.bySession['session-2']).toMatchObject({ requests: 1 });
+    expect(Object.keys(snapshot.bySession)).toHaveLength(2);
+    expect(snapshot.byModel.sonnet).toMatchObject({ requests: 2, outputTokens: 100 });
+    expect(snapshot.byModel.opus).toMatchObject({ requests: 1 });
+    expect(snapshot.byTool).toEqual({ Read: { calls: 3, errors: 1 } });
+  });
+
+  it('returns snapshots that are not affected by later records', () => {
+    const ledger = createUsageLedger();
+    ledger.record(record());
+    const snapshot = ledger.snapshot();
+
+    ledger.record(record());
+
+    expect(snapshot.total.requests).toBe(1);
+    expect(snapshot.byModel.sonnet.requests).toBe(1);
+  });
+
+  it('resets all totals and the aggregation window', () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+      const ledger = createUsageLedger();
+      ledger.record(record({ tools: { Bash: { calls: 1, errors: 0 } } }));
+
+      vi.setSystemTime(new Date('2025-01-02T00:00:00.000Z'));
+      ledger.reset();
+
+      expect(ledger.snapshot()).toEqual({
+        since: '2025-01-02T00:00:00.000Z',
+        total: {
+          requests: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          cachedInputTokens: 0,
+          costUsd: 0,
+          durationMs: 0,
+        },
+        bySession: {},
+        byModel: {},
+        byTool: {},
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('exports the snapshot as JSON', () => {
+    const ledger = createUsageLedger();
+    ledger.record(record());
+
+    expect(JSON.parse(JSON.stringify(ledger))).toEqual(ledger.snapshot());
+  });
+
+  it('calls onUsage and logs errors it throws', () => {
+    const warn = vi.fn();
+    const onUsage = vi.fn(() => {
+      throw new Error('billing down');
+    });
+    const ledger = createUsageLedger({
+      onUsage,
+      logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() },
+    });
+
+    const usage = record();
+    ledger.record(usage);
+
+    expect(onUsage).toHaveBeenCalledWith(usage);
+    expect(warn).toHaveBeenCalledWith('[claude-code] onUsage callback failed: billing down');
+    expect(ledger.snapshot().total.requests).toBe(1);
+  });
+});
+
+describe('createUsageRecord', () => {
+  it('reads session, cost and duration from provider metadata', () => {
+    const usageRecord = createUsageRecord({
+      modelId: 'sonnet',
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15, cachedInputTokens: 2 },
+      providerMetadata: {
+        'claude-code': { sessionId: 'abc', costUsd: 0.02, durationMs: 300 },
+      },
+      tools: {},
+    });
+
+    expect(usageRecord).toMatchObject({
+      modelId: 'sonnet',
+      sessionId: 'abc',
+      inputTokens: 10,
+      outputTokens: 5,
+      cachedInputTokens: 2,
+      costUsd: 0.02,
+      durationMs: 300,
+    });
+  });
+
+  it('falls back to the budget estimate and zeros', () => {
+    const usageRecord = createUsageRecord({
+      modelId: 'opus',
+      usage: { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
+      providerMetadata: { 'claude-code': { budget: { estimatedCostUsd: 0.5 } } },
+      tools: {},
+    });
+
+    expect(usageRecord).toMatchObject({
+      inputTokens: 0,
+      outputTokens: 0,
+      cachedInputTokens: 0,
+      costUsd: 0.5,
+      durationMs: 0,
+    });
+    expect(usageRecord).not.toHaveProperty('sessionId');
+  });
+});
+
+describe('countToolPart', () => {
+  it('counts tool calls and errors by tool name', () => {
+    const tools: Record<string, ClaudeCodeToolUsage> = {};
+
+    countToolPart(tools, { type: 'tool-call', toolCallId: '1', toolName: 'Read', input: '{}' });
+    countToolPart(tools, { type: 'tool-result', toolCallId: '1', toolName: 'Read', isError: true });
+    countToolPart(tools, { type: 'tool-error', toolCallId: '2', toolName: 'Bash', error: 'x' });
+    countToolPart(tools, { type: 'tool-result', toolCallId: '3', toolName: 'Read', result: 'ok' });
+    countToolPart(tools, { type: 'text', text: 'hi' });
+
+    expect(tools).toEqual({
+      Read: { calls: 1, errors: 1 },
+      Bash: { calls: 0, errors: 1 },
+    });
+  });
+});
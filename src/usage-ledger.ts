@@ -0,0 +1,256 @@
+import type { LanguageModelV3Usage, SharedV3ProviderMetadata } from '@ai-sdk/provider';
+import type { Logger } from './types.js';
+
+/**
+ * Usage of a single request, as recorded by the usage ledger and passed to `onUsage`.
+ */
+export interface ClaudeCodeUsageRecord {
+  /** Model ID the request was made with (e.g. 'sonnet'). */
+  modelId: string;
+  /** Session the request ran in, if known. */
+  sessionId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  /** Cost reported by the CLI, or the budget estimate when the request was stopped early. */
+  costUsd: number;
+  /** Duration reported by the CLI, 0 when the request ended without a result. */
+  durationMs: number;
+  /** Tool calls made during the request, by tool name. */
+  tools: Record<string, ClaudeCodeToolUsage>;
+  /** When the request finished (ISO 8601). */
+  timestamp: string;
+  /**
+   * Set when the request or retry attempt failed (e.g. timed out, hit a CLI limit or was
+   * aborted). Its usage is what was spent until then.
+   */
+  failed?: boolean;
+}
+
+/**
+ * Aggregated usage of a group of requests.
+ */
+export interface ClaudeCodeUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+/**
+ * Tool calls made with one tool. Tokens and cost cannot be attributed to individual
+ * tools, so tools are counted by calls.
+ */
+export interface ClaudeCodeToolUsage {
+  calls: number;
+  errors: number;
+}
+
+/**
+ * Aggregated usage since the ledger was created or last reset.
+ */
+export interface ClaudeCodeUsageSnapshot {
+  /** Start of the aggregation window (ISO 8601). */
+  since: string;
+  total: ClaudeCodeUsageTotals;
+  bySession: Record<string, ClaudeCodeUsageTotals>;
+  byModel: Record<string, ClaudeCodeUsageTotals>;
+  byTool: Record<string, ClaudeCodeToolUsage>;
+}
+
+const emptyTotals = (): ClaudeCodeUsageTotals => ({
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cachedInputTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+});
+
+const addTotals = (totals: ClaudeCodeUsageTotals, record: ClaudeCodeUsageRecord) => {
+  totals.requests += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cachedInputTokens += record.cachedInputTokens;
+  totals.costUsd += record.costUsd;
+  totals.durationMs += record.durationMs;
+};
+
+/**
+ * Builds a usage record from the usage and provider metadata of a finished request.
+ *
+ * @param options.modelId - Model ID the request was made with
+ * @param options.usage - AI SDK usage of the request
+ * @param options.providerMetadata - Provider metadata of the response or finish part
+ * @param options.tools - Tool calls made during the request
+ * @returns The usage record
+ */
+export function createUsageRecord({
+  modelId,
+  usage,
+  providerMetadata,
+  tools,
+}: {
+  modelId: string;
+  usage: LanguageModelV3Usage;
+  providerMetadata: SharedV3ProviderMetadata | undefined;
+  tools: Record<string, ClaudeCodeToolUsage>;
+}): ClaudeCodeUsageRecord {
+  const metadata = providerMetadata?.['claude-code'] ?? {};
+  const budget = metadata.budget as { estimatedCostUsd?: unknown } | undefined;
+  const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+  return {
+    modelId,
+    ...(typeof metadata.sessionId === 'string' && { sessionId: metadata.sessionId }),
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    cachedInputTokens: usage.cachedInputTokens ?? 0,
+    costUsd: number(metadata.costUsd) ?? number(budget?.estimatedCostUsd) ?? 0,
+    durationMs: number(metadata.durationMs) ?? 0,
+    tools,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Counts a content or stream part in a per-tool tally: `tool-call` parts count as calls
+ * and `tool-error` parts or `tool-result` parts with `isError` as errors. Other parts are
+ * ignored.
+ */
+export function countToolPart(tools: Record<string, ClaudeCodeToolUsage>, part: unknown): void {
+  const { type, toolName, isError } = part as {
+    type?: unknown;
+    toolName?: unknown;
+    isError?: unknown;
+  };
+  if (typeof toolName !== 'string') return;
+  if (type === 'tool-call') {
+    (tools[toolName] ??= { calls: 0, errors: 0 }).calls += 1;
+  } else if (type === 'tool-error' || (type === 'tool-result' && isError === true)) {
+    (tools[toolName] ??= { calls: 0, errors: 0 }).errors += 1;
+  }
+}
+
+/**
+ * Aggregated usage of all requests made through one provider instance, exposed as
+ * `provider.usage`.
+ */
+export interface ClaudeCodeUsageLedger {
+  /**
+   * Adds a finished or failed request to the ledger and notifies `onUsage`. Called by the
+   * provider's models; only call it directly to add usage from elsewhere.
+   */
+  record(record: ClaudeCodeUsageRecord): void;
+
+  /**
+   * Returns a copy of the usage aggregated since creation or the last reset.
+   */
+  snapshot(): ClaudeCodeUsageSnapshot;
+
+  /**
+   * Clears all aggregated usage and starts a new aggregation window.
+   */
+  reset(): void;
+
+  /**
+   * Returns the current snapshot, so `JSON.stringify(provider.usage)` exports it.
+   */
+  toJSON(): ClaudeCodeUsageSnapshot;
+}
+
+/**
+ * Creates a usage ledger. Every model created by the provider records its finished
+ * requests in it, so usage adds up across calls, sessions and models.
+ *
+ * @param options.onUsage - Called with each recorded request
+ * @param options.logger - Logger for errors thrown by `onUsage`
+ * @returns The usage ledger
+ *
+ * @example
+ * ```typescript
+ * const provider = createClaudeCode({
+ *   onUsage: (record) => billing.charge(project, record.costUsd),
+ * });
+ *
+ * await generateText({ model: provider('sonnet'), prompt: 'Hello' });
+ *
+ * const { total, bySession, byModel, byTool } = provider.usage.snapshot();
+ * provider.usage.reset();
+ * ```
+ */
+export function createUsageLedger({
+  onUsage,
+  logger,
+}: {
+  onUsage?: (record: ClaudeCodeUsageRecord) => void;
+  logger?: Logger;
+} = {}): ClaudeCodeUsageLedger {
+  let since = new Date();
+  let total = emptyTotals();
+  const bySession = new Map<string, ClaudeCodeUsageTotals>();
+  const byModel = new Map<string, ClaudeCodeUsageTotals>();
+  const byTool = new Map<string, ClaudeCodeToolUsage>();
+
+  const totalsFor = (map: Map<string, ClaudeCodeUsageTotals>, key: string) => {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  };
+
+  const copy = <T extends object>(map: Map<string, T>): Record<string, T> =>
+    Object.fromEntries([...map].map(([key, value]) => [key, { ...value }]));
+
+  const ledger: ClaudeCodeUsageLedger = {
+    record(record) {
+      addTotals(total, record);
+      if (record.sessionId !== undefined) {
+        addTotals(totalsFor(bySession, record.sessionId), record);
+      }
+      addTotals(totalsFor(byModel, record.modelId), record);
+      for (const [toolName, usage] of Object.entries(record.tools)) {
+        const totals = byTool.get(toolName) ?? { calls: 0, errors: 0 };
+        totals.calls += usage.calls;
+        totals.errors += usage.errors;
+        byTool.set(toolName, totals);
+      }
+
+      try {
+        onUsage?.(record);
+      } catch (error) {
+        logger?.warn(
+          `[claude-code] onUsage callback failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    },
+
+    snapshot() {
+      return {
+        since: since.toISOString(),
+        total: { ...total },
+        bySession: copy(bySession),
+        byModel: copy(byModel),
+        byTool: copy(byTool),
+      };
+    },
+
+    reset() {
+      since = new Date();
+      total = emptyTotals();
+      bySession.clear();
+      byModel.clear();
+      byTool.clear();
+    },
+
+    toJSON() {
+      return ledger.snapshot();
+    },
+  };
+
+  return ledger;
+}
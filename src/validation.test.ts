@@ -80,6 +80,44 @@ describe('claudeCodeSettingsSchema', () => {
     const result = claudeCodeSettingsSchema.safeParse(settings);
     expect(result.success).toBe(false);
   });
+
+  it('should validate images settings', () => {
+    expect(
+      claudeCodeSettingsSchema.safeParse({
+        images: { preprocess: async () => undefined, maxDimension: 2000, onInvalid: 'error' },
+      }).success
+    ).toBe(true);
+    expect(claudeCodeSettingsSchema.safeParse({ images: { onInvalid: 'drop' } }).success).toBe(
+      false
+    );
+    expect(claudeCodeSettingsSchema.safeParse({ images: { preprocess: true } }).success).toBe(
+      false
+    );
+  });
+
+  it('should accept queryFunction only as a function', () => {
+    expect(claudeCodeSettingsSchema.safeParse({ queryFunction: () => [] }).success).toBe(true);
+    expect(claudeCodeSettingsSchema.safeParse({ queryFunction: 'query' }).success).toBe(false);
+  });
+
+  it('should validate fetchRemoteFiles settings', () => {
+    expect(claudeCodeSettingsSchema.safeParse({ fetchRemoteFiles: true }).success).toBe(true);
+    expect(
+      claudeCodeSettingsSchema.safeParse({
+        fetchRemoteFiles: { allowedHosts: ['*.example.com'], maxBytes: 1024, fetch: () => {} },
+      }).success
+    ).toBe(true);
+    expect(claudeCodeSettingsSchema.safeParse({ fetchRemoteFiles: { maxBytes: 0 } }).success).toBe(
+      false
+    );
+    expect(
+      claudeCodeSettingsSchema.safeParse({ fetchRemoteFiles: { fetch: 'curl' } }).success
+    ).toBe(false);
+    expect(
+      claudeCodeSettingsSchema.safeParse({ fetchRemoteFiles: { allowPrivateNetwork: 'yes' } })
+        .success
+    ).toBe(false);
+  });
 });
 
 describe('validateModelId', () => {
@@ -44,6 +44,67 @@ export const claudeCodeSettingsSchema = z
       .optional(),
     maxTurns: z.number().int().min(1).max(100).optional(),
     maxThinkingTokens: z.number().int().positive().max(100000).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    idleTimeoutMs: z.number().int().positive().optional(),
+    priority: z.number().finite().optional(),
+    queueTimeoutMs: z.number().int().positive().optional(),
+    maxCostUsd: z.number().positive().optional(),
+    maxTotalTokens: z.number().int().positive().optional(),
+    retry: z
+      .object({
+        maxAttempts: z.number().int().min(1).max(10).optional(),
+        initialDelayMs: z.number().int().nonnegative().optional(),
+        maxDelayMs: z.number().int().nonnegative().optional(),
+        backoffFactor: z.number().min(1).optional(),
+        jitter: z.number().min(0).max(1).optional(),
+        shouldRetry: z
+          .any()
+          .refine((val) => val === undefined || typeof val === 'function', {
+            message: 'shouldRetry must be a function',
+          })
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    fetchRemoteFiles: z
+      .union([
+        z.boolean(),
+        z
+          .object({
+            allowedHosts: z.array(z.string().min(1)).optional(),
+            allowPrivateNetwork: z.boolean().optional(),
+            allowedContentTypes: z.array(z.string().min(1)).optional(),
+            maxBytes: z.number().int().positive().optional(),
+            fetch: z
+              .any()
+              .refine((val) => val === undefined || typeof val === 'function', {
+                message: 'fetch must be a function',
+              })
+              .optional(),
+          })
+          .strict(),
+      ])
+      .optional(),
+    images: z
+      .object({
+        preprocess: z
+          .any()
+          .refine((val) => val === undefined || typeof val === 'function', {
+            message: 'preprocess must be a function',
+          })
+          .optional(),
+        maxBytes: z.number().int().positive().optional(),
+        maxDimension: z.number().int().positive().optional(),
+        onInvalid: z.enum(['warn', 'error']).optional(),
+      })
+      .strict()
+      .optional(),
+    queryFunction: z
+      .any()
+      .refine((val) => val === undefined || typeof val === 'function', {
+        message: 'queryFunction must be a function',
+      })
+      .optional(),
     cwd: z
       .string()
       .refine(
@@ -67,6 +128,8 @@ export const claudeCodeSettingsSchema = z
     disallowedTools: z.array(z.string()).optional(),
     settingSources: z.array(z.enum(['user', 'project', 'local'])).optional(),
     streamingInput: z.enum(['auto', 'always', 'off']).optional(),
+    historyFormat: z.enum(['transcript', 'structured']).optional(),
+    subagentText: z.enum(['include', 'exclude']).optional(),
     // Hooks and tool-permission callback (permissive validation of shapes)
     canUseTool: z
       .any()
@@ -146,6 +209,16 @@ export const claudeCodeSettingsSchema = z
   })
   .strict();
 
+/**
+ * Schema for per-request options passed via `providerOptions['claude-code']`.
+ * Accepts any setting except the logger options, which are fixed when the model is created.
+ */
+export const claudeCodeProviderOptionsSchema = claudeCodeSettingsSchema
+  .omit({ logger: true, verbose: true })
+  .extend({
+    sessionId: z.string().min(1).optional(),
+  });
+
 /**
  * Validates a model ID and returns warnings if needed.
  *